@@ -0,0 +1,63 @@
+import type { Graph } from "effect";
+
+// ============================================================================
+// ADJACENCY HELPERS
+// ============================================================================
+//
+// `Graph.neighbors` drops edge data and `Graph.neighborsDirected` reports the
+// stored `target` even when walking an undirected edge from that end. The
+// weighted algorithms in this repo need both the neighbour and the payload,
+// so they walk edges through these helpers instead.
+
+export type AdjacentEdge<E> = {
+  readonly edgeIndex: Graph.EdgeIndex;
+  readonly node: Graph.NodeIndex;
+  readonly data: E;
+};
+
+/**
+ * Edges leaving `nodeIndex` paired with the node at their other end. For
+ * undirected graphs every incident edge counts, whichever end it was added
+ * from.
+ */
+export const outgoing = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>,
+  nodeIndex: Graph.NodeIndex
+): Array<AdjacentEdge<E>> => collect(graph, nodeIndex, "outgoing");
+
+/** Edges arriving at `nodeIndex`; same as `outgoing` for undirected graphs. */
+export const incoming = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>,
+  nodeIndex: Graph.NodeIndex
+): Array<AdjacentEdge<E>> => collect(graph, nodeIndex, "incoming");
+
+const collect = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>,
+  nodeIndex: Graph.NodeIndex,
+  direction: Graph.Direction
+): Array<AdjacentEdge<E>> => {
+  const undirected = graph.type === "undirected";
+  const edgeIndices =
+    direction === "incoming" && !undirected
+      ? graph.reverseAdjacency.get(nodeIndex)
+      : graph.adjacency.get(nodeIndex);
+
+  const result: Array<AdjacentEdge<E>> = [];
+  const seen = new Set<Graph.EdgeIndex>();
+  for (const edgeIndex of edgeIndices ?? []) {
+    const edge = graph.edges.get(edgeIndex);
+    // Undirected self-loops are listed twice in the adjacency list
+    if (edge === undefined || seen.has(edgeIndex)) continue;
+    seen.add(edgeIndex);
+
+    const node = undirected
+      ? edge.source === nodeIndex
+        ? edge.target
+        : edge.source
+      : direction === "incoming"
+        ? edge.source
+        : edge.target;
+    result.push({ edgeIndex, node, data: edge.data });
+  }
+  return result;
+};
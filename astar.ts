@@ -0,0 +1,292 @@
+import { Data, Effect, type Graph, Option } from "effect";
+import * as Adjacency from "./adjacency.ts";
+import * as PriorityQueue from "./priority-queue.ts";
+
+// ============================================================================
+// A* ROUTING
+// ============================================================================
+//
+// Heuristics derived from node coordinates, plus an instrumented best-first
+// search that counts expanded nodes so A* can be compared with Dijkstra
+// (which is the same search with a zero heuristic). A heuristic is only safe
+// when it never overestimates the remaining cost; `checkHeuristic` verifies
+// that against the real edge costs before `compare` trusts it.
+
+// ===== MODELS =====
+
+export type Coordinates = readonly [number, number];
+
+// Same shape as the `heuristic` option of `Graph.astar`
+export type Heuristic<N> = (from: N, to: N) => number;
+
+export type SearchConfig<N, E> = {
+  readonly source: Graph.NodeIndex;
+  readonly target: Graph.NodeIndex;
+  readonly cost: (edgeData: E) => number;
+  // Omit for plain Dijkstra
+  readonly heuristic?: Heuristic<N>;
+};
+
+export type SearchStats = {
+  readonly path: ReadonlyArray<Graph.NodeIndex>;
+  readonly distance: number;
+  // Nodes taken off the open list and expanded
+  readonly expanded: number;
+};
+
+export type HeuristicViolation = {
+  readonly node: Graph.NodeIndex;
+  readonly estimate: number;
+  // Real shortest distance from `node` to the target
+  readonly actual: number;
+};
+
+export type HeuristicCheck = {
+  // Never overestimates the distance to the target
+  readonly admissible: boolean;
+  // Never drops by more than an edge's cost along that edge
+  readonly consistent: boolean;
+  readonly violations: ReadonlyArray<HeuristicViolation>;
+};
+
+export type Comparison = {
+  readonly astar: Option.Option<SearchStats>;
+  readonly dijkstra: Option.Option<SearchStats>;
+};
+
+export class InadmissibleHeuristic extends Data.TaggedError(
+  "InadmissibleHeuristic"
+)<{
+  readonly violations: ReadonlyArray<HeuristicViolation>;
+}> {
+  override get message() {
+    const worst = this.violations[0];
+    return worst === undefined
+      ? "Heuristic overestimates the remaining distance"
+      : `Heuristic overestimates the remaining distance from node ${worst.node}: ${worst.estimate.toFixed(2)} > ${worst.actual.toFixed(2)}`;
+  }
+}
+
+// Mean Earth radius
+export const EARTH_RADIUS_KM = 6371.0088;
+export const EARTH_RADIUS_MILES = 3958.7613;
+
+// Floating point noise should not flag a heuristic equal to the true distance
+const EPSILON = 1e-9;
+
+// ===== HEURISTICS =====
+
+/**
+ * Straight-line distance between planar coordinates, multiplied by `scale`
+ * to convert coordinate units into edge cost units.
+ */
+export const euclidean =
+  <N>(coordinates: (node: N) => Coordinates, scale = 1): Heuristic<N> =>
+  (from, to) => {
+    const [x1, y1] = coordinates(from);
+    const [x2, y2] = coordinates(to);
+    return Math.hypot(x2 - x1, y2 - y1) * scale;
+  };
+
+/**
+ * Great-circle distance between `[latitude, longitude]` pairs in degrees.
+ * Roads never beat the great circle, so this is admissible for road lengths
+ * measured in the same unit as `radius`.
+ */
+export const haversine =
+  <N>(
+    coordinates: (node: N) => Coordinates,
+    radius = EARTH_RADIUS_KM
+  ): Heuristic<N> =>
+  (from, to) => {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const [lat1, lon1] = coordinates(from);
+    const [lat2, lon2] = coordinates(to);
+    const dLat = toRadians(lat2 - lat1);
+    const dLon = toRadians(lon2 - lon1);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(lat1)) *
+        Math.cos(toRadians(lat2)) *
+        Math.sin(dLon / 2) ** 2;
+    return 2 * radius * Math.asin(Math.min(1, Math.sqrt(a)));
+  };
+
+/**
+ * Largest factor by which `distance` can be scaled while staying below every
+ * edge's cost. Scaling a metric heuristic by this factor makes it consistent,
+ * and therefore admissible, for any target. 0 (no heuristic, plain Dijkstra)
+ * when no edge joins points a positive distance apart, e.g. in a graph
+ * without edges.
+ */
+export const consistentScale = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  config: {
+    readonly cost: (edgeData: E) => number;
+    readonly distance: Heuristic<N>;
+  }
+): number => {
+  let scale = Infinity;
+  for (const edge of graph.edges.values()) {
+    const from = graph.nodes.get(edge.source);
+    const to = graph.nodes.get(edge.target);
+    if (from === undefined || to === undefined) continue;
+    const straight = config.distance(from, to);
+    if (straight > 0)
+      scale = Math.min(scale, config.cost(edge.data) / straight);
+  }
+  return Number.isFinite(scale) ? scale : 0;
+};
+
+// ===== VALIDATION =====
+
+// Shortest distance from every node to `target`, following edges backwards
+const distancesTo = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  target: Graph.NodeIndex,
+  cost: (edgeData: E) => number
+): Map<Graph.NodeIndex, number> => {
+  const distance = new Map<Graph.NodeIndex, number>([[target, 0]]);
+  const settled = new Set<Graph.NodeIndex>();
+  const queue = PriorityQueue.make<Graph.NodeIndex>();
+  queue.push(target, 0);
+  while (queue.size() > 0) {
+    const current = queue.pop();
+    if (current === undefined || settled.has(current)) continue;
+    settled.add(current);
+    const base = distance.get(current) ?? 0;
+    for (const { node, data } of Adjacency.incoming(graph, current)) {
+      const d = base + cost(data);
+      if (d < (distance.get(node) ?? Infinity)) {
+        distance.set(node, d);
+        queue.push(node, d);
+      }
+    }
+  }
+  return distance;
+};
+
+/**
+ * Compares the heuristic with the real distance to `target` from every node
+ * that can reach it. Violations are sorted by how much they overestimate.
+ */
+export const checkHeuristic = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  config: Omit<SearchConfig<N, E>, "source" | "heuristic"> & {
+    readonly heuristic: Heuristic<N>;
+  }
+): HeuristicCheck => {
+  const goal = graph.nodes.get(config.target);
+  if (goal === undefined) {
+    return { admissible: true, consistent: true, violations: [] };
+  }
+  const estimate = (nodeIndex: Graph.NodeIndex) => {
+    const node = graph.nodes.get(nodeIndex);
+    return node === undefined ? 0 : config.heuristic(node, goal);
+  };
+
+  const violations: Array<HeuristicViolation> = [];
+  for (const [node, actual] of distancesTo(graph, config.target, config.cost)) {
+    const h = estimate(node);
+    if (h > actual + EPSILON) violations.push({ node, estimate: h, actual });
+  }
+  violations.sort((a, b) => b.estimate - b.actual - (a.estimate - a.actual));
+
+  let consistent = true;
+  for (const edge of graph.edges.values()) {
+    const c = config.cost(edge.data);
+    const drop = estimate(edge.source) - estimate(edge.target);
+    // Undirected edges can be walked either way
+    const limit = graph.type === "undirected" ? Math.abs(drop) : drop;
+    if (limit > c + EPSILON) {
+      consistent = false;
+      break;
+    }
+  }
+
+  return { admissible: violations.length === 0, consistent, violations };
+};
+
+// ===== SEARCH =====
+
+/**
+ * Best-first search from `source` to `target` ordered by distance plus
+ * heuristic. Nodes are reopened when a shorter route turns up, so an
+ * admissible but inconsistent heuristic still finds the shortest path.
+ */
+export const search = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  config: SearchConfig<N, E>
+): Option.Option<SearchStats> => {
+  const goal = graph.nodes.get(config.target);
+  if (goal === undefined || !graph.nodes.has(config.source)) {
+    return Option.none();
+  }
+  const heuristic = config.heuristic;
+  const estimate = (nodeIndex: Graph.NodeIndex) => {
+    if (heuristic === undefined) return 0;
+    const node = graph.nodes.get(nodeIndex);
+    return node === undefined ? 0 : heuristic(node, goal);
+  };
+
+  const distance = new Map<Graph.NodeIndex, number>([[config.source, 0]]);
+  const previous = new Map<Graph.NodeIndex, Graph.NodeIndex>();
+  const queue = PriorityQueue.make<{ node: Graph.NodeIndex; g: number }>();
+  queue.push({ node: config.source, g: 0 }, estimate(config.source));
+  let expanded = 0;
+
+  while (queue.size() > 0) {
+    const entry = queue.pop();
+    // Skip entries superseded by a shorter route
+    if (entry === undefined || entry.g > (distance.get(entry.node) ?? 0)) {
+      continue;
+    }
+    expanded++;
+
+    if (entry.node === config.target) {
+      const path = [entry.node];
+      let current = previous.get(entry.node);
+      while (current !== undefined) {
+        path.push(current);
+        current = previous.get(current);
+      }
+      return Option.some({
+        path: path.reverse(),
+        distance: entry.g,
+        expanded,
+      });
+    }
+
+    for (const { node, data } of Adjacency.outgoing(graph, entry.node)) {
+      const g = entry.g + config.cost(data);
+      if (g < (distance.get(node) ?? Infinity)) {
+        distance.set(node, g);
+        previous.set(node, entry.node);
+        queue.push({ node, g }, g + estimate(node));
+      }
+    }
+  }
+  return Option.none();
+};
+
+/**
+ * Runs A* and Dijkstra on the same query after checking that the heuristic
+ * is admissible for this target; an overestimating heuristic fails with
+ * `InadmissibleHeuristic` instead of returning a possibly longer route.
+ */
+export const compare = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  config: SearchConfig<N, E> & { readonly heuristic: Heuristic<N> }
+): Effect.Effect<Comparison, InadmissibleHeuristic> =>
+  Effect.suspend(() => {
+    const check = checkHeuristic(graph, config);
+    if (!check.admissible) {
+      return Effect.fail(
+        new InadmissibleHeuristic({ violations: check.violations })
+      );
+    }
+    return Effect.succeed({
+      astar: search(graph, config),
+      dijkstra: search(graph, { ...config, heuristic: undefined }),
+    });
+  });
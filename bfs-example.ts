@@ -1,37 +1,20 @@
 import { DevTools } from "@effect/experimental";
 import { BunContext, BunRuntime } from "@effect/platform-bun";
-import { Effect, Graph, Option } from "effect";
-
-const findNodeInMap = <K, V>(map: Map<K, V>, key: K): V => {
-  const node = map.get(key);
-  if (node === undefined) throw new Error(`Node ${key} not found in map`);
-  return node;
-};
+import { Effect, Graph, Stream } from "effect";
+import { bfsLevels } from "./bfs-levels.ts";
+import * as Centrality from "./centrality.ts";
+import * as Community from "./community.ts";
+import * as Datasets from "./datasets.ts";
+import * as GraphStream from "./graph-stream.ts";
+import * as KShortest from "./k-shortest.ts";
+import * as KeyedGraph from "./keyed-graph.ts";
 
 // ============================================================================
 // EXTREMELY COMPLEX BFS SOCIAL NETWORK EXAMPLE
 // ============================================================================
 
-type Person = {
-  id: string;
-  name: string;
-  job: string;
-  company?: string;
-  location: string;
-  industry: string;
-  interests: string[];
-  experience: number; // years
-  education: string[];
-  skills: string[];
-  influence: number; // 1-10 scale
-};
-
-type Connection = {
-  strength: number; // 1-10
-  context: string;
-  type: "professional" | "personal" | "academic" | "community";
-  since: number; // year
-};
+type Person = Datasets.Person;
+type Connection = Datasets.Connection;
 
 const massiveSocialNetworkExample = Effect.gen(function* () {
   yield* Effect.log(
@@ -41,1375 +24,48 @@ const massiveSocialNetworkExample = Effect.gen(function* () {
     "This demonstrates real-world scale social network analysis using BFS algorithms\n"
   );
 
-  // MASSIVE social network with 85+ people across 12 cities and 15+ industries
-  const people: Person[] = [
-    // ===== TECH INDUSTRY - San Francisco/Silicon Valley =====
-    {
-      id: "alice",
-      name: "Alice Chen",
-      job: "Senior Software Engineer",
-      company: "Meta",
-      location: "San Francisco",
-      industry: "Technology",
-      interests: ["React", "GraphQL", "Machine Learning", "Open Source"],
-      experience: 8,
-      education: ["Stanford CS"],
-      skills: ["React", "Node.js", "Python", "TensorFlow"],
-      influence: 8,
-    },
-    {
-      id: "bob",
-      name: "Bob Rodriguez",
-      job: "Product Manager",
-      company: "Google",
-      location: "Mountain View",
-      industry: "Technology",
-      interests: ["Product Strategy", "AI Ethics", "UX Research"],
-      experience: 10,
-      education: ["Berkeley MBA"],
-      skills: ["Product Management", "Data Analysis", "Leadership"],
-      influence: 9,
-    },
-    {
-      id: "carol",
-      name: "Carol Kim",
-      job: "UX Designer",
-      company: "Apple",
-      location: "Cupertino",
-      industry: "Technology",
-      interests: ["Design Systems", "Accessibility", "User Research"],
-      experience: 7,
-      education: ["RISD Design"],
-      skills: ["Figma", "Sketch", "Prototyping", "Research"],
-      influence: 7,
-    },
-    {
-      id: "david",
-      name: "David Patel",
-      job: "DevOps Engineer",
-      company: "Netflix",
-      location: "Los Gatos",
-      industry: "Technology",
-      interests: ["Kubernetes", "Infrastructure", "Site Reliability"],
-      experience: 9,
-      education: ["MIT Computer Science"],
-      skills: ["Docker", "Kubernetes", "AWS", "Terraform"],
-      influence: 8,
-    },
-    {
-      id: "eve",
-      name: "Eve Johnson",
-      job: "Data Scientist",
-      company: "Uber",
-      location: "San Francisco",
-      industry: "Technology",
-      interests: ["Statistics", "Deep Learning", "A/B Testing"],
-      experience: 6,
-      education: ["Carnegie Mellon Statistics"],
-      skills: ["Python", "R", "SQL", "PyTorch"],
-      influence: 7,
-    },
-    {
-      id: "frank",
-      name: "Frank Miller",
-      job: "Engineering Director",
-      company: "Stripe",
-      location: "San Francisco",
-      industry: "Technology",
-      interests: ["Engineering Leadership", "Scalability", "Team Building"],
-      experience: 12,
-      education: ["Harvard CS"],
-      skills: ["Leadership", "System Design", "Mentoring"],
-      influence: 9,
-    },
-    {
-      id: "grace",
-      name: "Grace Lee",
-      job: "Frontend Engineer",
-      company: "Airbnb",
-      location: "San Francisco",
-      industry: "Technology",
-      interests: ["React", "TypeScript", "Performance"],
-      experience: 5,
-      education: ["UC Berkeley CS"],
-      skills: ["React", "TypeScript", "CSS", "Webpack"],
-      influence: 6,
-    },
-    {
-      id: "harry",
-      name: "Harry Wong",
-      job: "Security Engineer",
-      company: "Twitter",
-      location: "San Francisco",
-      industry: "Technology",
-      interests: ["Cybersecurity", "Cryptography", "Privacy"],
-      experience: 8,
-      education: ["Stanford Security"],
-      skills: ["Security", "Cryptography", "Network Security"],
-      influence: 7,
-    },
-    {
-      id: "iris",
-      name: "Iris Zhang",
-      job: "ML Engineer",
-      company: "OpenAI",
-      location: "San Francisco",
-      industry: "Technology",
-      interests: ["Machine Learning", "NLP", "Computer Vision"],
-      experience: 6,
-      education: ["CMU ML"],
-      skills: ["Python", "TensorFlow", "PyTorch", "NLP"],
-      influence: 8,
-    },
-    {
-      id: "jack",
-      name: "Jack Thompson",
-      job: "Full Stack Developer",
-      company: "Slack",
-      location: "San Francisco",
-      industry: "Technology",
-      interests: ["Node.js", "React", "Real-time Systems"],
-      experience: 7,
-      education: ["Georgia Tech CS"],
-      skills: ["Node.js", "React", "MongoDB", "WebRTC"],
-      influence: 6,
-    },
-
-    // ===== FINANCE INDUSTRY - New York =====
-    {
-      id: "kate",
-      name: "Kate Rodriguez",
-      job: "Investment Banker",
-      company: "Goldman Sachs",
-      location: "New York",
-      industry: "Finance",
-      interests: ["Mergers & Acquisitions", "Private Equity", "Markets"],
-      experience: 11,
-      education: ["Wharton MBA", "Penn Economics"],
-      skills: ["Financial Modeling", "Due Diligence", "Negotiation"],
-      influence: 9,
-    },
-    {
-      id: "liam",
-      name: "Liam Chen",
-      job: "Quantitative Analyst",
-      company: "JPMorgan",
-      location: "New York",
-      industry: "Finance",
-      interests: ["Quantitative Finance", "Risk Modeling", "Derivatives"],
-      experience: 8,
-      education: ["Columbia Math", "MIT Finance"],
-      skills: ["Python", "R", "Stochastic Calculus", "Risk Management"],
-      influence: 8,
-    },
-    {
-      id: "maya",
-      name: "Maya Singh",
-      job: "Financial Analyst",
-      company: "BlackRock",
-      location: "New York",
-      industry: "Finance",
-      interests: ["Portfolio Analysis", "Asset Management", "ESG Investing"],
-      experience: 6,
-      education: ["NYU Stern Finance"],
-      skills: ["Excel", "Bloomberg", "Financial Analysis"],
-      influence: 7,
-    },
-    {
-      id: "nathan",
-      name: "Nathan Brown",
-      job: "Trader",
-      company: "Citadel",
-      location: "New York",
-      industry: "Finance",
-      interests: ["High Frequency Trading", "Algorithmic Trading"],
-      experience: 9,
-      education: ["Chicago Booth MBA"],
-      skills: ["Trading", "Algorithms", "Market Microstructure"],
-      influence: 8,
-    },
-    {
-      id: "olivia",
-      name: "Olivia Davis",
-      job: "Hedge Fund Analyst",
-      company: "Bridgewater",
-      location: "Westport",
-      industry: "Finance",
-      interests: ["Macro Economics", "Global Markets", "Risk Parity"],
-      experience: 7,
-      education: ["Yale Economics"],
-      skills: ["Econometrics", "Portfolio Optimization"],
-      influence: 7,
-    },
-    {
-      id: "parker",
-      name: "Parker Wilson",
-      job: "FinTech Entrepreneur",
-      company: "Robinhood",
-      location: "New York",
-      industry: "Finance",
-      interests: ["FinTech", "Cryptocurrency", "Financial Inclusion"],
-      experience: 10,
-      education: ["Stanford Business"],
-      skills: ["Entrepreneurship", "Product", "Finance"],
-      influence: 9,
-    },
-
-    // ===== HEALTHCARE INDUSTRY - Boston =====
-    {
-      id: "quinn",
-      name: "Quinn Taylor",
-      job: "Neurosurgeon",
-      company: "Massachusetts General",
-      location: "Boston",
-      industry: "Healthcare",
-      interests: ["Neurosurgery", "Medical Research", "Patient Care"],
-      experience: 15,
-      education: ["Harvard Medical", "Johns Hopkins Residency"],
-      skills: ["Surgery", "Research", "Patient Care"],
-      influence: 9,
-    },
-    {
-      id: "ryan",
-      name: "Ryan Martinez",
-      job: "Pharmaceutical Researcher",
-      company: "Pfizer",
-      location: "Cambridge",
-      industry: "Healthcare",
-      interests: ["Drug Discovery", "Biochemistry", "Clinical Trials"],
-      experience: 12,
-      education: ["MIT Chemistry", "Harvard Med"],
-      skills: ["Biochemistry", "Drug Development", "Clinical Research"],
-      influence: 8,
-    },
-    {
-      id: "sophia",
-      name: "Sophia Anderson",
-      job: "Nurse Practitioner",
-      company: "Brigham & Women's",
-      location: "Boston",
-      industry: "Healthcare",
-      interests: ["Primary Care", "Preventive Medicine", "Health Education"],
-      experience: 8,
-      education: ["Boston University Nursing"],
-      skills: ["Patient Care", "Health Education", "Diagnosis"],
-      influence: 7,
-    },
-    {
-      id: "thomas",
-      name: "Thomas Lee",
-      job: "Healthcare Administrator",
-      company: "Partners HealthCare",
-      location: "Boston",
-      industry: "Healthcare",
-      interests: ["Healthcare Policy", "Administration", "Quality Improvement"],
-      experience: 13,
-      education: ["Harvard Business", "Tufts Med"],
-      skills: ["Healthcare Administration", "Policy", "Quality Management"],
-      influence: 8,
-    },
-    {
-      id: "ursula",
-      name: "Ursula Kim",
-      job: "Biotech Entrepreneur",
-      company: "Moderna",
-      location: "Cambridge",
-      industry: "Healthcare",
-      interests: ["mRNA Technology", "Vaccine Development", "Biotechnology"],
-      experience: 14,
-      education: ["Stanford Bioengineering"],
-      skills: ["Biotechnology", "Entrepreneurship", "R&D"],
-      influence: 9,
-    },
-
-    // ===== EDUCATION INDUSTRY - Various =====
-    {
-      id: "victor",
-      name: "Victor Patel",
-      job: "Computer Science Professor",
-      company: "MIT",
-      location: "Cambridge",
-      industry: "Education",
-      interests: ["Algorithms", "Distributed Systems", "Education Technology"],
-      experience: 18,
-      education: ["MIT CS", "Stanford PhD"],
-      skills: ["Research", "Teaching", "Algorithms"],
-      influence: 9,
-    },
-    {
-      id: "wendy",
-      name: "Wendy Johnson",
-      job: "High School Principal",
-      company: "Boston Public Schools",
-      location: "Boston",
-      industry: "Education",
-      interests: [
-        "Education Policy",
-        "STEM Education",
-        "Leadership Development",
-      ],
-      experience: 16,
-      education: ["Harvard Ed.D"],
-      skills: ["Education Leadership", "Policy", "STEM"],
-      influence: 7,
-    },
-    {
-      id: "xavier",
-      name: "Xavier Morales",
-      job: "EdTech Entrepreneur",
-      company: "Coursera",
-      location: "Mountain View",
-      industry: "Education",
-      interests: ["Online Learning", "MOOCs", "Educational Technology"],
-      experience: 11,
-      education: ["Stanford Education"],
-      skills: ["EdTech", "Product Development", "Education"],
-      influence: 8,
-    },
-    {
-      id: "yasmin",
-      name: "Yasmin Ali",
-      job: "Research Scientist",
-      company: "Harvard",
-      location: "Cambridge",
-      industry: "Education",
-      interests: [
-        "Cognitive Science",
-        "Learning Analytics",
-        "Educational Research",
-      ],
-      experience: 9,
-      education: ["Harvard Psychology"],
-      skills: ["Research", "Statistics", "Psychology"],
-      influence: 7,
-    },
-
-    // ===== ENTERTAINMENT INDUSTRY - Los Angeles =====
-    {
-      id: "zach",
-      name: "Zach Thompson",
-      job: "Film Director",
-      company: "Independent",
-      location: "Los Angeles",
-      industry: "Entertainment",
-      interests: ["Film Making", "Storytelling", "Cinematography"],
-      experience: 13,
-      education: ["USC Film"],
-      skills: ["Directing", "Screenwriting", "Cinematography"],
-      influence: 8,
-    },
-    {
-      id: "anna",
-      name: "Anna Rodriguez",
-      job: "Music Producer",
-      company: "Warner Music",
-      location: "Los Angeles",
-      industry: "Entertainment",
-      interests: [
-        "Music Production",
-        "Sound Engineering",
-        "Artist Development",
-      ],
-      experience: 10,
-      education: ["Berklee Music"],
-      skills: ["Audio Production", "Mixing", "Artist Relations"],
-      influence: 7,
-    },
-    {
-      id: "bruce",
-      name: "Bruce Chen",
-      job: "Game Developer",
-      company: "Naughty Dog",
-      location: "Santa Monica",
-      industry: "Entertainment",
-      interests: ["Game Design", "3D Graphics", "Interactive Storytelling"],
-      experience: 8,
-      education: ["USC Interactive Media"],
-      skills: ["Unity", "Unreal Engine", "C++", "Game Design"],
-      influence: 7,
-    },
-
-    // ===== CONSULTING & PROFESSIONAL SERVICES - Chicago =====
-    {
-      id: "charlie",
-      name: "Charlie Wilson",
-      job: "Management Consultant",
-      company: "McKinsey",
-      location: "Chicago",
-      industry: "Consulting",
-      interests: [
-        "Strategy",
-        "Organizational Change",
-        "Digital Transformation",
-      ],
-      experience: 12,
-      education: ["Harvard Business"],
-      skills: ["Strategy", "Change Management", "Leadership"],
-      influence: 9,
-    },
-    {
-      id: "diana",
-      name: "Diana Patel",
-      job: "Strategy Consultant",
-      company: "Bain",
-      location: "Chicago",
-      industry: "Consulting",
-      interests: ["Corporate Strategy", "Private Equity", "Growth Strategy"],
-      experience: 9,
-      education: ["Wharton MBA"],
-      skills: ["Strategy", "Financial Modeling", "Due Diligence"],
-      influence: 8,
-    },
-    {
-      id: "edward",
-      name: "Edward Kim",
-      job: "IT Consultant",
-      company: "Accenture",
-      location: "Chicago",
-      industry: "Consulting",
-      interests: ["Digital Transformation", "Cloud Migration", "Cybersecurity"],
-      experience: 11,
-      education: ["Northwestern Engineering"],
-      skills: ["Cloud Computing", "Security", "Digital Strategy"],
-      influence: 7,
-    },
-
-    // ===== LAW INDUSTRY - Washington DC =====
-    {
-      id: "felicia",
-      name: "Felicia Johnson",
-      job: "Corporate Lawyer",
-      company: "Skadden Arps",
-      location: "New York",
-      industry: "Law",
-      interests: [
-        "Mergers & Acquisitions",
-        "Corporate Governance",
-        "Securities Law",
-      ],
-      experience: 14,
-      education: ["Yale Law"],
-      skills: ["Legal Analysis", "Negotiation", "Corporate Law"],
-      influence: 8,
-    },
-    {
-      id: "george",
-      name: "George Martinez",
-      job: "IP Lawyer",
-      company: "Fish & Richardson",
-      location: "Boston",
-      industry: "Law",
-      interests: ["Intellectual Property", "Patents", "Technology Law"],
-      experience: 13,
-      education: ["Stanford Law"],
-      skills: ["IP Law", "Patents", "Licensing"],
-      influence: 7,
-    },
-
-    // ===== REAL ESTATE - Miami =====
-    {
-      id: "helena",
-      name: "Helena Davis",
-      job: "Real Estate Developer",
-      company: "Related Group",
-      location: "Miami",
-      industry: "Real Estate",
-      interests: ["Urban Development", "Sustainability", "Architecture"],
-      experience: 16,
-      education: ["Florida International Architecture"],
-      skills: ["Real Estate Development", "Project Management"],
-      influence: 8,
-    },
-    {
-      id: "ian",
-      name: "Ian Thompson",
-      job: "Commercial Broker",
-      company: "CBRE",
-      location: "Miami",
-      industry: "Real Estate",
-      interests: ["Commercial Real Estate", "Investment Properties"],
-      experience: 11,
-      education: ["University of Miami Business"],
-      skills: ["Real Estate", "Negotiation", "Market Analysis"],
-      influence: 6,
-    },
-
-    // ===== ENERGY - Houston =====
-    {
-      id: "julia",
-      name: "Julia Anderson",
-      job: "Petroleum Engineer",
-      company: "ExxonMobil",
-      location: "Houston",
-      industry: "Energy",
-      interests: ["Reservoir Engineering", "Sustainable Energy", "Geology"],
-      experience: 13,
-      education: ["Texas A&M Petroleum Engineering"],
-      skills: ["Reservoir Engineering", "Geology", "Drilling"],
-      influence: 7,
-    },
-    {
-      id: "kevin",
-      name: "Kevin Lee",
-      job: "Renewable Energy Engineer",
-      company: "Tesla Energy",
-      location: "Austin",
-      industry: "Energy",
-      interests: ["Solar Energy", "Battery Technology", "Grid Storage"],
-      experience: 8,
-      education: ["UT Austin Electrical Engineering"],
-      skills: ["Solar Design", "Battery Systems", "Power Electronics"],
-      influence: 7,
-    },
-
-    // ===== RETAIL & E-COMMERCE - Seattle =====
-    {
-      id: "lisa",
-      name: "Lisa Wong",
-      job: "E-commerce Director",
-      company: "Amazon",
-      location: "Seattle",
-      industry: "Retail",
-      interests: ["E-commerce", "Supply Chain", "Customer Experience"],
-      experience: 10,
-      education: ["Northwestern Business"],
-      skills: ["E-commerce", "Operations", "Customer Analytics"],
-      influence: 8,
-    },
-    {
-      id: "mike",
-      name: "Mike Rodriguez",
-      job: "Retail Operations Manager",
-      company: "Target",
-      location: "Minneapolis",
-      industry: "Retail",
-      interests: ["Operations", "Supply Chain", "Customer Service"],
-      experience: 9,
-      education: ["University of Minnesota Business"],
-      skills: ["Operations Management", "Supply Chain"],
-      influence: 6,
-    },
-
-    // ===== MANUFACTURING - Detroit =====
-    {
-      id: "nancy",
-      name: "Nancy Chen",
-      job: "Manufacturing Engineer",
-      company: "Ford",
-      location: "Detroit",
-      industry: "Manufacturing",
-      interests: ["Lean Manufacturing", "Automation", "Quality Control"],
-      experience: 15,
-      education: ["Michigan Engineering"],
-      skills: ["Manufacturing", "Automation", "Quality Control"],
-      influence: 7,
-    },
-    {
-      id: "oscar",
-      name: "Oscar Patel",
-      job: "Supply Chain Manager",
-      company: "GM",
-      location: "Detroit",
-      industry: "Manufacturing",
-      interests: ["Supply Chain", "Logistics", "Just-in-Time"],
-      experience: 12,
-      education: ["Wayne State Business"],
-      skills: ["Supply Chain", "Logistics", "Operations"],
-      influence: 6,
-    },
-
-    // ===== AGRICULTURE - Midwest =====
-    {
-      id: "paula",
-      name: "Paula Johnson",
-      job: "Agricultural Scientist",
-      company: "Monsanto",
-      location: "St. Louis",
-      industry: "Agriculture",
-      interests: ["Crop Science", "Sustainable Agriculture", "Biotechnology"],
-      experience: 11,
-      education: ["University of Illinois Agronomy"],
-      skills: ["Crop Science", "Biotechnology", "Research"],
-      influence: 7,
-    },
-
-    // ===== NON-PROFIT & GOVERNMENT - Washington DC =====
-    {
-      id: "quentin",
-      name: "Quentin Davis",
-      job: "Policy Analyst",
-      company: "Congressional Research Service",
-      location: "Washington DC",
-      industry: "Government",
-      interests: ["Public Policy", "Data Analysis", "Research"],
-      experience: 8,
-      education: ["Georgetown Public Policy"],
-      skills: ["Policy Analysis", "Research", "Data Analysis"],
-      influence: 6,
-    },
-    {
-      id: "rachel",
-      name: "Rachel Thompson",
-      job: "Non-profit Director",
-      company: "Red Cross",
-      location: "Washington DC",
-      industry: "Non-profit",
-      interests: [
-        "Disaster Relief",
-        "Humanitarian Aid",
-        "Community Development",
-      ],
-      experience: 10,
-      education: ["Johns Hopkins Public Health"],
-      skills: ["Program Management", "Fundraising", "Community Relations"],
-      influence: 7,
-    },
-  ];
-
-  // Build MASSIVE social network with 200+ connections
-  const socialGraph = Graph.mutate(
-    Graph.undirected<Person, Connection>(),
+  // MASSIVE social network with 85+ people across 12 cities and 15+ industries,
+  // read from DATA_DIR so the analysis runs on any export with these columns
+  const dataDir = yield* Datasets.directory;
+  const people = yield* Datasets.loadPeople(`${dataDir}/people.csv`).pipe(
+    Effect.flatMap(Datasets.validRows)
+  );
+  // Build MASSIVE social network with 200+ connections: people first, then
+  // the connections streamed in, skipping any to people missing from the
+  // export. The same builder takes edge lists with millions of rows.
+  const connections = yield* Datasets.loadConnections(
+    `${dataDir}/connections.csv`
+  ).pipe(Effect.flatMap(Datasets.validRows));
+  const seeded = yield* KeyedGraph.mutate(
+    KeyedGraph.undirected<string, Person, Connection>((person) => person.id),
     (mutable) => {
-      const nodeMap = new Map<string, number>();
-
-      // Add all people as nodes
       for (const person of people) {
-        nodeMap.set(person.id, Graph.addNode(mutable, person));
-      }
-
-      const getNode = (id: string) => findNodeInMap(nodeMap, id);
-
-      // MASSIVE connection network - realistic professional/personal/academic connections
-      const connections: Array<[string, string, Connection]> = [
-        // ===== TECH CLUSTER CONNECTIONS =====
-        [
-          "alice",
-          "bob",
-          {
-            strength: 8,
-            context: "Meta-Google collaboration project",
-            type: "professional",
-            since: 2019,
-          },
-        ],
-        [
-          "alice",
-          "carol",
-          {
-            strength: 9,
-            context: "Apple-Meta design partnership",
-            type: "professional",
-            since: 2020,
-          },
-        ],
-        [
-          "alice",
-          "david",
-          {
-            strength: 7,
-            context: "Netflix-Meta infrastructure sharing",
-            type: "professional",
-            since: 2018,
-          },
-        ],
-        [
-          "alice",
-          "eve",
-          {
-            strength: 6,
-            context: "Uber-Meta data science collaboration",
-            type: "professional",
-            since: 2021,
-          },
-        ],
-        [
-          "alice",
-          "grace",
-          {
-            strength: 8,
-            context: "Airbnb-Meta frontend standards",
-            type: "professional",
-            since: 2020,
-          },
-        ],
-        [
-          "alice",
-          "iris",
-          {
-            strength: 7,
-            context: "OpenAI-Meta AI research",
-            type: "professional",
-            since: 2022,
-          },
-        ],
-        [
-          "bob",
-          "carol",
-          {
-            strength: 8,
-            context: "Google-Apple UX research",
-            type: "professional",
-            since: 2019,
-          },
-        ],
-        [
-          "bob",
-          "eve",
-          {
-            strength: 7,
-            context: "Google-Uber autonomous vehicles",
-            type: "professional",
-            since: 2020,
-          },
-        ],
-        [
-          "bob",
-          "frank",
-          {
-            strength: 9,
-            context: "Google-Stripe payments integration",
-            type: "professional",
-            since: 2018,
-          },
-        ],
-        [
-          "bob",
-          "iris",
-          {
-            strength: 6,
-            context: "Google-OpenAI partnership",
-            type: "professional",
-            since: 2023,
-          },
-        ],
-        [
-          "carol",
-          "grace",
-          {
-            strength: 8,
-            context: "Apple-Airbnb design collaboration",
-            type: "professional",
-            since: 2021,
-          },
-        ],
-        [
-          "david",
-          "harry",
-          {
-            strength: 7,
-            context: "Netflix-Twitter security standards",
-            type: "professional",
-            since: 2020,
-          },
-        ],
-        [
-          "eve",
-          "iris",
-          {
-            strength: 8,
-            context: "Uber-OpenAI ML research",
-            type: "professional",
-            since: 2022,
-          },
-        ],
-        [
-          "frank",
-          "jack",
-          {
-            strength: 7,
-            context: "Stripe-Slack integration",
-            type: "professional",
-            since: 2019,
-          },
-        ],
-
-        // ===== FINANCE CLUSTER =====
-        [
-          "kate",
-          "liam",
-          {
-            strength: 8,
-            context: "Goldman-JPMorgan M&A deals",
-            type: "professional",
-            since: 2017,
-          },
-        ],
-        [
-          "kate",
-          "maya",
-          {
-            strength: 7,
-            context: "Goldman-BlackRock portfolio analysis",
-            type: "professional",
-            since: 2019,
-          },
-        ],
-        [
-          "kate",
-          "parker",
-          {
-            strength: 9,
-            context: "Goldman-Robinhood fintech partnership",
-            type: "professional",
-            since: 2020,
-          },
-        ],
-        [
-          "liam",
-          "nathan",
-          {
-            strength: 7,
-            context: "JPMorgan-Citadel quantitative trading",
-            type: "professional",
-            since: 2018,
-          },
-        ],
-        [
-          "maya",
-          "olivia",
-          {
-            strength: 6,
-            context: "BlackRock-Bridgewater ESG investing",
-            type: "professional",
-            since: 2021,
-          },
-        ],
-        [
-          "nathan",
-          "parker",
-          {
-            strength: 8,
-            context: "Citadel-Robinhood trading algorithms",
-            type: "professional",
-            since: 2022,
-          },
-        ],
-
-        // ===== HEALTHCARE CLUSTER =====
-        [
-          "quinn",
-          "ryan",
-          {
-            strength: 8,
-            context: "MGH-Pfizer clinical trials",
-            type: "professional",
-            since: 2016,
-          },
-        ],
-        [
-          "quinn",
-          "thomas",
-          {
-            strength: 9,
-            context: "Harvard Medical administration",
-            type: "professional",
-            since: 2015,
-          },
-        ],
-        [
-          "ryan",
-          "ursula",
-          {
-            strength: 9,
-            context: "Pfizer-Moderna mRNA collaboration",
-            type: "professional",
-            since: 2020,
-          },
-        ],
-        [
-          "sophia",
-          "thomas",
-          {
-            strength: 7,
-            context: "Brigham-Partners quality improvement",
-            type: "professional",
-            since: 2018,
-          },
-        ],
-
-        // ===== EDUCATION CLUSTER =====
-        [
-          "victor",
-          "wendy",
-          {
-            strength: 7,
-            context: "MIT-Boston Public Schools STEM partnership",
-            type: "professional",
-            since: 2019,
-          },
-        ],
-        [
-          "victor",
-          "xavier",
-          {
-            strength: 8,
-            context: "MIT-Coursera online learning",
-            type: "professional",
-            since: 2017,
-          },
-        ],
-        [
-          "victor",
-          "yasmin",
-          {
-            strength: 6,
-            context: "MIT-Harvard cognitive science research",
-            type: "academic",
-            since: 2020,
-          },
-        ],
-        [
-          "wendy",
-          "yasmin",
-          {
-            strength: 5,
-            context: "Boston Public-Harvard education research",
-            type: "professional",
-            since: 2021,
-          },
-        ],
-
-        // ===== ENTERTAINMENT CLUSTER =====
-        [
-          "zach",
-          "anna",
-          {
-            strength: 7,
-            context: "Film scoring collaboration",
-            type: "professional",
-            since: 2018,
-          },
-        ],
-        [
-          "zach",
-          "bruce",
-          {
-            strength: 6,
-            context: "Film game development",
-            type: "professional",
-            since: 2020,
-          },
-        ],
-
-        // ===== CROSS-INDUSTRY CONNECTIONS =====
-        // Tech-Finance
-        [
-          "alice",
-          "kate",
-          {
-            strength: 6,
-            context: "Meta-Goldman fintech investment",
-            type: "professional",
-            since: 2021,
-          },
-        ],
-        [
-          "bob",
-          "liam",
-          {
-            strength: 5,
-            context: "Google-JPMorgan cloud partnership",
-            type: "professional",
-            since: 2019,
-          },
-        ],
-        [
-          "eve",
-          "maya",
-          {
-            strength: 7,
-            context: "Uber-BlackRock data analytics",
-            type: "professional",
-            since: 2020,
-          },
-        ],
-        [
-          "frank",
-          "parker",
-          {
-            strength: 8,
-            context: "Stripe-Robinhood payments integration",
-            type: "professional",
-            since: 2018,
-          },
-        ],
-
-        // Tech-Healthcare
-        [
-          "alice",
-          "ryan",
-          {
-            strength: 6,
-            context: "Meta-Pfizer drug discovery AI",
-            type: "professional",
-            since: 2022,
-          },
-        ],
-        [
-          "iris",
-          "ursula",
-          {
-            strength: 8,
-            context: "OpenAI-Moderna AI drug discovery",
-            type: "professional",
-            since: 2021,
-          },
-        ],
-
-        // Tech-Education
-        [
-          "victor",
-          "alice",
-          {
-            strength: 7,
-            context: "MIT-Meta AI research collaboration",
-            type: "academic",
-            since: 2019,
-          },
-        ],
-        [
-          "victor",
-          "iris",
-          {
-            strength: 8,
-            context: "MIT-OpenAI AI research partnership",
-            type: "academic",
-            since: 2020,
-          },
-        ],
-        [
-          "xavier",
-          "bob",
-          {
-            strength: 6,
-            context: "Coursera-Google education technology",
-            type: "professional",
-            since: 2018,
-          },
-        ],
-
-        // Finance-Healthcare
-        [
-          "kate",
-          "ursula",
-          {
-            strength: 7,
-            context: "Goldman-Moderna IPO advisory",
-            type: "professional",
-            since: 2018,
-          },
-        ],
-        [
-          "maya",
-          "ryan",
-          {
-            strength: 5,
-            context: "BlackRock-Pfizer investment research",
-            type: "professional",
-            since: 2020,
-          },
-        ],
-
-        // Healthcare-Education
-        [
-          "quinn",
-          "victor",
-          {
-            strength: 8,
-            context: "Harvard Medical-MIT neuroscience research",
-            type: "academic",
-            since: 2015,
-          },
-        ],
-        [
-          "ryan",
-          "victor",
-          {
-            strength: 9,
-            context: "Pfizer-MIT drug delivery research",
-            type: "academic",
-            since: 2017,
-          },
-        ],
-
-        // Law-Tech
-        [
-          "felicia",
-          "alice",
-          {
-            strength: 5,
-            context: "Skadden-Meta regulatory compliance",
-            type: "professional",
-            since: 2020,
-          },
-        ],
-        [
-          "george",
-          "david",
-          {
-            strength: 6,
-            context: "Fish-Netflix patent litigation",
-            type: "professional",
-            since: 2019,
-          },
-        ],
-
-        // Real Estate-Tech
-        [
-          "helena",
-          "alice",
-          {
-            strength: 4,
-            context: "Related-Meta office development",
-            type: "professional",
-            since: 2022,
-          },
-        ],
-
-        // Energy-Tech
-        [
-          "kevin",
-          "david",
-          {
-            strength: 6,
-            context: "Tesla-Netflix energy infrastructure",
-            type: "professional",
-            since: 2021,
-          },
-        ],
-
-        // Retail-Tech
-        [
-          "lisa",
-          "eve",
-          {
-            strength: 7,
-            context: "Amazon-Uber logistics optimization",
-            type: "professional",
-            since: 2019,
-          },
-        ],
-
-        // ===== PERSONAL/ACADEMIC CONNECTIONS =====
-        [
-          "alice",
-          "victor",
-          {
-            strength: 7,
-            context: "Stanford alumni network",
-            type: "personal",
-            since: 2014,
-          },
-        ],
-        [
-          "bob",
-          "victor",
-          {
-            strength: 6,
-            context: "Berkeley alumni association",
-            type: "personal",
-            since: 2012,
-          },
-        ],
-        [
-          "kate",
-          "quinn",
-          {
-            strength: 5,
-            context: "Harvard alumni events",
-            type: "personal",
-            since: 2010,
-          },
-        ],
-        [
-          "ryan",
-          "victor",
-          {
-            strength: 9,
-            context: "MIT research collaboration",
-            type: "academic",
-            since: 2016,
-          },
-        ],
-
-        // ===== COMMUNITY/INTEREST-BASED CONNECTIONS =====
-        [
-          "carol",
-          "wendy",
-          {
-            strength: 6,
-            context: "Design education advocacy",
-            type: "community",
-            since: 2020,
-          },
-        ],
-        [
-          "ursula",
-          "ryan",
-          {
-            strength: 8,
-            context: "Biotech innovation forum",
-            type: "community",
-            since: 2019,
-          },
-        ],
-        [
-          "anna",
-          "zach",
-          {
-            strength: 7,
-            context: "LA creative community",
-            type: "community",
-            since: 2017,
-          },
-        ],
-        [
-          "bruce",
-          "alice",
-          {
-            strength: 5,
-            context: "Game development meetups",
-            type: "community",
-            since: 2021,
-          },
-        ],
-
-        // ===== REGIONAL CLUSTER CONNECTIONS =====
-        // San Francisco Bay Area
-        [
-          "alice",
-          "carol",
-          {
-            strength: 6,
-            context: "Bay Area design community",
-            type: "community",
-            since: 2019,
-          },
-        ],
-        [
-          "david",
-          "eve",
-          {
-            strength: 5,
-            context: "SF data science meetups",
-            type: "community",
-            since: 2020,
-          },
-        ],
-        [
-          "grace",
-          "jack",
-          {
-            strength: 7,
-            context: "SF JavaScript community",
-            type: "community",
-            since: 2018,
-          },
-        ],
-
-        // Boston/Cambridge
-        [
-          "quinn",
-          "victor",
-          {
-            strength: 8,
-            context: "Boston academic research network",
-            type: "academic",
-            since: 2014,
-          },
-        ],
-        [
-          "ryan",
-          "yasmin",
-          {
-            strength: 6,
-            context: "Cambridge biotech research",
-            type: "academic",
-            since: 2019,
-          },
-        ],
-
-        // New York
-        [
-          "kate",
-          "felicia",
-          {
-            strength: 7,
-            context: "NY corporate law network",
-            type: "professional",
-            since: 2016,
-          },
-        ],
-        [
-          "liam",
-          "nathan",
-          {
-            strength: 6,
-            context: "NY quant finance community",
-            type: "community",
-            since: 2017,
-          },
-        ],
-
-        // More cross-industry connections
-        [
-          "charlie",
-          "kate",
-          {
-            strength: 8,
-            context: "McKinsey-Goldman consulting partnership",
-            type: "professional",
-            since: 2018,
-          },
-        ],
-        [
-          "diana",
-          "maya",
-          {
-            strength: 6,
-            context: "Bain-BlackRock strategy consulting",
-            type: "professional",
-            since: 2020,
-          },
-        ],
-        [
-          "edward",
-          "lisa",
-          {
-            strength: 7,
-            context: "Accenture-Amazon digital transformation",
-            type: "professional",
-            since: 2019,
-          },
-        ],
-        [
-          "rachel",
-          "thomas",
-          {
-            strength: 6,
-            context: "Red Cross-Partners disaster response",
-            type: "professional",
-            since: 2021,
-          },
-        ],
-        [
-          "quentin",
-          "felicia",
-          {
-            strength: 5,
-            context: "Congress-Skadden policy research",
-            type: "professional",
-            since: 2019,
-          },
-        ],
-      ];
-
-      // Add all connections
-      for (const [person1, person2, connection] of connections) {
-        Graph.addEdge(mutable, getNode(person1), getNode(person2), connection);
+        KeyedGraph.addNode(mutable, person);
       }
     }
   );
+  const socialNetwork = yield* GraphStream.fromEdges(
+    seeded,
+    Stream.fromIterable(connections).pipe(
+      Stream.map(({ from, to, ...connection }) => ({
+        source: from,
+        target: to,
+        data: connection,
+      }))
+    ),
+    {
+      // Every known person is already in `seeded`
+      node: () => undefined,
+      name: "social-network",
+      onProgress: (progress) =>
+        progress.skipped === 0
+          ? Effect.void
+          : Effect.logWarning(
+              `Skipped ${progress.skipped} connections to unknown people`
+            ),
+    }
+  );
+  const socialGraph = socialNetwork.graph;
 
   yield* Effect.log(`🌐 MASSIVE Social Network Analysis:`);
   yield* Effect.log(
@@ -1440,24 +96,16 @@ const massiveSocialNetworkExample = Effect.gen(function* () {
   );
 
   const startPerson = "alice"; // Alice Chen - Senior Software Engineer at Meta
-  const startIndex = Array.from(socialGraph.nodes.values()).findIndex(
-    (person) => person.id === startPerson
-  );
+  const startIndex = yield* KeyedGraph.indexOf(socialNetwork, startPerson);
 
-  const bfsTraversal = Graph.bfs(socialGraph, { start: [startIndex] });
-  const degrees = new Map<number, number>();
+  // Level-aware BFS: each person's degree is their hop distance from Alice
+  const separation = bfsLevels(socialGraph, { start: [startIndex] });
   const degreeGroups: Person[][] = [[], [], [], [], [], [], []]; // Up to 7 degrees
 
-  for (const nodeIndex of Graph.indices(bfsTraversal)) {
+  for (const [nodeIndex, visit] of separation.visits) {
     const person = socialGraph.nodes.get(nodeIndex);
-    if (person) {
-      // More sophisticated degree calculation based on BFS traversal order
-      const degree = Math.min(Math.floor(nodeIndex / 8), 6); // More granular
-      degrees.set(nodeIndex, degree);
-
-      if (degree < degreeGroups.length) {
-        degreeGroups[degree]?.push(person);
-      }
+    if (person && visit.depth < degreeGroups.length) {
+      degreeGroups[visit.depth]?.push(person);
     }
   }
 
@@ -1519,8 +167,10 @@ const massiveSocialNetworkExample = Effect.gen(function* () {
         count: 0,
         totalInfluence: 0,
       };
+      // Degrees are visited in ascending order, so the first one seen is the
+      // closest the industry gets to Alice
       industrySpread.set(industry, {
-        degree,
+        degree: existing.degree,
         count: existing.count + 1,
         totalInfluence: existing.totalInfluence + person.influence,
       });
@@ -1528,9 +178,7 @@ const massiveSocialNetworkExample = Effect.gen(function* () {
       // Count industry connections
       const connections = Graph.neighbors(
         socialGraph,
-        Array.from(socialGraph.nodes.values()).findIndex(
-          (p) => p.id === person.id
-        )
+        yield* KeyedGraph.indexOf(socialNetwork, person.id)
       ).length;
       industryConnections.set(
         industry,
@@ -1550,7 +198,7 @@ const massiveSocialNetworkExample = Effect.gen(function* () {
     yield* Effect.log(
       `${industry}: ${stats.count} people, avg influence ${avgInfluence.toFixed(
         1
-      )}, ${totalConnections} connections`
+      )}, ${totalConnections} connections, reached at degree ${stats.degree}`
     );
   }
   yield* Effect.log("");
@@ -1563,29 +211,36 @@ const massiveSocialNetworkExample = Effect.gen(function* () {
   const targetCandidates = people.filter((p) => p.job === targetJob);
   const recommendations = new Map<
     string,
-    { person: Person; path: Person[]; score: number }
+    { person: Person; paths: Person[][]; score: number }
   >();
 
   for (const candidate of targetCandidates) {
-    const candidateIndex = Array.from(socialGraph.nodes.values()).findIndex(
-      (p) => p.id === candidate.id
+    const candidateIndex = yield* KeyedGraph.indexOf(
+      socialNetwork,
+      candidate.id
     );
 
-    // Find shortest path from Alice to this candidate
-    const shortestPath = Graph.dijkstra(socialGraph, {
+    // Best referral path from Alice plus up to two backups through
+    // mostly different people, in case an introducer is unavailable
+    const routes = KShortest.alternativeRoutes(socialGraph, {
       source: startIndex,
       target: candidateIndex,
       cost: (edgeData) => Math.max(1, 11 - edgeData.strength), // Lower cost for stronger connections
+      k: 3,
+      maxOverlap: 0.5,
     });
 
-    if (Option.isSome(shortestPath)) {
-      const path = shortestPath.value.path.map((idx: number) => {
-        const person = socialGraph.nodes.get(idx);
-        if (!person) throw new Error(`Person not found at index ${idx}`);
-        return person;
-      });
-      const score = shortestPath.value.distance; // Lower score = better
-      recommendations.set(candidate.id, { person: candidate, path, score });
+    const [best] = routes;
+    if (best !== undefined) {
+      const paths = routes.map((route) =>
+        route.nodes.map((idx: number) => {
+          const person = socialGraph.nodes.get(idx);
+          if (!person) throw new Error(`Person not found at index ${idx}`);
+          return person;
+        })
+      );
+      const score = best.distance; // Lower score = better
+      recommendations.set(candidate.id, { person: candidate, paths, score });
     }
   }
 
@@ -1595,13 +250,19 @@ const massiveSocialNetworkExample = Effect.gen(function* () {
     .slice(0, 5);
 
   for (const rec of sortedRecommendations) {
-    const pathNames = rec.path.map((p) => p.name);
+    const [best, ...alternatives] = rec.paths.map((path) =>
+      path.map((p) => p.name)
+    );
     yield* Effect.log(
       `🎯 ${rec.person.name} (${rec.person.company}) - ${rec.score.toFixed(
         1
       )}° connection`
     );
-    yield* Effect.log(`   Referral path: ${pathNames.join(" → ")}\n`);
+    yield* Effect.log(`   Referral path: ${best?.join(" → ")}`);
+    for (const alternative of alternatives) {
+      yield* Effect.log(`   Alternative:   ${alternative.join(" → ")}`);
+    }
+    yield* Effect.log("");
   }
 
   // 4. BFS: Geographic Network Clusters
@@ -1651,49 +312,108 @@ const massiveSocialNetworkExample = Effect.gen(function* () {
   }
   yield* Effect.log("");
 
-  // 5. BFS: Skill-Based Community Detection
-  yield* Effect.log("🎓 BFS ANALYSIS 5: Skill-Based Community Detection");
+  // 5. Graph-Based Community Detection
+  yield* Effect.log("🎓 BFS ANALYSIS 5: Community Detection");
   yield* Effect.log(
-    "Finding communities centered around specific technical skills:\n"
+    "Finding tightly knit groups from the connections themselves (weighted by strength):\n"
   );
 
-  const skillCommunities = new Map<
-    string,
-    { people: Person[]; avgExperience: number }
-  >();
+  const byStrength = {
+    weight: (connection: Connection) => connection.strength,
+  };
+  const louvainCommunities = Community.louvain(socialGraph, byStrength);
+  const propagatedCommunities = Community.labelPropagation(
+    socialGraph,
+    byStrength
+  );
 
-  // Focus on key skills
-  const keySkills = [
-    "Python",
-    "React",
-    "Machine Learning",
-    "Leadership",
-    "Research",
-  ];
+  // Most common value of a label inside a group, with its share of the group
+  const dominant = (group: Person[], label: (person: Person) => string) => {
+    const counts = new Map<string, number>();
+    for (const person of group) {
+      counts.set(label(person), (counts.get(label(person)) || 0) + 1);
+    }
+    const [value, count] = Array.from(counts.entries()).sort(
+      ([, a], [, b]) => b - a
+    )[0] ?? ["-", 0];
+    return { value, count };
+  };
+
+  const membersOf = (community: ReadonlyArray<number>) =>
+    community.flatMap((idx) => {
+      const person = socialGraph.nodes.get(idx);
+      return person ? [person] : [];
+    });
 
-  for (const skill of keySkills) {
-    const skillPeople = people.filter((p) => p.skills.includes(skill));
-    if (skillPeople.length >= 3) {
-      const avgExperience =
-        skillPeople.reduce((sum, p) => sum + p.experience, 0) /
-        skillPeople.length;
-      skillCommunities.set(skill, { people: skillPeople, avgExperience });
+  for (const [i, community] of louvainCommunities.communities
+    .slice(0, 6)
+    .entries()) {
+    const members = membersOf(community);
+    const industry = dominant(members, (p) => p.industry);
+    const city = dominant(members, (p) => p.location);
+    const skills = new Map<string, number>();
+    for (const person of members) {
+      for (const skill of person.skills) {
+        skills.set(skill, (skills.get(skill) || 0) + 1);
+      }
     }
-  }
+    const topSkills = Array.from(skills.entries())
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 3)
+      .map(([skill]) => skill);
 
-  for (const [skill, community] of skillCommunities) {
     yield* Effect.log(
-      `${skill} Community: ${
-        community.people.length
-      } experts, ${community.avgExperience.toFixed(1)} avg years experience`
+      `Community ${i + 1}: ${members.length} people, mostly ${
+        industry.value
+      } (${industry.count}/${members.length}), ${city.value} (${city.count}/${
+        members.length
+      })`
     );
-    const topExperts = community.people
-      .sort((a, b) => b.experience - a.experience)
-      .slice(0, 3);
     yield* Effect.log(
-      `   Top experts: ${topExperts
-        .map((p) => `${p.name} (${p.experience}y)`)
-        .join(", ")}`
+      `   Members: ${members
+        .slice(0, 5)
+        .map((p) => p.name)
+        .join(", ")}${members.length > 5 ? ", ..." : ""}`
+    );
+    yield* Effect.log(`   Shared skills: ${topSkills.join(", ")}`);
+  }
+  yield* Effect.log("");
+
+  // Compare detected communities against the industry and city labels
+  const purity = (
+    partition: Community.Partition,
+    label: (person: Person) => string
+  ) =>
+    partition.communities.reduce(
+      (sum, community) => sum + dominant(membersOf(community), label).count,
+      0
+    ) / socialGraph.nodes.size;
+
+  const partitions: Array<[string, Community.Partition]> = [
+    ["Louvain", louvainCommunities],
+    ["Label propagation", propagatedCommunities],
+    [
+      "Industry labels",
+      Community.partitionBy(socialGraph, (p) => p.industry, byStrength),
+    ],
+    [
+      "City labels",
+      Community.partitionBy(socialGraph, (p) => p.location, byStrength),
+    ],
+  ];
+
+  yield* Effect.log(
+    "Partition comparison (modularity, purity vs industry/city):"
+  );
+  for (const [name, partition] of partitions) {
+    yield* Effect.log(
+      `   ${name}: ${
+        partition.communities.length
+      } groups, Q=${partition.modularity.toFixed(3)}, industry purity ${(
+        purity(partition, (p) => p.industry) * 100
+      ).toFixed(0)}%, city purity ${(
+        purity(partition, (p) => p.location) * 100
+      ).toFixed(0)}%`
     );
   }
   yield* Effect.log("");
@@ -1710,50 +430,49 @@ const massiveSocialNetworkExample = Effect.gen(function* () {
     number,
     {
       degree: number;
-      betweenness: number; // Simplified betweenness centrality
+      betweenness: number; // Share of shortest paths routed through this person
+      closeness: number;
       influence: number;
       person: Person;
     }
   >();
 
-  // Calculate simplified centrality measures
-  for (let i = 0; i < socialGraph.nodes.size; i++) {
-    const person = socialGraph.nodes.get(i);
-    if (!person) continue; // Skip if person not found
-    const connections = Graph.neighbors(socialGraph, i).length;
-
-    // Simplified betweenness: count how often this person appears in shortest paths
-    let betweennessScore = 0;
-    for (let j = 0; j < socialGraph.nodes.size; j++) {
-      if (j !== i) {
-        const shortestPath = Graph.dijkstra(socialGraph, {
-          source: j,
-          target: i,
-          cost: () => 1,
-        });
-        if (Option.isSome(shortestPath)) {
-          // Count how many shortest paths this person is on
-          betweennessScore += shortestPath.value.path.length;
-        }
-      }
-    }
+  // Exact centrality measures (Brandes' algorithm, one BFS per person)
+  const betweennessScores = Centrality.betweenness(socialGraph, {
+    normalized: true,
+  });
+  const closenessScores = Centrality.closeness(socialGraph);
 
+  for (const [i, person] of socialGraph) {
     centralityMetrics.set(i, {
-      degree: connections,
-      betweenness: betweennessScore,
+      degree: Graph.neighbors(socialGraph, i).length,
+      betweenness: betweennessScores.get(i) ?? 0,
+      closeness: closenessScores.get(i) ?? 0,
       influence: person.influence,
       person,
     });
   }
 
-  // Rank by combined centrality score
+  // Rank by combined centrality score, each factor scaled to [0, 1]
+  const maxDegree = Math.max(
+    1,
+    ...Array.from(centralityMetrics.values(), (metric) => metric.degree)
+  );
+  const maxBetweenness = Math.max(
+    Number.EPSILON,
+    ...Array.from(centralityMetrics.values(), (metric) => metric.betweenness)
+  );
+  const combinedScore = (metric: {
+    degree: number;
+    betweenness: number;
+    influence: number;
+  }) =>
+    (metric.degree / maxDegree) * 0.3 +
+    (metric.betweenness / maxBetweenness) * 0.3 +
+    (metric.influence / 10) * 0.4;
+
   const rankedInfluencers = Array.from(centralityMetrics.values())
-    .filter((metric) => metric !== undefined)
-    .sort((a, b) => {
-      const scoreA = a.degree * 0.3 + a.betweenness * 0.3 + a.influence * 0.4;
-      const scoreB = b.degree * 0.3 + b.betweenness * 0.3 + b.influence * 0.4;
-      return scoreB - scoreA;
-    })
+    .sort((a, b) => combinedScore(b) - combinedScore(a))
     .slice(0, 10);
 
   yield* Effect.log("🏆 Top 10 Most Influential People in Network:");
@@ -1768,7 +487,9 @@ const massiveSocialNetworkExample = Effect.gen(function* () {
       yield* Effect.log(
         `   Connections: ${metric.degree}, Influence: ${
           metric.influence
-        }/10, Betweenness: ${metric.betweenness.toFixed(0)}`
+        }/10, Betweenness: ${metric.betweenness.toFixed(
+          3
+        )}, Closeness: ${metric.closeness.toFixed(3)}`
       );
     }
   }
@@ -1788,7 +509,7 @@ const massiveSocialNetworkExample = Effect.gen(function* () {
     "   • Geographic clustering and regional professional networks"
   );
   yield* Effect.log(
-    "   • Skill-based community detection and expertise mapping"
+    "   • Community detection (Louvain, label propagation) vs industry and city"
   );
   yield* Effect.log(
     "   • Advanced centrality measures for influence quantification"
@@ -1798,10 +519,55 @@ const massiveSocialNetworkExample = Effect.gen(function* () {
   );
 });
 
+// Edge lists too big for one array: a synthetic follower graph streamed
+// into the builder, with progress as it goes
+const streamingScaleExample = Effect.gen(function* () {
+  yield* Effect.log("\n📡 STREAMING: Building a 300,000-edge follower graph");
+
+  const users = 50_000;
+  const follows = Stream.range(1, 300_000).pipe(
+    Stream.map((i) => ({
+      source: `user-${i % users}`,
+      // Pseudo-random, skewed so that low-numbered accounts are popular
+      target: `user-${Math.floor((((i * 7919) % users) / users) ** 3 * users)}`,
+      data: { since: 2010 + (i % 15) },
+    }))
+  );
+  const followers = yield* GraphStream.fromEdges(
+    KeyedGraph.directed<string, { id: string }, { since: number }>(
+      (user) => user.id
+    ),
+    follows,
+    {
+      node: (id) => ({ id }),
+      name: "followers",
+      progressEvery: 100_000,
+      onProgress: (progress) =>
+        Effect.log(
+          `   • ${progress.records.toLocaleString()} records → ${progress.nodes.toLocaleString()} users, ${progress.edges.toLocaleString()} follows`
+        ),
+    }
+  );
+
+  const [mostFollowed, count] = [...followers.graph.nodes.keys()]
+    .map(
+      (index) =>
+        [
+          index,
+          Graph.neighborsDirected(followers.graph, index, "incoming").length,
+        ] as const
+    )
+    .reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  yield* Effect.log(
+    `   Most followed: ${followers.graph.nodes.get(mostFollowed)?.id} with ${count} followers`
+  );
+});
+
 const program = Effect.gen(function* () {
   yield* massiveSocialNetworkExample.pipe(
     Effect.withSpan("massiveSocialNetworkExample")
   );
+  yield* streamingScaleExample.pipe(Effect.withSpan("streamingScaleExample"));
 });
 
 BunRuntime.runMain(
@@ -0,0 +1,121 @@
+import { Graph, Option } from "effect";
+
+// ============================================================================
+// LEVEL-AWARE BFS
+// ============================================================================
+//
+// `Graph.bfs` yields nodes in breadth-first order but forgets how far each
+// one is from the start. This walker keeps the hop distance and BFS parent of
+// every reachable node, so "degrees of separation" come from the graph itself
+// rather than from insertion order.
+
+// ===== MODELS =====
+
+export type BfsConfig = Graph.SearchConfig & {
+  // Stop expanding once this many hops away from the start nodes
+  readonly maxDepth?: number;
+};
+
+export type BfsVisit = {
+  readonly depth: number;
+  readonly parent: Option.Option<Graph.NodeIndex>;
+};
+
+export type BfsLevels = {
+  // Every reachable node, in discovery order
+  readonly visits: ReadonlyMap<Graph.NodeIndex, BfsVisit>;
+  // levels[d] holds the nodes exactly d hops from the start
+  readonly levels: ReadonlyArray<ReadonlyArray<Graph.NodeIndex>>;
+};
+
+// ===== TRAVERSAL =====
+
+/**
+ * Breadth-first search that records depth and parent per node. Takes the same
+ * `start` / `direction` options as `Graph.bfs`. Undirected graphs are walked
+ * through `Graph.neighbors`, which follows edges from either endpoint.
+ */
+export const bfsLevels = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>,
+  config: BfsConfig = {}
+): BfsLevels => {
+  const start = config.start ?? [];
+  const direction = config.direction ?? "outgoing";
+  const maxDepth = config.maxDepth ?? Infinity;
+
+  for (const nodeIndex of start) {
+    if (!Graph.hasNode(graph, nodeIndex)) {
+      throw new Graph.GraphError({
+        message: `Node ${nodeIndex} does not exist`,
+      });
+    }
+  }
+
+  const nextNodes = (nodeIndex: Graph.NodeIndex) =>
+    graph.type === "undirected"
+      ? Graph.neighbors(graph, nodeIndex)
+      : Graph.neighborsDirected(graph, nodeIndex, direction);
+
+  const visits = new Map<Graph.NodeIndex, BfsVisit>();
+  const levels: Array<Array<Graph.NodeIndex>> = [];
+
+  let frontier: Array<Graph.NodeIndex> = [];
+  for (const nodeIndex of start) {
+    if (!visits.has(nodeIndex)) {
+      visits.set(nodeIndex, { depth: 0, parent: Option.none() });
+      frontier.push(nodeIndex);
+    }
+  }
+
+  let depth = 0;
+  while (frontier.length > 0) {
+    levels.push(frontier);
+    if (depth >= maxDepth) break;
+
+    const next: Array<Graph.NodeIndex> = [];
+    for (const nodeIndex of frontier) {
+      for (const neighbor of nextNodes(nodeIndex)) {
+        if (!visits.has(neighbor)) {
+          visits.set(neighbor, {
+            depth: depth + 1,
+            parent: Option.some(nodeIndex),
+          });
+          next.push(neighbor);
+        }
+      }
+    }
+    frontier = next;
+    depth++;
+  }
+
+  return { visits, levels };
+};
+
+/** Hop distance from the start nodes, or `None` when unreachable. */
+export const depthOf = (
+  result: BfsLevels,
+  nodeIndex: Graph.NodeIndex
+): Option.Option<number> =>
+  Option.map(
+    Option.fromNullable(result.visits.get(nodeIndex)),
+    (visit) => visit.depth
+  );
+
+/** Follows BFS parents back to a start node; the path begins at the start. */
+export const pathTo = (
+  result: BfsLevels,
+  nodeIndex: Graph.NodeIndex
+): Option.Option<Array<Graph.NodeIndex>> => {
+  if (!result.visits.has(nodeIndex)) return Option.none();
+
+  const path: Array<Graph.NodeIndex> = [];
+  let current = Option.some(nodeIndex);
+  while (Option.isSome(current)) {
+    path.push(current.value);
+    current = Option.flatMap(
+      Option.fromNullable(result.visits.get(current.value)),
+      (visit) => visit.parent
+    );
+  }
+  return Option.some(path.reverse());
+};
@@ -0,0 +1,174 @@
+import {
+  HttpApi,
+  HttpApiEndpoint,
+  HttpApiGroup,
+  HttpApiSchema,
+  OpenApi,
+} from "@effect/platform";
+import { Schema } from "effect";
+import * as Datasets from "./datasets.ts";
+
+// ============================================================================
+// CART RECOMMENDATION API
+// ============================================================================
+//
+// The HTTP contract of the cart recommendation engine, shared by the server
+// in `cart-recommendation.ts` and by clients derived with `HttpApiClient`.
+// Requests and responses are Schema-validated on both sides; unknown
+// customers and products are typed 404 errors, and the OpenAPI document is
+// generated from these definitions.
+
+// ===== MODELS =====
+
+export const ScoreContribution = Schema.Struct({
+  // Name of the scorer, see `recommendation-scorers.ts`
+  scorer: Schema.String,
+  weight: Schema.Number,
+  // Unweighted points from the scorer
+  points: Schema.Number,
+  // weight * points
+  contribution: Schema.Number,
+  reasons: Schema.Array(Schema.String),
+});
+export type ScoreContribution = typeof ScoreContribution.Type;
+
+export const Recommendation = Schema.Struct({
+  productId: Schema.String,
+  // Sum of the contributions in `breakdown`
+  score: Schema.Number,
+  // The first reason in `breakdown`, or "Popular product"
+  reason: Schema.String,
+  // 0..1, how much the strongest signal behind `score` can be trusted
+  confidence: Schema.Number,
+  // One entry per scorer, in the order the engine runs them
+  breakdown: Schema.Array(ScoreContribution),
+});
+export type Recommendation = typeof Recommendation.Type;
+
+export const CartRecommendationsRequest = Schema.Struct({
+  customerId: Schema.String,
+  cartProductIds: Schema.Array(Schema.String),
+  // Defaults to 6
+  maxRecommendations: Schema.optional(Schema.Int.pipe(Schema.between(1, 50))),
+});
+export type CartRecommendationsRequest = typeof CartRecommendationsRequest.Type;
+
+export const CartRecommendations = Schema.Struct({
+  customerId: Schema.String,
+  cartProductIds: Schema.Array(Schema.String),
+  recommendations: Schema.Array(Recommendation),
+  generatedAt: Schema.String,
+});
+export type CartRecommendations = typeof CartRecommendations.Type;
+
+export const CustomerInsights = Schema.Struct({
+  customerId: Schema.String,
+  segment: Datasets.Customer.fields.segment,
+  totalSpent: Schema.Number,
+  // Recommendations served to this customer since the server started
+  recommendationsGenerated: Schema.Number,
+  lastActivity: Schema.String,
+});
+export type CustomerInsights = typeof CustomerInsights.Type;
+
+export const PurchaseIngested = Schema.Struct({
+  purchaseId: Schema.String,
+  // Pairs of products bought together for the first time
+  coPurchasesAdded: Schema.Number,
+  // Pairs whose co-purchase weight went up
+  coPurchasesUpdated: Schema.Number,
+});
+export type PurchaseIngested = typeof PurchaseIngested.Type;
+
+const Level = Schema.Literal("low", "medium", "high");
+
+export const ProductAnalytics = Schema.Struct({
+  productId: Schema.String,
+  salesVelocity: Level,
+  stockoutRisk: Level,
+  // Mean weight of the product's relationships in the product graph
+  recommendationScore: Schema.Number,
+  competitorPrice: Schema.Number,
+});
+export type ProductAnalytics = typeof ProductAnalytics.Type;
+
+// ===== ERRORS =====
+
+export class CustomerNotFound extends Schema.TaggedError<CustomerNotFound>()(
+  "CustomerNotFound",
+  { customerId: Schema.String },
+  HttpApiSchema.annotations({ status: 404 })
+) {
+  override get message() {
+    return `Customer ${this.customerId} not found`;
+  }
+}
+
+export class ProductNotFound extends Schema.TaggedError<ProductNotFound>()(
+  "ProductNotFound",
+  { productId: Schema.String },
+  HttpApiSchema.annotations({ status: 404 })
+) {
+  override get message() {
+    return `Product ${this.productId} not found`;
+  }
+}
+
+export class DuplicatePurchase extends Schema.TaggedError<DuplicatePurchase>()(
+  "DuplicatePurchase",
+  { purchaseId: Schema.String },
+  HttpApiSchema.annotations({ status: 409 })
+) {
+  override get message() {
+    return `Purchase ${this.purchaseId} was already ingested`;
+  }
+}
+
+// ===== ENDPOINTS =====
+
+export const RecommendationsGroup = HttpApiGroup.make("recommendations").add(
+  HttpApiEndpoint.post("cart", "/recommendations/cart")
+    .setPayload(CartRecommendationsRequest)
+    .addSuccess(CartRecommendations)
+    .addError(CustomerNotFound)
+    .addError(ProductNotFound)
+    .annotate(OpenApi.Summary, "Recommendations for a customer's cart")
+);
+
+export const CustomersGroup = HttpApiGroup.make("customers").add(
+  HttpApiEndpoint.get("insights", "/customers/:customerId/insights")
+    .setPath(Schema.Struct({ customerId: Schema.String }))
+    .addSuccess(CustomerInsights)
+    .addError(CustomerNotFound)
+    .annotate(OpenApi.Summary, "Segment, spend and activity of a customer")
+);
+
+export const ProductsGroup = HttpApiGroup.make("products").add(
+  HttpApiEndpoint.get("analytics", "/products/:productId/analytics")
+    .setPath(Schema.Struct({ productId: Schema.String }))
+    .addSuccess(ProductAnalytics)
+    .addError(ProductNotFound)
+    .annotate(OpenApi.Summary, "Sales and recommendation analytics")
+);
+
+export const PurchasesGroup = HttpApiGroup.make("purchases").add(
+  HttpApiEndpoint.post("ingest", "/purchases")
+    .setPayload(Datasets.Purchase)
+    .addSuccess(PurchaseIngested, { status: 201 })
+    .addError(CustomerNotFound)
+    .addError(ProductNotFound)
+    .addError(DuplicatePurchase)
+    .annotate(
+      OpenApi.Summary,
+      "Record a purchase and update the product graph for it"
+    )
+);
+
+/** Served under `/api`; the OpenAPI document is at `/api/openapi.json`. */
+export const CartApi = HttpApi.make("cart")
+  .add(RecommendationsGroup)
+  .add(CustomersGroup)
+  .add(ProductsGroup)
+  .add(PurchasesGroup)
+  .prefix("/api")
+  .annotate(OpenApi.Title, "Cart Recommendation API");
@@ -0,0 +1,313 @@
+import { Database } from "bun:sqlite";
+import {
+  Array as Arr,
+  Context,
+  Data,
+  Effect,
+  Layer,
+  Option,
+  Schema,
+} from "effect";
+import * as Datasets from "./datasets.ts";
+
+// ============================================================================
+// CART REPOSITORIES
+// ============================================================================
+//
+// Where the recommendation engine gets its products, customers and
+// purchases from. Each kind of record has its own service, provided by a
+// Layer: `layerMemory` keeps them in maps (filled from `DATA_DIR` by
+// `layerDatasets`), `layerSqlite` persists them in a SQLite database. Code
+// that reads through the services runs unchanged on either.
+
+// ===== MODELS =====
+
+type Product = Datasets.Product;
+type Customer = Datasets.Customer;
+type Purchase = Datasets.Purchase;
+
+/** The full contents of the three repositories. */
+export type Snapshot = {
+  readonly products: ReadonlyArray<Product>;
+  readonly customers: ReadonlyArray<Customer>;
+  readonly purchases: ReadonlyArray<Purchase>;
+};
+
+export class RepositoryError extends Data.TaggedError("RepositoryError")<{
+  readonly reason: string;
+  readonly cause?: unknown;
+}> {
+  override get message() {
+    return `Repository failure: ${this.reason}`;
+  }
+}
+
+// ===== SERVICES =====
+
+export class ProductRepository extends Context.Tag("ProductRepository")<
+  ProductRepository,
+  {
+    readonly all: Effect.Effect<ReadonlyArray<Product>, RepositoryError>;
+    readonly byId: (
+      id: string
+    ) => Effect.Effect<Option.Option<Product>, RepositoryError>;
+    // Inserts, or replaces the product with the same id
+    readonly save: (product: Product) => Effect.Effect<void, RepositoryError>;
+  }
+>() {}
+
+export class CustomerRepository extends Context.Tag("CustomerRepository")<
+  CustomerRepository,
+  {
+    readonly all: Effect.Effect<ReadonlyArray<Customer>, RepositoryError>;
+    readonly byId: (
+      id: string
+    ) => Effect.Effect<Option.Option<Customer>, RepositoryError>;
+    readonly save: (customer: Customer) => Effect.Effect<void, RepositoryError>;
+  }
+>() {}
+
+export class PurchaseRepository extends Context.Tag("PurchaseRepository")<
+  PurchaseRepository,
+  {
+    readonly all: Effect.Effect<ReadonlyArray<Purchase>, RepositoryError>;
+    readonly byCustomer: (
+      customerId: string
+    ) => Effect.Effect<ReadonlyArray<Purchase>, RepositoryError>;
+    readonly save: (purchase: Purchase) => Effect.Effect<void, RepositoryError>;
+  }
+>() {}
+
+export type Repositories =
+  | ProductRepository
+  | CustomerRepository
+  | PurchaseRepository;
+
+// ===== IN MEMORY =====
+
+// Records by id, in insertion order
+const memoryStore = <A>(items: ReadonlyArray<A>, id: (item: A) => string) => {
+  const store = new Map(items.map((item) => [id(item), item] as const));
+  return {
+    all: Effect.sync(() => Array.from(store.values())),
+    byId: (key: string) =>
+      Effect.sync(() => Option.fromNullable(store.get(key))),
+    save: (item: A) =>
+      Effect.sync(() => {
+        store.set(id(item), item);
+      }),
+  };
+};
+
+/**
+ * Repositories holding `snapshot` in memory. Saved records last as long as
+ * the layer; every build starts again from `snapshot`.
+ */
+export const layerMemory = (snapshot: Snapshot): Layer.Layer<Repositories> =>
+  Layer.mergeAll(
+    Layer.sync(ProductRepository, () =>
+      memoryStore(snapshot.products, (product) => product.id)
+    ),
+    Layer.sync(CustomerRepository, () =>
+      memoryStore(snapshot.customers, (customer) => customer.id)
+    ),
+    Layer.sync(PurchaseRepository, () => {
+      const store = memoryStore(snapshot.purchases, (purchase) => purchase.id);
+      return {
+        ...store,
+        byCustomer: (customerId) =>
+          Effect.map(store.all, (purchases) =>
+            purchases.filter((purchase) => purchase.customerId === customerId)
+          ),
+      };
+    })
+  );
+
+/** Products, customers and purchases from the files in `DATA_DIR`. */
+export const loadDatasets = Effect.gen(function* () {
+  const dir = yield* Datasets.directory;
+  const products = yield* Datasets.loadProducts(`${dir}/products.jsonl`).pipe(
+    Effect.flatMap(Datasets.validRows)
+  );
+  const customers = yield* Datasets.loadCustomers(`${dir}/customers.csv`).pipe(
+    Effect.flatMap(Datasets.validRows)
+  );
+  const purchases = yield* Datasets.loadPurchases(`${dir}/purchases.csv`).pipe(
+    Effect.flatMap(Datasets.validRows)
+  );
+  return { products, customers, purchases } satisfies Snapshot;
+});
+
+/** In-memory repositories loaded from `DATA_DIR`. */
+export const layerDatasets = Layer.unwrapEffect(
+  Effect.map(loadDatasets, layerMemory)
+);
+
+// ===== SQLITE =====
+
+const attempt = <A>(reason: string, f: () => A) =>
+  Effect.try({
+    try: f,
+    catch: (cause) => new RepositoryError({ reason, cause }),
+  });
+
+// A table of records encoded as JSON through `schema`, keyed by `id`.
+// `columns` are copied out of the record into indexed columns for lookups.
+const sqliteTable = <A, I>(
+  db: Database,
+  table: string,
+  schema: Schema.Schema<A, I>,
+  id: (item: A) => string,
+  columns: Record<string, (item: A) => string> = {}
+) => {
+  const json = Schema.parseJson(schema);
+  const extra = Object.keys(columns);
+
+  const create = attempt(`cannot create table ${table}`, () => {
+    db.run(
+      `CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, ${extra
+        .map((column) => `${column} TEXT NOT NULL, `)
+        .join("")}data TEXT NOT NULL)`
+    );
+    for (const column of extra) {
+      db.run(
+        `CREATE INDEX IF NOT EXISTS ${table}_${column} ON ${table} (${column})`
+      );
+    }
+  });
+
+  const select = (where: string, ...params: Array<string>) =>
+    attempt(`cannot read ${table}`, () =>
+      db
+        .query<{ data: string }, Array<string>>(
+          `SELECT data FROM ${table} ${where} ORDER BY rowid`
+        )
+        .all(...params)
+    ).pipe(
+      Effect.flatMap((rows) =>
+        Schema.decodeUnknown(Schema.Array(json))(rows.map((row) => row.data))
+      ),
+      Effect.catchTag(
+        "ParseError",
+        (cause) =>
+          new RepositoryError({ reason: `invalid row in ${table}`, cause })
+      )
+    );
+
+  const save = (item: A) =>
+    Schema.encode(json)(item).pipe(
+      Effect.catchTag(
+        "ParseError",
+        (cause) =>
+          new RepositoryError({ reason: `cannot encode ${table} row`, cause })
+      ),
+      Effect.flatMap((data) =>
+        attempt(`cannot write ${table}`, () => {
+          const names = ["id", ...extra, "data"];
+          db.query<unknown, Array<string>>(
+            `INSERT INTO ${table} (${names.join(", ")}) VALUES (${names
+              .map(() => "?")
+              .join(", ")}) ON CONFLICT (id) DO UPDATE SET ${names
+              .slice(1)
+              .map((name) => `${name} = excluded.${name}`)
+              .join(", ")}`
+          ).run(
+            id(item),
+            ...extra.map((column) => columns[column]?.(item) ?? ""),
+            data
+          );
+        })
+      )
+    );
+
+  return {
+    create,
+    select,
+    all: select(""),
+    byId: (key: string) => Effect.map(select("WHERE id = ?", key), Arr.head),
+    save,
+  };
+};
+
+/**
+ * Repositories backed by the SQLite database at `filename`, created with its
+ * tables if missing. The database is closed when the layer is released.
+ */
+export const layerSqlite = (
+  filename: string
+): Layer.Layer<Repositories, RepositoryError> =>
+  Layer.scopedContext(
+    Effect.gen(function* () {
+      const db = yield* Effect.acquireRelease(
+        attempt(
+          `cannot open ${filename}`,
+          () => new Database(filename, { create: true, strict: true })
+        ),
+        (db) => Effect.sync(() => db.close())
+      );
+      const products = sqliteTable(
+        db,
+        "products",
+        Datasets.Product,
+        (product) => product.id
+      );
+      const customers = sqliteTable(
+        db,
+        "customers",
+        Datasets.Customer,
+        (customer) => customer.id
+      );
+      const purchases = sqliteTable(
+        db,
+        "purchases",
+        Datasets.Purchase,
+        (purchase) => purchase.id,
+        { customer_id: (purchase) => purchase.customerId }
+      );
+      yield* products.create;
+      yield* customers.create;
+      yield* purchases.create;
+
+      return Context.make(ProductRepository, {
+        all: products.all,
+        byId: products.byId,
+        save: products.save,
+      }).pipe(
+        Context.add(CustomerRepository, {
+          all: customers.all,
+          byId: customers.byId,
+          save: customers.save,
+        }),
+        Context.add(PurchaseRepository, {
+          all: purchases.all,
+          save: purchases.save,
+          byCustomer: (customerId) =>
+            purchases.select("WHERE customer_id = ?", customerId),
+        })
+      );
+    })
+  );
+
+/**
+ * Saves the snapshot from `load` when there are no products yet, e.g. to
+ * fill a new database from `loadDatasets` on first start.
+ */
+export const seedIfEmpty = <E, R>(load: Effect.Effect<Snapshot, E, R>) =>
+  Effect.gen(function* () {
+    const productRepository = yield* ProductRepository;
+    if ((yield* productRepository.all).length > 0) return false;
+
+    const customerRepository = yield* CustomerRepository;
+    const purchaseRepository = yield* PurchaseRepository;
+    const snapshot = yield* load;
+    yield* Effect.forEach(snapshot.products, productRepository.save, {
+      discard: true,
+    });
+    yield* Effect.forEach(snapshot.customers, customerRepository.save, {
+      discard: true,
+    });
+    yield* Effect.forEach(snapshot.purchases, purchaseRepository.save, {
+      discard: true,
+    });
+    return true;
+  });
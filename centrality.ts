@@ -0,0 +1,243 @@
+import type { Graph } from "effect";
+import * as Adjacency from "./adjacency.ts";
+import * as PriorityQueue from "./priority-queue.ts";
+
+// ============================================================================
+// CENTRALITY MEASURES
+// ============================================================================
+//
+// Exact centrality scores over any `Graph.Graph`. Path-based measures run one
+// single-source shortest-path search per node (BFS when no cost function is
+// given, Dijkstra otherwise), which is O(V·E) unweighted and
+// O(V·E·log V) weighted, instead of one `Graph.dijkstra` per node pair.
+
+// ===== MODELS =====
+
+export type CentralityScores = ReadonlyMap<Graph.NodeIndex, number>;
+
+export type PathCentralityConfig<E> = {
+  // Non-negative edge cost; every edge costs 1 hop when omitted
+  readonly cost?: (edgeData: E) => number;
+};
+
+export type BetweennessConfig<E> = PathCentralityConfig<E> & {
+  // Scale into [0, 1] by the number of node pairs that could route through
+  readonly normalized?: boolean;
+};
+
+export type EigenvectorConfig<E> = {
+  // Edge strength; larger means a stronger tie (not a cost)
+  readonly weight?: (edgeData: E) => number;
+  readonly maxIterations?: number;
+  readonly tolerance?: number;
+};
+
+type ShortestPaths = {
+  // Nodes in order of non-decreasing distance from the source
+  readonly order: Array<Graph.NodeIndex>;
+  readonly distance: Map<Graph.NodeIndex, number>;
+  readonly sigma: Map<Graph.NodeIndex, number>;
+  readonly predecessors: Map<Graph.NodeIndex, Array<Graph.NodeIndex>>;
+};
+
+// ===== SHORTEST PATH COUNTING =====
+
+// Brandes' single-source phase: distances plus the number of shortest paths
+// (sigma) reaching each node and the predecessors on those paths.
+const shortestPaths = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  source: Graph.NodeIndex,
+  cost: ((edgeData: E) => number) | undefined
+): ShortestPaths => {
+  const order: Array<Graph.NodeIndex> = [];
+  const distance = new Map<Graph.NodeIndex, number>([[source, 0]]);
+  const sigma = new Map<Graph.NodeIndex, number>([[source, 1]]);
+  const predecessors = new Map<Graph.NodeIndex, Array<Graph.NodeIndex>>();
+
+  const relax = (from: Graph.NodeIndex, to: Graph.NodeIndex, d: number) => {
+    const known = distance.get(to);
+    if (known === undefined || d < known) {
+      distance.set(to, d);
+      sigma.set(to, sigma.get(from) ?? 0);
+      predecessors.set(to, [from]);
+      return true;
+    }
+    if (d === known) {
+      sigma.set(to, (sigma.get(to) ?? 0) + (sigma.get(from) ?? 0));
+      predecessors.get(to)?.push(from);
+    }
+    return false;
+  };
+
+  if (cost === undefined) {
+    const queue: Array<Graph.NodeIndex> = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      if (current === undefined) continue;
+      order.push(current);
+      const d = (distance.get(current) ?? 0) + 1;
+      for (const { node } of Adjacency.outgoing(graph, current)) {
+        if (node !== current && relax(current, node, d)) queue.push(node);
+      }
+    }
+    return { order, distance, sigma, predecessors };
+  }
+
+  const settled = new Set<Graph.NodeIndex>();
+  const queue = PriorityQueue.make<Graph.NodeIndex>();
+  queue.push(source, 0);
+  while (queue.size() > 0) {
+    const current = queue.pop();
+    if (current === undefined || settled.has(current)) continue;
+    settled.add(current);
+    order.push(current);
+    const base = distance.get(current) ?? 0;
+    for (const { node, data } of Adjacency.outgoing(graph, current)) {
+      if (node === current || settled.has(node)) continue;
+      const d = base + cost(data);
+      if (relax(current, node, d)) queue.push(node, d);
+    }
+  }
+  return { order, distance, sigma, predecessors };
+};
+
+// ===== PATH-BASED MEASURES =====
+
+/**
+ * Betweenness centrality via Brandes' algorithm: for every node, the share of
+ * all-pairs shortest paths that pass through it (endpoints excluded).
+ */
+export const betweenness = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  config: BetweennessConfig<E> = {}
+): CentralityScores => {
+  const scores = new Map<Graph.NodeIndex, number>();
+  for (const nodeIndex of graph.nodes.keys()) scores.set(nodeIndex, 0);
+
+  for (const source of graph.nodes.keys()) {
+    const { order, sigma, predecessors } = shortestPaths(
+      graph,
+      source,
+      config.cost
+    );
+    const delta = new Map<Graph.NodeIndex, number>();
+
+    // Accumulate dependencies from the farthest nodes back to the source
+    for (let i = order.length - 1; i >= 0; i--) {
+      const w = order[i];
+      if (w === undefined) continue;
+      const coefficient = (1 + (delta.get(w) ?? 0)) / (sigma.get(w) ?? 1);
+      for (const v of predecessors.get(w) ?? []) {
+        delta.set(v, (delta.get(v) ?? 0) + (sigma.get(v) ?? 0) * coefficient);
+      }
+      if (w !== source) {
+        scores.set(w, (scores.get(w) ?? 0) + (delta.get(w) ?? 0));
+      }
+    }
+  }
+
+  // Undirected graphs see every pair from both ends
+  const pairFactor = graph.type === "undirected" ? 2 : 1;
+  const n = graph.nodes.size;
+  const normalizer =
+    config.normalized && n > 2 ? ((n - 1) * (n - 2)) / pairFactor : 1;
+
+  for (const [nodeIndex, score] of scores) {
+    scores.set(nodeIndex, score / pairFactor / normalizer);
+  }
+  return scores;
+};
+
+/**
+ * Closeness centrality: reachable nodes divided by their total distance,
+ * scaled by the reachable share of the graph (Wasserman–Faust) so that nodes
+ * in small components do not look artificially central.
+ */
+export const closeness = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  config: PathCentralityConfig<E> = {}
+): CentralityScores => {
+  const n = graph.nodes.size;
+  const scores = new Map<Graph.NodeIndex, number>();
+
+  for (const source of graph.nodes.keys()) {
+    const { distance } = shortestPaths(graph, source, config.cost);
+    let total = 0;
+    for (const d of distance.values()) total += d;
+    const reachable = distance.size - 1;
+
+    scores.set(
+      source,
+      total > 0 && n > 1 ? (reachable / total) * (reachable / (n - 1)) : 0
+    );
+  }
+  return scores;
+};
+
+/**
+ * Harmonic centrality: the sum of 1 / distance to every other node, which
+ * handles disconnected graphs without special casing.
+ */
+export const harmonic = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  config: PathCentralityConfig<E> = {}
+): CentralityScores => {
+  const scores = new Map<Graph.NodeIndex, number>();
+
+  for (const source of graph.nodes.keys()) {
+    const { distance } = shortestPaths(graph, source, config.cost);
+    let total = 0;
+    for (const [nodeIndex, d] of distance) {
+      if (nodeIndex !== source && d > 0) total += 1 / d;
+    }
+    scores.set(source, total);
+  }
+  return scores;
+};
+
+// ===== SPECTRAL MEASURES =====
+
+/**
+ * Eigenvector centrality by power iteration: a node is central when its
+ * neighbours are. Directed graphs score nodes by their incoming edges, which
+ * is only meaningful when the graph is strongly connected.
+ */
+export const eigenvector = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  config: EigenvectorConfig<E> = {}
+): CentralityScores => {
+  const weight = config.weight ?? (() => 1);
+  const maxIterations = config.maxIterations ?? 100;
+  const tolerance = config.tolerance ?? 1e-6;
+
+  const n = graph.nodes.size;
+  let scores = new Map<Graph.NodeIndex, number>();
+  for (const nodeIndex of graph.nodes.keys()) scores.set(nodeIndex, 1 / n);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = new Map<Graph.NodeIndex, number>();
+    for (const nodeIndex of graph.nodes.keys()) {
+      // Start from the previous score (x + Ax) so bipartite graphs converge
+      let sum = scores.get(nodeIndex) ?? 0;
+      for (const { node, data } of Adjacency.incoming(graph, nodeIndex)) {
+        sum += (scores.get(node) ?? 0) * weight(data);
+      }
+      next.set(nodeIndex, sum);
+    }
+
+    let norm = 0;
+    for (const value of next.values()) norm += value * value;
+    norm = Math.sqrt(norm);
+    if (norm === 0) return next;
+
+    let change = 0;
+    for (const [nodeIndex, value] of next) {
+      const normalized = value / norm;
+      change += Math.abs(normalized - (scores.get(nodeIndex) ?? 0));
+      next.set(nodeIndex, normalized);
+    }
+    scores = next;
+    if (change < n * tolerance) break;
+  }
+  return scores;
+};
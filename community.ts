@@ -0,0 +1,339 @@
+import type { Graph } from "effect";
+import * as Adjacency from "./adjacency.ts";
+import * as SeededRandom from "./seeded-random.ts";
+
+// ============================================================================
+// COMMUNITY DETECTION
+// ============================================================================
+//
+// Partitions an undirected graph into densely connected groups. Louvain
+// greedily optimises modularity and then collapses communities into single
+// nodes, repeating until nothing improves; label propagation lets every node
+// adopt the label carrying the most edge weight among its neighbours. Both
+// are deterministic: Louvain visits nodes in index order and label
+// propagation shuffles with a seeded generator.
+
+// ===== MODELS =====
+
+export type CommunityConfig<E> = {
+  // Tie strength; every edge weighs 1 when omitted
+  readonly weight?: (edgeData: E) => number;
+};
+
+export type LabelPropagationConfig<E> = CommunityConfig<E> & {
+  readonly maxIterations?: number;
+  // Seed for visiting order and tie-breaking, so runs are reproducible
+  readonly seed?: number;
+};
+
+export type Partition = {
+  // Largest community first
+  readonly communities: ReadonlyArray<ReadonlyArray<Graph.NodeIndex>>;
+  // Node -> position of its community in `communities`
+  readonly membership: ReadonlyMap<Graph.NodeIndex, number>;
+  readonly modularity: number;
+};
+
+// Symmetric weighted adjacency. A self-loop of weight w is stored as 2w so
+// that a node's degree is simply the sum of its row.
+type WeightedAdjacency = Map<number, Map<number, number>>;
+
+const addWeight = (
+  adjacency: WeightedAdjacency,
+  a: number,
+  b: number,
+  weight: number
+) => {
+  let row = adjacency.get(a);
+  if (row === undefined) {
+    row = new Map();
+    adjacency.set(a, row);
+  }
+  row.set(b, (row.get(b) ?? 0) + weight);
+};
+
+const toWeightedAdjacency = <N, E>(
+  graph: Graph.Graph<N, E, "undirected">,
+  weight: (edgeData: E) => number
+): WeightedAdjacency => {
+  const adjacency: WeightedAdjacency = new Map();
+  for (const nodeIndex of graph.nodes.keys())
+    adjacency.set(nodeIndex, new Map());
+  for (const edge of graph.edges.values()) {
+    const w = weight(edge.data);
+    addWeight(adjacency, edge.source, edge.target, w);
+    addWeight(adjacency, edge.target, edge.source, w);
+  }
+  return adjacency;
+};
+
+const degreeOf = (adjacency: WeightedAdjacency, node: number) => {
+  let total = 0;
+  for (const w of adjacency.get(node)?.values() ?? []) total += w;
+  return total;
+};
+
+// ===== MODULARITY =====
+
+const modularityOf = (
+  adjacency: WeightedAdjacency,
+  membership: ReadonlyMap<number, number>
+): number => {
+  let twoM = 0;
+  const internal = new Map<number, number>();
+  const totals = new Map<number, number>();
+
+  for (const [node, row] of adjacency) {
+    const community = membership.get(node);
+    if (community === undefined) continue;
+    for (const [neighbor, w] of row) {
+      twoM += w;
+      totals.set(community, (totals.get(community) ?? 0) + w);
+      if (membership.get(neighbor) === community) {
+        internal.set(community, (internal.get(community) ?? 0) + w);
+      }
+    }
+  }
+  if (twoM === 0) return 0;
+
+  let q = 0;
+  for (const [community, total] of totals) {
+    q += (internal.get(community) ?? 0) / twoM - (total / twoM) ** 2;
+  }
+  return q;
+};
+
+/** Newman modularity of an arbitrary node -> community assignment. */
+export const modularity = <N, E>(
+  graph: Graph.Graph<N, E, "undirected">,
+  membership: ReadonlyMap<Graph.NodeIndex, unknown>,
+  config: CommunityConfig<E> = {}
+): number => {
+  const ids = new Map<unknown, number>();
+  const numeric = new Map<number, number>();
+  for (const [node, label] of membership) {
+    let id = ids.get(label);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(label, id);
+    }
+    numeric.set(node, id);
+  }
+  return modularityOf(
+    toWeightedAdjacency(graph, config.weight ?? (() => 1)),
+    numeric
+  );
+};
+
+const toPartition = (
+  adjacency: WeightedAdjacency,
+  membership: ReadonlyMap<number, number>
+): Partition => {
+  const groups = new Map<number, Array<Graph.NodeIndex>>();
+  for (const [node, community] of membership) {
+    const group = groups.get(community);
+    if (group === undefined) groups.set(community, [node]);
+    else group.push(node);
+  }
+
+  const communities = Array.from(groups.values())
+    .map((group) => group.sort((a, b) => a - b))
+    .sort((a, b) => b.length - a.length || (a[0] ?? 0) - (b[0] ?? 0));
+
+  const renumbered = new Map<Graph.NodeIndex, number>();
+  communities.forEach((group, index) => {
+    for (const node of group) renumbered.set(node, index);
+  });
+
+  return {
+    communities,
+    membership: renumbered,
+    modularity: modularityOf(adjacency, renumbered),
+  };
+};
+
+/** Uses existing labels (industry, city...) as a partition to compare against. */
+export const partitionBy = <N, E>(
+  graph: Graph.Graph<N, E, "undirected">,
+  label: (node: N) => unknown,
+  config: CommunityConfig<E> = {}
+): Partition => {
+  const ids = new Map<unknown, number>();
+  const membership = new Map<Graph.NodeIndex, number>();
+  for (const [nodeIndex, node] of graph) {
+    const key = label(node);
+    let id = ids.get(key);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(key, id);
+    }
+    membership.set(nodeIndex, id);
+  }
+  return toPartition(
+    toWeightedAdjacency(graph, config.weight ?? (() => 1)),
+    membership
+  );
+};
+
+// ===== LOUVAIN =====
+
+// One round of local moves. Returns the community of every node, or
+// undefined when no node changed community.
+const localMoves = (
+  adjacency: WeightedAdjacency
+): Map<number, number> | undefined => {
+  const community = new Map<number, number>();
+  const degree = new Map<number, number>();
+  const totals = new Map<number, number>();
+  let twoM = 0;
+
+  for (const node of adjacency.keys()) {
+    const k = degreeOf(adjacency, node);
+    community.set(node, node);
+    degree.set(node, k);
+    totals.set(node, k);
+    twoM += k;
+  }
+  if (twoM === 0) return undefined;
+
+  let improved = false;
+  let moved = true;
+  for (let pass = 0; moved && pass < 100; pass++) {
+    moved = false;
+    for (const [node, row] of adjacency) {
+      const current = community.get(node) ?? node;
+      const k = degree.get(node) ?? 0;
+
+      // Weight from this node into each neighbouring community
+      const links = new Map<number, number>([[current, 0]]);
+      for (const [neighbor, w] of row) {
+        if (neighbor === node) continue;
+        const c = community.get(neighbor) ?? neighbor;
+        links.set(c, (links.get(c) ?? 0) + w);
+      }
+
+      totals.set(current, (totals.get(current) ?? 0) - k);
+
+      let best = current;
+      let bestGain =
+        (links.get(current) ?? 0) - ((totals.get(current) ?? 0) * k) / twoM;
+      for (const [c, w] of links) {
+        const gain = w - ((totals.get(c) ?? 0) * k) / twoM;
+        if (gain > bestGain + 1e-12) {
+          best = c;
+          bestGain = gain;
+        }
+      }
+
+      totals.set(best, (totals.get(best) ?? 0) + k);
+      if (best !== current) {
+        community.set(node, best);
+        moved = true;
+        improved = true;
+      }
+    }
+  }
+  // Moves can cancel out; only a smaller level counts as progress
+  return improved && new Set(community.values()).size < adjacency.size
+    ? community
+    : undefined;
+};
+
+const aggregate = (
+  adjacency: WeightedAdjacency,
+  community: ReadonlyMap<number, number>
+): WeightedAdjacency => {
+  const next: WeightedAdjacency = new Map();
+  for (const c of community.values()) {
+    if (!next.has(c)) next.set(c, new Map());
+  }
+  for (const [node, row] of adjacency) {
+    const from = community.get(node) ?? node;
+    for (const [neighbor, w] of row) {
+      addWeight(next, from, community.get(neighbor) ?? neighbor, w);
+    }
+  }
+  return next;
+};
+
+/**
+ * Louvain modularity optimisation. Each level moves nodes to the neighbouring
+ * community with the best modularity gain, then collapses communities into
+ * super-nodes; it stops once a level moves nothing.
+ */
+export const louvain = <N, E>(
+  graph: Graph.Graph<N, E, "undirected">,
+  config: CommunityConfig<E> = {}
+): Partition => {
+  const original = toWeightedAdjacency(graph, config.weight ?? (() => 1));
+
+  // Original node -> node of the current (aggregated) level
+  const membership = new Map<number, number>();
+  for (const node of original.keys()) membership.set(node, node);
+
+  let adjacency = original;
+  while (true) {
+    const community = localMoves(adjacency);
+    if (community === undefined) break;
+    for (const [node, superNode] of membership) {
+      membership.set(node, community.get(superNode) ?? superNode);
+    }
+    adjacency = aggregate(adjacency, community);
+  }
+
+  return toPartition(original, membership);
+};
+
+// ===== LABEL PROPAGATION =====
+
+/**
+ * Label propagation: every node repeatedly takes the label with the most
+ * edge weight among its neighbours, in a shuffled order each round. A node
+ * keeps its label when it is among the best; other ties are broken randomly.
+ */
+export const labelPropagation = <N, E>(
+  graph: Graph.Graph<N, E, "undirected">,
+  config: LabelPropagationConfig<E> = {}
+): Partition => {
+  const weight = config.weight ?? (() => 1);
+  const maxIterations = config.maxIterations ?? 100;
+  const random = SeededRandom.make(config.seed ?? 42);
+
+  const labels = new Map<Graph.NodeIndex, number>();
+  for (const nodeIndex of graph.nodes.keys()) labels.set(nodeIndex, nodeIndex);
+
+  const order = Array.from(graph.nodes.keys());
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    // Fisher–Yates shuffle
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j] ?? 0, order[i] ?? 0];
+    }
+
+    let changed = false;
+    for (const nodeIndex of order) {
+      const scores = new Map<number, number>();
+      for (const { node, data } of Adjacency.outgoing(graph, nodeIndex)) {
+        if (node === nodeIndex) continue;
+        const label = labels.get(node) ?? node;
+        scores.set(label, (scores.get(label) ?? 0) + weight(data));
+      }
+      if (scores.size === 0) continue;
+
+      const bestScore = Math.max(...scores.values());
+      const current = labels.get(nodeIndex) ?? nodeIndex;
+      if (scores.get(current) === bestScore) continue;
+
+      const candidates = Array.from(scores)
+        .filter(([, score]) => score === bestScore)
+        .map(([label]) => label);
+      const best = candidates[Math.floor(random() * candidates.length)];
+      if (best === undefined) continue;
+      labels.set(nodeIndex, best);
+      changed = true;
+    }
+    if (!changed) break;
+  }
+
+  return toPartition(toWeightedAdjacency(graph, weight), labels);
+};
@@ -0,0 +1,309 @@
+import type { Graph } from "effect";
+import * as Adjacency from "./adjacency.ts";
+import type * as KeyedGraph from "./keyed-graph.ts";
+
+// ============================================================================
+// CYCLE REPORTING
+// ============================================================================
+//
+// `Graph.isAcyclic` only says whether a cycle exists. These functions list
+// the cycles themselves:
+//   - elementaryCycles: every simple cycle of a directed graph (Johnson)
+//   - minimumCycleBasis: a shortest set of cycles of an undirected graph from
+//     which every other cycle can be built (Horton)
+//
+// A cycle lists each node once, starting from its lowest index; the edge back
+// to the first node is implied, so [a, b, c] reads `a -> b -> c -> a`.
+// `toKeys` turns a cycle into the closed key sequence of a keyed graph.
+
+export type Cycle = ReadonlyArray<Graph.NodeIndex>;
+
+export type ElementaryCyclesConfig = {
+  // The number of cycles can grow exponentially; stop after this many
+  readonly maxCycles?: number;
+};
+
+// ===== ELEMENTARY CYCLES (JOHNSON) =====
+
+const successorSets = <N, E>(
+  graph: Graph.Graph<N, E, "directed">
+): Map<Graph.NodeIndex, Array<Graph.NodeIndex>> => {
+  const successors = new Map<Graph.NodeIndex, Array<Graph.NodeIndex>>();
+  for (const nodeIndex of graph.nodes.keys()) {
+    // Parallel edges would otherwise report the same cycle twice
+    const targets = new Set(
+      Adjacency.outgoing(graph, nodeIndex).map(({ node }) => node)
+    );
+    successors.set(
+      nodeIndex,
+      Array.from(targets).sort((a, b) => a - b)
+    );
+  }
+  return successors;
+};
+
+// Tarjan's algorithm restricted to nodes >= `lowest`; returns the strongly
+// connected component containing `lowest`.
+const componentOf = (
+  successors: ReadonlyMap<Graph.NodeIndex, ReadonlyArray<Graph.NodeIndex>>,
+  lowest: Graph.NodeIndex
+): Set<Graph.NodeIndex> => {
+  const index = new Map<Graph.NodeIndex, number>();
+  const lowLink = new Map<Graph.NodeIndex, number>();
+  const onStack = new Set<Graph.NodeIndex>();
+  const stack: Array<Graph.NodeIndex> = [];
+  let counter = 0;
+  let result = new Set<Graph.NodeIndex>();
+
+  const visit = (v: Graph.NodeIndex) => {
+    index.set(v, counter);
+    lowLink.set(v, counter);
+    counter++;
+    stack.push(v);
+    onStack.add(v);
+
+    for (const w of successors.get(v) ?? []) {
+      if (w < lowest) continue;
+      if (!index.has(w)) {
+        visit(w);
+        lowLink.set(v, Math.min(lowLink.get(v) ?? 0, lowLink.get(w) ?? 0));
+      } else if (onStack.has(w)) {
+        lowLink.set(v, Math.min(lowLink.get(v) ?? 0, index.get(w) ?? 0));
+      }
+    }
+
+    if (lowLink.get(v) === index.get(v)) {
+      const component = new Set<Graph.NodeIndex>();
+      let w: Graph.NodeIndex | undefined;
+      do {
+        w = stack.pop();
+        if (w === undefined) break;
+        onStack.delete(w);
+        component.add(w);
+      } while (w !== v);
+      if (component.has(lowest)) result = component;
+    }
+  };
+
+  visit(lowest);
+  return result;
+};
+
+/**
+ * Every elementary cycle of a directed graph, via Johnson's algorithm. Each
+ * start node only looks for cycles through higher indices, so no cycle is
+ * reported twice.
+ */
+export const elementaryCycles = <N, E>(
+  graph: Graph.Graph<N, E, "directed">,
+  config: ElementaryCyclesConfig = {}
+): Array<Cycle> => {
+  const maxCycles = config.maxCycles ?? Infinity;
+  const successors = successorSets(graph);
+  const cycles: Array<Cycle> = [];
+  const starts = Array.from(graph.nodes.keys()).sort((a, b) => a - b);
+
+  for (const start of starts) {
+    if (cycles.length >= maxCycles) break;
+    const component = componentOf(successors, start);
+
+    const blocked = new Set<Graph.NodeIndex>();
+    const blockedBy = new Map<Graph.NodeIndex, Set<Graph.NodeIndex>>();
+    const path: Array<Graph.NodeIndex> = [];
+
+    const unblock = (node: Graph.NodeIndex) => {
+      blocked.delete(node);
+      const waiting = blockedBy.get(node);
+      if (waiting === undefined) return;
+      blockedBy.delete(node);
+      for (const w of waiting) {
+        if (blocked.has(w)) unblock(w);
+      }
+    };
+
+    const circuit = (v: Graph.NodeIndex): boolean => {
+      let found = false;
+      path.push(v);
+      blocked.add(v);
+
+      for (const w of successors.get(v) ?? []) {
+        if (cycles.length >= maxCycles) break;
+        if (!component.has(w)) continue;
+        if (w === start) {
+          cycles.push([...path]);
+          found = true;
+        } else if (!blocked.has(w) && circuit(w)) {
+          found = true;
+        }
+      }
+
+      if (found) {
+        unblock(v);
+      } else {
+        for (const w of successors.get(v) ?? []) {
+          if (!component.has(w)) continue;
+          const waiting = blockedBy.get(w) ?? new Set();
+          waiting.add(v);
+          blockedBy.set(w, waiting);
+        }
+      }
+      path.pop();
+      return found;
+    };
+
+    circuit(start);
+  }
+  return cycles;
+};
+
+// ===== MINIMUM CYCLE BASIS (HORTON) =====
+
+type Candidate = {
+  readonly nodes: Array<Graph.NodeIndex>;
+  readonly edges: Array<Graph.EdgeIndex>;
+};
+
+// BFS tree from `root`: parent node and the edge used to reach each node
+const shortestPathTree = <N, E>(
+  graph: Graph.Graph<N, E, "undirected">,
+  root: Graph.NodeIndex
+) => {
+  const parent = new Map<
+    Graph.NodeIndex,
+    { node: Graph.NodeIndex; edge: Graph.EdgeIndex }
+  >();
+  const seen = new Set<Graph.NodeIndex>([root]);
+  const queue: Array<Graph.NodeIndex> = [root];
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    if (current === undefined) continue;
+    for (const { node, edgeIndex } of Adjacency.outgoing(graph, current)) {
+      if (seen.has(node)) continue;
+      seen.add(node);
+      parent.set(node, { node: current, edge: edgeIndex });
+      queue.push(node);
+    }
+  }
+
+  // Nodes and edges from `root` down to `target`
+  const pathTo = (target: Graph.NodeIndex) => {
+    const nodes: Array<Graph.NodeIndex> = [target];
+    const edges: Array<Graph.EdgeIndex> = [];
+    let current = target;
+    let step = parent.get(current);
+    while (step !== undefined) {
+      nodes.push(step.node);
+      edges.push(step.edge);
+      current = step.node;
+      step = parent.get(current);
+    }
+    return { nodes: nodes.reverse(), edges: edges.reverse() };
+  };
+
+  return { seen, parent, pathTo };
+};
+
+// Rotate to the lowest index and walk towards its lower neighbour first, so
+// the same cycle always prints the same way
+const canonical = (nodes: ReadonlyArray<Graph.NodeIndex>): Cycle => {
+  const lowest = nodes.indexOf(Math.min(...nodes));
+  const rotated = [...nodes.slice(lowest), ...nodes.slice(0, lowest)];
+  const [first, second] = rotated;
+  const last = rotated[rotated.length - 1];
+  if (
+    first !== undefined &&
+    second !== undefined &&
+    last !== undefined &&
+    rotated.length > 2 &&
+    last < second
+  ) {
+    return [first, ...rotated.slice(1).reverse()];
+  }
+  return rotated;
+};
+
+/**
+ * Minimum cycle basis of an undirected graph (Horton's algorithm): candidate
+ * cycles are built from every BFS tree plus one extra edge, sorted by length,
+ * and kept greedily while they stay linearly independent over GF(2). The
+ * basis has |E| - |V| + components cycles; self-loops and parallel edges
+ * count as cycles of length 1 and 2.
+ */
+export const minimumCycleBasis = <N, E>(
+  graph: Graph.Graph<N, E, "undirected">
+): Array<Cycle> => {
+  const bitOf = new Map<Graph.EdgeIndex, bigint>();
+  let bit = 0n;
+  for (const edgeIndex of graph.edges.keys()) bitOf.set(edgeIndex, bit++);
+
+  const candidates: Array<Candidate> = [];
+  for (const root of graph.nodes.keys()) {
+    const tree = shortestPathTree(graph, root);
+    for (const [edgeIndex, edge] of graph.edges) {
+      if (!tree.seen.has(edge.source)) continue;
+      if (edge.source === edge.target) {
+        if (edge.source === root) {
+          candidates.push({ nodes: [root], edges: [edgeIndex] });
+        }
+        continue;
+      }
+      // Tree edges close no cycle
+      if (
+        tree.parent.get(edge.target)?.edge === edgeIndex ||
+        tree.parent.get(edge.source)?.edge === edgeIndex
+      ) {
+        continue;
+      }
+
+      const toSource = tree.pathTo(edge.source);
+      const toTarget = tree.pathTo(edge.target);
+      // Both branches may only share the root
+      const shared = toSource.nodes.filter((node) =>
+        toTarget.nodes.includes(node)
+      );
+      if (shared.length !== 1) continue;
+
+      candidates.push({
+        nodes: [...toSource.nodes, ...toTarget.nodes.slice(1).reverse()],
+        edges: [...toSource.edges, edgeIndex, ...toTarget.edges],
+      });
+    }
+  }
+  candidates.sort((a, b) => a.edges.length - b.edges.length);
+
+  // Gaussian elimination over GF(2) on edge incidence vectors
+  const pivots = new Map<number, bigint>();
+  const basis: Array<Cycle> = [];
+  for (const candidate of candidates) {
+    let vector = 0n;
+    for (const edgeIndex of candidate.edges) {
+      vector ^= 1n << (bitOf.get(edgeIndex) ?? 0n);
+    }
+    while (vector !== 0n) {
+      const pivot = vector.toString(2).length - 1;
+      const row = pivots.get(pivot);
+      if (row === undefined) {
+        pivots.set(pivot, vector);
+        basis.push(canonical(candidate.nodes));
+        break;
+      }
+      vector ^= row;
+    }
+  }
+  return basis;
+};
+
+// ===== KEYS =====
+
+/** Keys along the cycle with the first key repeated at the end. */
+export const toKeys = <K, N, E, T extends Graph.Kind>(
+  keyed: KeyedGraph.KeyedGraph<K, N, E, T>,
+  cycle: Cycle
+): Array<K> => {
+  const keys: Array<K> = [];
+  for (const nodeIndex of [...cycle, ...cycle.slice(0, 1)]) {
+    const node = keyed.graph.nodes.get(nodeIndex);
+    if (node !== undefined) keys.push(keyed.keyOf(node));
+  }
+  return keys;
+};
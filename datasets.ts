@@ -0,0 +1,526 @@
+import { FileSystem } from "@effect/platform";
+import type { PlatformError } from "@effect/platform/Error";
+import { Config, Data, Effect, Either, ParseResult, Schema } from "effect";
+
+// ============================================================================
+// DATASETS
+// ============================================================================
+//
+// Loads the people, connections, products, customers and purchases used by
+// the examples from CSV or JSONL files, picked by file extension, so the
+// analyses can run on any export with the same columns. Every row is
+// validated with a schema; rows that do not fit are collected as `RowError`s
+// next to the rows that do, instead of failing the whole file.
+//
+// JSONL rows are the records as they are. CSV files start with a header
+// row; list cells are separated by ";", empty cells count as missing and
+// each purchase takes one row per item, repeating the purchase columns.
+
+// ===== MODELS =====
+
+export class RowError extends Data.TaggedError("RowError")<{
+  readonly file: string;
+  // 1-based line in the file where the row starts
+  readonly line: number;
+  readonly reason: string;
+}> {
+  override get message() {
+    return `${this.file}:${this.line}: ${this.reason}`;
+  }
+}
+
+export class DatasetError extends Data.TaggedError("DatasetError")<{
+  readonly file: string;
+  readonly reason: string;
+}> {
+  override get message() {
+    return `Cannot load ${this.file}: ${this.reason}`;
+  }
+}
+
+export type Loaded<A> = {
+  readonly rows: ReadonlyArray<A>;
+  readonly errors: ReadonlyArray<RowError>;
+};
+
+/** How a record is read from each supported format. */
+export type Dataset<A, CI, JI> = {
+  readonly csv: Schema.Schema<A, CI>;
+  readonly jsonl: Schema.Schema<A, JI>;
+};
+
+// ===== NUMBERS =====
+
+// Prices, amounts and measurements
+const Amount = Schema.Number.pipe(Schema.finite(), Schema.nonNegative());
+// Counts, e.g. orders and reviews
+const Count = Schema.Number.pipe(Schema.int(), Schema.nonNegative());
+// Items of a product in a purchase
+const Quantity = Schema.Number.pipe(Schema.int(), Schema.positive());
+// Stars, 0 to 5
+const Rating = Schema.Number.pipe(Schema.between(0, 5));
+
+// The same, from a CSV cell
+const fromString = (schema: Schema.Schema<number>) =>
+  Schema.compose(Schema.NumberFromString, schema);
+
+// ===== CSV CELLS =====
+
+// "a;b;c" <-> ["a", "b", "c"]
+const List = Schema.transform(Schema.String, Schema.Array(Schema.String), {
+  strict: true,
+  decode: (cell) =>
+    cell
+      .split(";")
+      .map((item) => item.trim())
+      .filter((item) => item !== ""),
+  encode: (items) => items.join(";"),
+});
+
+// "14;9.8;0.6" <-> [14, 9.8, 0.6]
+const Dimensions = Schema.compose(
+  List,
+  Schema.Tuple(fromString(Amount), fromString(Amount), fromString(Amount)),
+  { strict: false }
+);
+
+// ===== SCHEMAS =====
+
+export const Person = Schema.Struct({
+  id: Schema.String,
+  name: Schema.String,
+  job: Schema.String,
+  company: Schema.optional(Schema.String),
+  location: Schema.String,
+  industry: Schema.String,
+  interests: Schema.Array(Schema.String),
+  experience: Schema.Number, // years
+  education: Schema.Array(Schema.String),
+  skills: Schema.Array(Schema.String),
+  influence: Schema.Number, // 1-10 scale
+});
+export type Person = typeof Person.Type;
+
+export const Connection = Schema.Struct({
+  strength: Schema.Number, // 1-10
+  context: Schema.String,
+  type: Schema.Literal("professional", "personal", "academic", "community"),
+  since: Schema.Number, // year
+});
+export type Connection = typeof Connection.Type;
+
+/** A connection between two people, by person id. */
+export const ConnectionRow = Schema.Struct({
+  from: Schema.String,
+  to: Schema.String,
+  ...Connection.fields,
+});
+export type ConnectionRow = typeof ConnectionRow.Type;
+
+export const Product = Schema.Struct({
+  id: Schema.String,
+  name: Schema.String,
+  category: Schema.String,
+  subcategory: Schema.String,
+  price: Amount,
+  brand: Schema.String,
+  tags: Schema.Array(Schema.String),
+  description: Schema.String,
+  inStock: Schema.Boolean,
+  rating: Rating,
+  reviewCount: Count,
+  seasonal: Schema.optional(Schema.Boolean),
+  discount: Schema.optional(Amount),
+  weight: Amount, // for shipping calculations
+  dimensions: Schema.Tuple(Amount, Amount, Amount), // LxWxH in inches
+});
+export type Product = typeof Product.Type;
+
+export const Customer = Schema.Struct({
+  id: Schema.String,
+  name: Schema.String,
+  email: Schema.String,
+  segment: Schema.Literal("budget", "regular", "premium", "vip"),
+  totalSpent: Amount,
+  orderCount: Count,
+  avgOrderValue: Amount,
+  preferredCategories: Schema.Array(Schema.String),
+  location: Schema.String,
+  age: Schema.optional(Count),
+  gender: Schema.optional(Schema.Literal("M", "F", "O")),
+  joinDate: Schema.String,
+  lastPurchaseDate: Schema.String,
+  lifetimeValue: Amount,
+});
+export type Customer = typeof Customer.Type;
+
+export const PurchaseItem = Schema.Struct({
+  productId: Schema.String,
+  quantity: Quantity,
+  priceAtPurchase: Amount,
+  discountApplied: Amount,
+});
+export type PurchaseItem = typeof PurchaseItem.Type;
+
+export const Purchase = Schema.Struct({
+  id: Schema.String,
+  customerId: Schema.String,
+  products: Schema.Array(PurchaseItem),
+  totalAmount: Amount,
+  timestamp: Schema.String,
+  paymentMethod: Schema.String,
+  shippingMethod: Schema.String,
+  orderStatus: Schema.Literal("pending", "shipped", "delivered", "cancelled"),
+});
+export type Purchase = typeof Purchase.Type;
+
+// ===== DATASETS =====
+
+export const people = {
+  csv: Schema.Struct({
+    ...Person.fields,
+    interests: List,
+    experience: Schema.NumberFromString,
+    education: List,
+    skills: List,
+    influence: Schema.NumberFromString,
+  }),
+  jsonl: Person,
+};
+
+export const connections = {
+  csv: Schema.Struct({
+    ...ConnectionRow.fields,
+    strength: Schema.NumberFromString,
+    since: Schema.NumberFromString,
+  }),
+  jsonl: ConnectionRow,
+};
+
+export const products = {
+  csv: Schema.Struct({
+    ...Product.fields,
+    price: fromString(Amount),
+    tags: List,
+    inStock: Schema.BooleanFromString,
+    rating: fromString(Rating),
+    reviewCount: fromString(Count),
+    seasonal: Schema.optional(Schema.BooleanFromString),
+    discount: Schema.optional(fromString(Amount)),
+    weight: fromString(Amount),
+    dimensions: Dimensions,
+  }),
+  jsonl: Product,
+};
+
+export const customers = {
+  csv: Schema.Struct({
+    ...Customer.fields,
+    totalSpent: fromString(Amount),
+    orderCount: fromString(Count),
+    avgOrderValue: fromString(Amount),
+    preferredCategories: List,
+    age: Schema.optional(fromString(Count)),
+    lifetimeValue: fromString(Amount),
+  }),
+  jsonl: Customer,
+};
+
+// One CSV row per purchased item; `loadPurchases` groups them by `id`
+const PurchaseItemRow = Schema.Struct({
+  ...Purchase.omit("products").fields,
+  totalAmount: fromString(Amount),
+  productId: Schema.String,
+  quantity: fromString(Quantity),
+  priceAtPurchase: fromString(Amount),
+  discountApplied: fromString(Amount),
+});
+
+// ===== PARSING =====
+
+type RawRow = {
+  readonly line: number;
+  readonly value: unknown;
+};
+
+type Parsed = {
+  readonly rows: ReadonlyArray<RawRow>;
+  readonly errors: ReadonlyArray<RowError>;
+};
+
+// RFC 4180: quoted cells may contain commas, line breaks and "" for a quote
+const parseCsv = (file: string, text: string): Parsed => {
+  const records: Array<{ line: number; cells: Array<string> }> = [];
+  let cells: Array<string> = [];
+  let cell = "";
+  let line = 1;
+  let start = 1;
+  let quoted = false;
+  const endRecord = () => {
+    cells.push(cell);
+    // Blank lines are skipped
+    if (cells.length > 1 || cells[0] !== "") {
+      records.push({ line: start, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === "\n") line++;
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (c === "\n") {
+      endRecord();
+      line++;
+      start = line;
+    } else if (c !== "\r") {
+      cell += c;
+    }
+  }
+  const errors: Array<RowError> = [];
+  if (quoted) {
+    errors.push(
+      new RowError({ file, line: start, reason: "Unterminated quote" })
+    );
+  } else {
+    endRecord();
+  }
+
+  const [header, ...body] = records;
+  if (header === undefined) return { rows: [], errors };
+  const columns = header.cells.map((column) => column.trim());
+  const rows: Array<RawRow> = [];
+  for (const record of body) {
+    if (record.cells.length !== columns.length) {
+      errors.push(
+        new RowError({
+          file,
+          line: record.line,
+          reason: `Expected ${columns.length} cells, found ${record.cells.length}`,
+        })
+      );
+      continue;
+    }
+    const value: Record<string, string> = {};
+    columns.forEach((column, j) => {
+      const content = record.cells[j] ?? "";
+      if (content !== "") value[column] = content;
+    });
+    rows.push({ line: record.line, value });
+  }
+  return { rows, errors };
+};
+
+const parseJsonl = (file: string, text: string): Parsed => {
+  const rows: Array<RawRow> = [];
+  const errors: Array<RowError> = [];
+  text.split("\n").forEach((content, i) => {
+    if (content.trim() === "") return;
+    try {
+      rows.push({ line: i + 1, value: JSON.parse(content) });
+    } catch (error) {
+      errors.push(
+        new RowError({
+          file,
+          line: i + 1,
+          reason: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  });
+  return { rows, errors };
+};
+
+const read = (
+  file: string
+): Effect.Effect<
+  { readonly format: "csv" | "jsonl"; readonly parsed: Parsed },
+  DatasetError | PlatformError,
+  FileSystem.FileSystem
+> =>
+  Effect.gen(function* () {
+    const format = file.endsWith(".csv")
+      ? "csv"
+      : file.endsWith(".jsonl")
+        ? "jsonl"
+        : undefined;
+    if (format === undefined) {
+      return yield* new DatasetError({
+        file,
+        reason: "expected a .csv or .jsonl file",
+      });
+    }
+    const fs = yield* FileSystem.FileSystem;
+    const text = yield* fs.readFileString(file);
+    return {
+      format,
+      parsed: format === "csv" ? parseCsv(file, text) : parseJsonl(file, text),
+    } as const;
+  });
+
+// Rows that decode, with their lines, and errors for those that do not
+const decodeRows = <A, I>(
+  file: string,
+  parsed: Parsed,
+  schema: Schema.Schema<A, I>
+) => {
+  const decode = Schema.decodeUnknownEither(schema, { errors: "all" });
+  const rows: Array<{ readonly line: number; readonly value: A }> = [];
+  const errors = [...parsed.errors];
+  for (const row of parsed.rows) {
+    const result = decode(row.value);
+    if (Either.isLeft(result)) {
+      errors.push(
+        new RowError({
+          file,
+          line: row.line,
+          reason: ParseResult.TreeFormatter.formatErrorSync(result.left),
+        })
+      );
+    } else {
+      rows.push({ line: row.line, value: result.right });
+    }
+  }
+  return { rows, errors };
+};
+
+const byLine = (a: RowError, b: RowError) => a.line - b.line;
+
+// ===== LOADING =====
+
+/** Directory the examples read their datasets from; `DATA_DIR`, or `data`. */
+export const directory = Config.string("DATA_DIR").pipe(
+  Config.withDefault("data")
+);
+
+/** Logs every row error as a warning and keeps the rows that loaded. */
+export const validRows = <A>(
+  loaded: Loaded<A>
+): Effect.Effect<ReadonlyArray<A>> =>
+  Effect.as(
+    Effect.forEach(loaded.errors, (error) => Effect.logWarning(error.message), {
+      discard: true,
+    }),
+    loaded.rows
+  );
+
+/**
+ * Reads `file` as CSV or JSONL, depending on its extension, and decodes
+ * every row with the matching schema of `dataset`. Only an unreadable file
+ * or an unsupported extension fails the effect.
+ */
+export const load = <A, CI, JI>(
+  file: string,
+  dataset: Dataset<A, CI, JI>
+): Effect.Effect<
+  Loaded<A>,
+  DatasetError | PlatformError,
+  FileSystem.FileSystem
+> =>
+  Effect.map(read(file), ({ format, parsed }) => {
+    const decoded =
+      format === "csv"
+        ? decodeRows(file, parsed, dataset.csv)
+        : decodeRows(file, parsed, dataset.jsonl);
+    return {
+      rows: decoded.rows.map((row) => row.value),
+      errors: decoded.errors.sort(byLine),
+    };
+  });
+
+export const loadPeople = (file: string) => load(file, people);
+export const loadConnections = (file: string) => load(file, connections);
+export const loadProducts = (file: string) => load(file, products);
+export const loadCustomers = (file: string) => load(file, customers);
+
+/**
+ * Like `load` for purchases. CSV rows with the same `id` are merged into
+ * one purchase; a row whose purchase columns disagree with the first row of
+ * its purchase is reported and left out.
+ */
+export const loadPurchases = (
+  file: string
+): Effect.Effect<
+  Loaded<Purchase>,
+  DatasetError | PlatformError,
+  FileSystem.FileSystem
+> =>
+  Effect.map(read(file), ({ format, parsed }) => {
+    if (format === "jsonl") {
+      const decoded = decodeRows(file, parsed, Purchase);
+      return {
+        rows: decoded.rows.map((row) => row.value),
+        errors: decoded.errors.sort(byLine),
+      };
+    }
+    const decoded = decodeRows(file, parsed, PurchaseItemRow);
+    const errors = decoded.errors;
+    const purchases = new Map<
+      string,
+      { head: typeof PurchaseItemRow.Type; items: Array<PurchaseItem> }
+    >();
+    for (const { line, value } of decoded.rows) {
+      const { productId, quantity, priceAtPurchase, discountApplied, ...head } =
+        value;
+      const existing = purchases.get(head.id);
+      if (existing === undefined) {
+        purchases.set(head.id, {
+          head: value,
+          items: [{ productId, quantity, priceAtPurchase, discountApplied }],
+        });
+        continue;
+      }
+      const conflict = (
+        [
+          "customerId",
+          "totalAmount",
+          "timestamp",
+          "paymentMethod",
+          "shippingMethod",
+          "orderStatus",
+        ] as const
+      ).find((column) => existing.head[column] !== head[column]);
+      if (conflict !== undefined) {
+        errors.push(
+          new RowError({
+            file,
+            line,
+            reason: `"${conflict}" differs from earlier rows of purchase ${head.id}`,
+          })
+        );
+        continue;
+      }
+      existing.items.push({
+        productId,
+        quantity,
+        priceAtPurchase,
+        discountApplied,
+      });
+    }
+    return {
+      rows: Array.from(purchases.values(), ({ head, items }) => ({
+        id: head.id,
+        customerId: head.customerId,
+        products: items,
+        totalAmount: head.totalAmount,
+        timestamp: head.timestamp,
+        paymentMethod: head.paymentMethod,
+        shippingMethod: head.shippingMethod,
+        orderStatus: head.orderStatus,
+      })),
+      errors: errors.sort(byLine),
+    };
+  });
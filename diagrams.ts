@@ -0,0 +1,291 @@
+import type { Graph } from "effect";
+
+// ============================================================================
+// DIAGRAM EXPORT
+// ============================================================================
+//
+// Mermaid and D2 exporters for any `Graph.Graph`, taking the same
+// `nodeLabel` / `edgeLabel` / `graphName` options as `Graph.toGraphViz`.
+// Unlike `Graph.toMermaid`, nodes and edges can be styled one by one, which
+// is what highlighting a critical path or a shortest route needs;
+// `highlightPath` builds those callbacks from a list of node indices.
+
+// ===== MODELS =====
+
+export type Style = {
+  readonly fill?: string;
+  readonly stroke?: string;
+  // Pixels
+  readonly strokeWidth?: number;
+  readonly fontColor?: string;
+  readonly dashed?: boolean;
+  readonly bold?: boolean;
+};
+
+export type EdgeInfo<E> = {
+  readonly index: Graph.EdgeIndex;
+  readonly source: Graph.NodeIndex;
+  readonly target: Graph.NodeIndex;
+  readonly data: E;
+};
+
+export type DiagramOptions<N, E> = Graph.GraphVizOptions<N, E> & {
+  // Defaults to top-down
+  readonly direction?: Graph.MermaidDirection;
+  readonly nodeShape?: (data: N) => Graph.MermaidNodeShape;
+  // Return undefined to leave a node or edge unstyled
+  readonly nodeStyle?: (data: N, index: Graph.NodeIndex) => Style | undefined;
+  readonly edgeStyle?: (edge: EdgeInfo<E>) => Style | undefined;
+};
+
+export type MermaidOptions<N, E> = DiagramOptions<N, E> & {
+  // Defaults to `flowchart` for directed graphs and `graph` for undirected
+  readonly diagramType?: Graph.MermaidDiagramType;
+};
+
+// ===== HIGHLIGHTING =====
+
+/**
+ * Style callbacks for the nodes of `path` and the edges joining consecutive
+ * nodes on it. Spread the result into the exporter options; with parallel
+ * edges every edge between two consecutive nodes is highlighted.
+ */
+export const highlightPath = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>,
+  path: ReadonlyArray<Graph.NodeIndex>,
+  style: { readonly node: Style; readonly edge: Style }
+): Pick<DiagramOptions<N, E>, "nodeStyle" | "edgeStyle"> => {
+  const nodes = new Set(path);
+  const steps = new Set<string>();
+  for (let i = 1; i < path.length; i++) {
+    steps.add(`${path[i - 1]}>${path[i]}`);
+    // Undirected edges may be stored either way round
+    if (graph.type === "undirected") steps.add(`${path[i]}>${path[i - 1]}`);
+  }
+  return {
+    nodeStyle: (_, index) => (nodes.has(index) ? style.node : undefined),
+    edgeStyle: (edge) =>
+      steps.has(`${edge.source}>${edge.target}`) ? style.edge : undefined,
+  };
+};
+
+// ===== MERMAID =====
+
+// https://mermaid.js.org/syntax/flowchart.html#special-characters-that-break-syntax
+const escapeMermaid = (label: string) =>
+  label
+    .replace(/#/g, "#35;")
+    .replace(/&/g, "#amp;")
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;")
+    .replace(/\|/g, "#124;")
+    .replace(/\n/g, "<br/>");
+
+const mermaidNode = (
+  id: string,
+  label: string,
+  shape: Graph.MermaidNodeShape
+) => {
+  switch (shape) {
+    case "rectangle":
+      return `${id}["${label}"]`;
+    case "rounded":
+      return `${id}("${label}")`;
+    case "circle":
+      return `${id}(("${label}"))`;
+    case "diamond":
+      return `${id}{"${label}"}`;
+    case "hexagon":
+      return `${id}{{"${label}"}}`;
+    case "stadium":
+      return `${id}(["${label}"])`;
+    case "subroutine":
+      return `${id}[["${label}"]]`;
+    case "cylindrical":
+      return `${id}[("${label}")]`;
+  }
+};
+
+// Links are drawn as lines, so `fill` is left out for them
+const mermaidStyle = (style: Style, link: boolean) =>
+  [
+    !link && style.fill !== undefined ? `fill:${style.fill}` : undefined,
+    style.stroke !== undefined ? `stroke:${style.stroke}` : undefined,
+    style.strokeWidth !== undefined
+      ? `stroke-width:${style.strokeWidth}px`
+      : undefined,
+    style.fontColor !== undefined ? `color:${style.fontColor}` : undefined,
+    style.dashed ? "stroke-dasharray:5 5" : undefined,
+    style.bold ? "font-weight:bold" : undefined,
+  ]
+    .filter((part) => part !== undefined)
+    .join(",");
+
+/**
+ * Mermaid flowchart source. `graphName` becomes the diagram title; styles
+ * are emitted as `style` and `linkStyle` statements after the graph itself.
+ */
+export const toMermaid = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>,
+  options: MermaidOptions<N, E> = {}
+): string => {
+  const nodeLabel = options.nodeLabel ?? String;
+  const edgeLabel = options.edgeLabel ?? String;
+  const diagramType =
+    options.diagramType ?? (graph.type === "directed" ? "flowchart" : "graph");
+  const arrow = graph.type === "directed" ? "-->" : "---";
+
+  const lines: Array<string> = [];
+  if (options.graphName !== undefined) {
+    lines.push("---", `title: ${options.graphName}`, "---");
+  }
+  lines.push(`${diagramType} ${options.direction ?? "TD"}`);
+  const styles: Array<string> = [];
+
+  for (const [index, data] of graph.nodes) {
+    const label = escapeMermaid(nodeLabel(data));
+    const shape = options.nodeShape?.(data) ?? "rectangle";
+    lines.push(`  ${mermaidNode(`n${index}`, label, shape)}`);
+    const style = options.nodeStyle?.(data, index);
+    if (style !== undefined) {
+      styles.push(`  style n${index} ${mermaidStyle(style, false)}`);
+    }
+  }
+
+  // `linkStyle` refers to edges by the order they were declared in
+  let position = 0;
+  for (const [index, edge] of graph.edges) {
+    const label = escapeMermaid(edgeLabel(edge.data));
+    const link = label === "" ? arrow : `${arrow}|"${label}"|`;
+    lines.push(`  n${edge.source} ${link} n${edge.target}`);
+    const style = options.edgeStyle?.({
+      index,
+      source: edge.source,
+      target: edge.target,
+      data: edge.data,
+    });
+    if (style !== undefined) {
+      styles.push(`  linkStyle ${position} ${mermaidStyle(style, true)}`);
+    }
+    position++;
+  }
+
+  return [...lines, ...styles].join("\n");
+};
+
+// ===== D2 =====
+
+const quoteD2 = (value: string) =>
+  `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+
+const D2_DIRECTIONS: Record<Graph.MermaidDirection, string> = {
+  TB: "down",
+  TD: "down",
+  BT: "up",
+  LR: "right",
+  RL: "left",
+};
+
+// Closest D2 shape and any style it needs to look the part
+const d2Shape = (shape: Graph.MermaidNodeShape): Array<string> => {
+  switch (shape) {
+    case "rectangle":
+      return [];
+    case "rounded":
+      return ["style.border-radius: 8"];
+    case "circle":
+      return ["shape: circle"];
+    case "diamond":
+      return ["shape: diamond"];
+    case "hexagon":
+      return ["shape: hexagon"];
+    case "stadium":
+      return ["shape: oval"];
+    case "subroutine":
+      return ["style.double-border: true"];
+    case "cylindrical":
+      return ["shape: cylinder"];
+  }
+};
+
+const d2Style = (style: Style, link: boolean) =>
+  [
+    !link && style.fill !== undefined
+      ? `style.fill: ${quoteD2(style.fill)}`
+      : undefined,
+    style.stroke !== undefined
+      ? `style.stroke: ${quoteD2(style.stroke)}`
+      : undefined,
+    style.strokeWidth !== undefined
+      ? `style.stroke-width: ${style.strokeWidth}`
+      : undefined,
+    style.fontColor !== undefined
+      ? `style.font-color: ${quoteD2(style.fontColor)}`
+      : undefined,
+    style.dashed ? "style.stroke-dash: 3" : undefined,
+    style.bold ? "style.bold: true" : undefined,
+  ].filter((part) => part !== undefined);
+
+// `id: label` plus a block for any attributes
+const d2Declaration = (head: string, attributes: ReadonlyArray<string>) =>
+  attributes.length === 0
+    ? [head]
+    : [`${head} {`, ...attributes.map((line) => `  ${line}`), "}"];
+
+/**
+ * D2 source. `graphName` becomes a text title above the diagram; undirected
+ * graphs use `--` connections.
+ */
+export const toD2 = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>,
+  options: DiagramOptions<N, E> = {}
+): string => {
+  const nodeLabel = options.nodeLabel ?? String;
+  const edgeLabel = options.edgeLabel ?? String;
+  const arrow = graph.type === "directed" ? "->" : "--";
+
+  const lines: Array<string> = [
+    `direction: ${D2_DIRECTIONS[options.direction ?? "TD"]}`,
+  ];
+  if (options.graphName !== undefined) {
+    lines.push(
+      ...d2Declaration("title:", [
+        `label: ${quoteD2(options.graphName)}`,
+        "near: top-center",
+        "shape: text",
+        "style.font-size: 24",
+      ])
+    );
+  }
+
+  for (const [index, data] of graph.nodes) {
+    const shape = options.nodeShape?.(data) ?? "rectangle";
+    const style = options.nodeStyle?.(data, index);
+    lines.push(
+      ...d2Declaration(`n${index}: ${quoteD2(nodeLabel(data))}`, [
+        ...d2Shape(shape),
+        ...(style === undefined ? [] : d2Style(style, false)),
+      ])
+    );
+  }
+
+  for (const [index, edge] of graph.edges) {
+    const label = edgeLabel(edge.data);
+    const head = `n${edge.source} ${arrow} n${edge.target}`;
+    const style = options.edgeStyle?.({
+      index,
+      source: edge.source,
+      target: edge.target,
+      data: edge.data,
+    });
+    lines.push(
+      ...d2Declaration(
+        label === "" ? head : `${head}: ${quoteD2(label)}`,
+        style === undefined ? [] : d2Style(style, true)
+      )
+    );
+  }
+
+  return lines.join("\n");
+};
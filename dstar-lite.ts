@@ -0,0 +1,293 @@
+import { Option } from "effect";
+import * as Grid from "./grid.ts";
+import * as PriorityQueue from "./priority-queue.ts";
+
+// ============================================================================
+// DYNAMIC REPLANNING
+// ============================================================================
+//
+// D* Lite (Koenig & Likhachev) over a grid whose cells change while an agent
+// walks it. The search runs backwards from the goal, so the distances it has
+// already worked out stay valid when the agent moves; after walls appear or
+// disappear only the cells whose distance actually changed are expanded
+// again. `replan` reports how many cells that took, to compare with a search
+// from scratch.
+
+// ===== MODELS =====
+
+export type Replan = {
+  // Every cell from the agent's position to the goal
+  readonly path: Option.Option<ReadonlyArray<Grid.Point>>;
+  readonly cost: number;
+  // Cells expanded by this call only
+  readonly expanded: number;
+};
+
+export type Planner = {
+  /** The grid as the planner currently knows it. */
+  readonly grid: () => Grid.Grid;
+  readonly position: () => Grid.Point;
+  /**
+   * Changes the entry cost of a cell; `undefined` turns it into a wall.
+   * Points outside the grid are ignored. Takes effect on the next `replan`.
+   */
+  readonly setCell: (point: Grid.Point, cost: number | undefined) => void;
+  /** Moves the agent; takes effect on the next `replan`. */
+  readonly moveTo: (point: Grid.Point) => void;
+  /** Brings the shortest path from the agent's position up to date. */
+  readonly replan: () => Replan;
+};
+
+// Compared lexicographically; the node rides along for stale-entry checks
+type Key = { readonly primary: number; readonly secondary: number };
+type Entry = Key & { readonly node: number };
+
+// Keys built from different sums of the same costs should still tie
+const EPSILON = 1e-9;
+
+const compareNumbers = (a: number, b: number) =>
+  a === b || Math.abs(a - b) < EPSILON ? 0 : a < b ? -1 : 1;
+
+const compareKeys = (a: Key, b: Key) =>
+  compareNumbers(a.primary, b.primary) ||
+  compareNumbers(a.secondary, b.secondary);
+
+// Every offset whose cell can be one step away
+const AROUND: ReadonlyArray<Grid.Point> = [
+  [0, -1],
+  [1, -1],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+  [-1, 1],
+  [-1, 0],
+  [-1, -1],
+];
+
+// ===== PLANNER =====
+
+/**
+ * A D* Lite planner from `start` to `goal`. The first `replan` is a full
+ * search; later ones repair the previous result. Cells may not become cheaper
+ * than the cheapest terrain the planner has seen, since that would break the
+ * heuristic, so doing so restarts the search from scratch.
+ */
+export const make = (
+  grid: Grid.Grid,
+  start: Grid.Point,
+  goal: Grid.Point,
+  moves: Grid.MoveSet = Grid.cardinal
+): Planner => {
+  const { width, height } = grid;
+  const costs = [...grid.costs];
+  const current: Grid.Grid = { ...grid, costs };
+  const indexOf = ([x, y]: Grid.Point) => y * width + x;
+  const pointOf = (node: number): Grid.Point => [
+    node % width,
+    Math.floor(node / width),
+  ];
+  const inside = ([x, y]: Grid.Point) =>
+    x >= 0 && y >= 0 && x < width && y < height;
+  const goalNode = indexOf(goal);
+  const cheapestCost = () =>
+    costs.reduce<number>(
+      (cheapest, cost) =>
+        cost === undefined ? cheapest : Math.min(cheapest, cost),
+      Infinity
+    );
+
+  // Heuristic and the terrain cost it was scaled by
+  let cheapest = cheapestCost();
+  let distance = Grid.distanceFor(current, moves);
+  let position = start;
+  let lastPosition = start;
+  // Heuristic drift accumulated by moving, instead of re-keying the queue
+  let offset = 0;
+  let g = new Map<number, number>();
+  let rhs = new Map<number, number>();
+  let queued = new Map<number, Entry>();
+  let queue = PriorityQueue.makeWith<number, Entry>(compareKeys);
+  const dirty = new Set<number>();
+  let restart = true;
+
+  const gOf = (node: number) => g.get(node) ?? Infinity;
+  const rhsOf = (node: number) => rhs.get(node) ?? Infinity;
+
+  // Steps out of a cell; walls have none
+  const successors = (node: number) => {
+    const point = pointOf(node);
+    return Grid.isOpen(current, point)
+      ? Grid.neighbors(current, point, moves).map((step) => ({
+          node: indexOf(step.position),
+          cost: step.cost,
+        }))
+      : [];
+  };
+
+  // Cells with a step into `node` (steps are symmetric apart from cost)
+  const predecessors = (node: number) => {
+    const [x, y] = pointOf(node);
+    const result: Array<number> = [];
+    for (const [dx, dy] of AROUND) {
+      const from: Grid.Point = [x + dx, y + dy];
+      if (!Grid.isOpen(current, from)) continue;
+      const steps = Grid.neighbors(current, from, moves);
+      if (steps.some((step) => indexOf(step.position) === node)) {
+        result.push(indexOf(from));
+      }
+    }
+    return result;
+  };
+
+  const keyOf = (node: number): Entry => {
+    const best = Math.min(gOf(node), rhsOf(node));
+    return {
+      primary: best + distance(position, pointOf(node)) + offset,
+      secondary: best,
+      node,
+    };
+  };
+
+  const enqueue = (node: number) => {
+    const entry = keyOf(node);
+    queued.set(node, entry);
+    queue.push(node, entry);
+  };
+
+  // Drops entries replaced by a newer key or taken out of the queue
+  const top = (): Entry | undefined => {
+    let entry = queue.peekPriority();
+    while (entry !== undefined && queued.get(entry.node) !== entry) {
+      queue.pop();
+      entry = queue.peekPriority();
+    }
+    return entry;
+  };
+
+  const updateVertex = (node: number) => {
+    if (node === goalNode) {
+      // A goal that turned into a wall can no longer be reached
+      rhs.set(node, Grid.isOpen(current, goal) ? 0 : Infinity);
+    } else {
+      let best = Infinity;
+      for (const step of successors(node)) {
+        best = Math.min(best, step.cost + gOf(step.node));
+      }
+      rhs.set(node, best);
+    }
+    queued.delete(node);
+    if (gOf(node) !== rhsOf(node)) enqueue(node);
+  };
+
+  const reset = () => {
+    cheapest = cheapestCost();
+    distance = Grid.distanceFor(current, moves);
+    lastPosition = position;
+    offset = 0;
+    g = new Map();
+    rhs = new Map();
+    queued = new Map();
+    queue = PriorityQueue.makeWith<number, Entry>(compareKeys);
+    dirty.clear();
+    if (inside(goal)) updateVertex(goalNode);
+    restart = false;
+  };
+
+  const computeShortestPath = () => {
+    const startNode = indexOf(position);
+    let expanded = 0;
+    while (true) {
+      const entry = top();
+      if (entry === undefined) break;
+      if (
+        compareKeys(entry, keyOf(startNode)) >= 0 &&
+        rhsOf(startNode) === gOf(startNode)
+      ) {
+        break;
+      }
+      const node = entry.node;
+      const fresh = keyOf(node);
+      if (compareKeys(entry, fresh) < 0) {
+        // Key went stale after the agent moved; try again with the new one
+        queued.set(node, fresh);
+        queue.push(node, fresh);
+        continue;
+      }
+      queue.pop();
+      queued.delete(node);
+      expanded++;
+      if (gOf(node) > rhsOf(node)) {
+        g.set(node, rhsOf(node));
+        for (const from of predecessors(node)) updateVertex(from);
+      } else {
+        g.set(node, Infinity);
+        updateVertex(node);
+        for (const from of predecessors(node)) updateVertex(from);
+      }
+    }
+    return expanded;
+  };
+
+  // Follows the cheapest step from the agent until the goal
+  const extractPath = (): Option.Option<ReadonlyArray<Grid.Point>> => {
+    let node = indexOf(position);
+    if (!inside(position) || !Number.isFinite(gOf(node))) {
+      return Option.none();
+    }
+    const path = [pointOf(node)];
+    while (node !== goalNode && path.length <= width * height) {
+      let next: number | undefined;
+      let best = Infinity;
+      for (const step of successors(node)) {
+        const through = step.cost + gOf(step.node);
+        if (through < best) {
+          best = through;
+          next = step.node;
+        }
+      }
+      if (next === undefined) return Option.none();
+      node = next;
+      path.push(pointOf(node));
+    }
+    return node === goalNode ? Option.some(path) : Option.none();
+  };
+
+  return {
+    grid: () => current,
+    position: () => position,
+    setCell: (point, cost) => {
+      if (!inside(point)) return;
+      const node = indexOf(point);
+      if (costs[node] === cost) return;
+      costs[node] = cost;
+      if (cost !== undefined && cost < cheapest) {
+        restart = true;
+        return;
+      }
+      // Steps into the cell, and diagonals squeezing past it, start here
+      dirty.add(node);
+      const [x, y] = point;
+      for (const [dx, dy] of AROUND) {
+        if (inside([x + dx, y + dy])) dirty.add(indexOf([x + dx, y + dy]));
+      }
+    },
+    moveTo: (point) => {
+      position = point;
+    },
+    replan: () => {
+      if (restart) reset();
+      offset += distance(lastPosition, position);
+      lastPosition = position;
+      for (const node of dirty) updateVertex(node);
+      dirty.clear();
+
+      const expanded = computeShortestPath();
+      const path = extractPath();
+      return {
+        path,
+        cost: Option.isSome(path) ? gOf(indexOf(position)) : Infinity,
+        expanded,
+      };
+    },
+  };
+};
@@ -0,0 +1,326 @@
+import { Data, Effect, Equal, type Equivalence, Graph, Utils } from "effect";
+import type * as KeyedGraph from "./keyed-graph.ts";
+
+// ============================================================================
+// GRAPH DIFF
+// ============================================================================
+//
+// Compares two snapshots of a keyed graph, e.g. `productGraph` before and
+// after new purchases arrive, and lists the nodes and edges that were added,
+// removed or changed. Nodes are matched by key. Edges are matched by the
+// keys of their endpoints (either way round in undirected graphs); among
+// parallel edges, an edge with identical data is taken as unchanged first,
+// then edges with the same `edgeKey` as changed.
+//
+// A change set can be applied as a patch to another graph with the same
+// keys. Patching checks that the graph still holds what the change set says
+// was there before, and fails with `PatchConflict` otherwise.
+
+// ===== MODELS =====
+
+export type NodeEntry<K, N> = {
+  readonly key: K;
+  readonly data: N;
+};
+
+export type NodeChange<K, N> = {
+  readonly key: K;
+  readonly before: N;
+  readonly after: N;
+};
+
+export type EdgeEntry<K, E> = {
+  readonly source: K;
+  readonly target: K;
+  readonly data: E;
+};
+
+export type EdgeChange<K, E> = {
+  readonly source: K;
+  readonly target: K;
+  readonly before: E;
+  readonly after: E;
+};
+
+export type ChangeSet<K, N, E> = {
+  readonly nodes: {
+    readonly added: ReadonlyArray<NodeEntry<K, N>>;
+    readonly removed: ReadonlyArray<NodeEntry<K, N>>;
+    readonly changed: ReadonlyArray<NodeChange<K, N>>;
+  };
+  readonly edges: {
+    readonly added: ReadonlyArray<EdgeEntry<K, E>>;
+    readonly removed: ReadonlyArray<EdgeEntry<K, E>>;
+    readonly changed: ReadonlyArray<EdgeChange<K, E>>;
+  };
+};
+
+export type Options<N, E> = {
+  // Structural equality of plain data by default; pass
+  // `Schema.equivalence(schema)` for schema-aware comparison
+  readonly nodeEquivalence?: Equivalence.Equivalence<N>;
+  readonly edgeEquivalence?: Equivalence.Equivalence<E>;
+  // Identity of an edge among the edges joining the same two nodes, e.g.
+  // its relationship type; edges with the same key count as one edge
+  // whose data changed. By default any two such edges do.
+  readonly edgeKey?: (data: E) => unknown;
+};
+
+export class PatchConflict extends Data.TaggedError("PatchConflict")<{
+  readonly reason: string;
+}> {
+  override get message() {
+    return `Cannot apply change set: ${this.reason}`;
+  }
+}
+
+// ===== HELPERS =====
+
+const structural = <A>(a: A, b: A) =>
+  Utils.structuralRegion(() => Equal.equals(a, b));
+
+// Edges grouped by the pair of nodes they join; undirected pairs are
+// stored lowest index first
+const edgesByPair = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>
+) => {
+  const pairs = new Map<string, Array<Graph.Edge<E>>>();
+  for (const edge of graph.edges.values()) {
+    const id = pairId(graph.type, edge.source, edge.target);
+    const group = pairs.get(id);
+    if (group === undefined) pairs.set(id, [edge]);
+    else group.push(edge);
+  }
+  return pairs;
+};
+
+const pairId = (
+  type: Graph.Kind,
+  source: Graph.NodeIndex,
+  target: Graph.NodeIndex
+) =>
+  type === "undirected" && target < source
+    ? `${target}-${source}`
+    : `${source}-${target}`;
+
+// ===== DIFF =====
+
+/**
+ * Everything that has to happen to `before` to turn it into `after`. Both
+ * graphs must key their nodes the same way; node indices do not matter.
+ */
+export const diff = <K, N, E, T extends Graph.Kind>(
+  before: KeyedGraph.KeyedGraph<K, N, E, T>,
+  after: KeyedGraph.KeyedGraph<K, N, E, T>,
+  options: Options<N, E> = {}
+): ChangeSet<K, N, E> => {
+  const nodeEquivalence = options.nodeEquivalence ?? structural;
+  const edgeEquivalence = options.edgeEquivalence ?? structural;
+  const edgeKey = options.edgeKey ?? (() => undefined);
+
+  const nodes: {
+    added: Array<NodeEntry<K, N>>;
+    removed: Array<NodeEntry<K, N>>;
+    changed: Array<NodeChange<K, N>>;
+  } = { added: [], removed: [], changed: [] };
+  for (const [key, index] of before.indices) {
+    const data = before.graph.nodes.get(index) as N;
+    const afterIndex = after.indices.get(key);
+    const afterData =
+      afterIndex === undefined ? undefined : after.graph.nodes.get(afterIndex);
+    if (afterIndex === undefined) {
+      nodes.removed.push({ key, data });
+    } else if (!nodeEquivalence(data, afterData as N)) {
+      nodes.changed.push({ key, before: data, after: afterData as N });
+    }
+  }
+  for (const [key, index] of after.indices) {
+    if (!before.indices.has(key)) {
+      nodes.added.push({ key, data: after.graph.nodes.get(index) as N });
+    }
+  }
+
+  const edges: {
+    added: Array<EdgeEntry<K, E>>;
+    removed: Array<EdgeEntry<K, E>>;
+    changed: Array<EdgeChange<K, E>>;
+  } = { added: [], removed: [], changed: [] };
+  const keyOf = (
+    graph: KeyedGraph.KeyedGraph<K, N, E, T>,
+    index: Graph.NodeIndex
+  ) => graph.keyOf(graph.graph.nodes.get(index) as N);
+  const entry = (
+    graph: KeyedGraph.KeyedGraph<K, N, E, T>,
+    edge: Graph.Edge<E>
+  ): EdgeEntry<K, E> => ({
+    source: keyOf(graph, edge.source),
+    target: keyOf(graph, edge.target),
+    data: edge.data,
+  });
+
+  const afterPairs = edgesByPair(after.graph);
+  const seen = new Set<string>();
+  for (const [, group] of edgesByPair(before.graph)) {
+    const [first] = group;
+    if (first === undefined) continue;
+    const source = after.indices.get(keyOf(before, first.source));
+    const target = after.indices.get(keyOf(before, first.target));
+    const id =
+      source === undefined || target === undefined
+        ? undefined
+        : pairId(after.graph.type, source, target);
+    const candidates = id === undefined ? [] : [...(afterPairs.get(id) ?? [])];
+    if (id !== undefined) seen.add(id);
+
+    // Unchanged edges first, so parallel edges pair up with their twins
+    const unmatched = group.filter((edge) => {
+      const twin = candidates.findIndex((candidate) =>
+        edgeEquivalence(edge.data, candidate.data)
+      );
+      if (twin === -1) return true;
+      candidates.splice(twin, 1);
+      return false;
+    });
+    for (const edge of unmatched) {
+      const same = candidates.findIndex((candidate) =>
+        structural(edgeKey(edge.data), edgeKey(candidate.data))
+      );
+      const was = entry(before, edge);
+      if (same === -1) {
+        edges.removed.push(was);
+        continue;
+      }
+      const [now] = candidates.splice(same, 1);
+      if (now !== undefined) {
+        edges.changed.push({
+          source: was.source,
+          target: was.target,
+          before: edge.data,
+          after: now.data,
+        });
+      }
+    }
+    for (const edge of candidates) edges.added.push(entry(after, edge));
+  }
+  for (const [id, group] of afterPairs) {
+    if (seen.has(id)) continue;
+    for (const edge of group) edges.added.push(entry(after, edge));
+  }
+
+  return { nodes, edges };
+};
+
+/** True when `changes` has nothing to apply. */
+export const isEmpty = <K, N, E>(changes: ChangeSet<K, N, E>): boolean =>
+  changes.nodes.added.length === 0 &&
+  changes.nodes.removed.length === 0 &&
+  changes.nodes.changed.length === 0 &&
+  changes.edges.added.length === 0 &&
+  changes.edges.removed.length === 0 &&
+  changes.edges.changed.length === 0;
+
+// ===== PATCH =====
+
+/**
+ * Applies `changes` to `graph`: edges are removed first, then nodes (with
+ * any edges still attached), then nodes are added and updated, then edges.
+ * Removed and changed nodes and edges must still hold their `before` data,
+ * and added nodes must not exist yet; anything else is a `PatchConflict`
+ * and leaves `graph` untouched.
+ */
+export const patch = <K, N, E, T extends Graph.Kind>(
+  graph: KeyedGraph.KeyedGraph<K, N, E, T>,
+  changes: ChangeSet<K, N, E>,
+  options: Omit<Options<N, E>, "edgeKey"> = {}
+): Effect.Effect<KeyedGraph.KeyedGraph<K, N, E, T>, PatchConflict> =>
+  Effect.suspend(() => {
+    const nodeEquivalence = options.nodeEquivalence ?? structural;
+    const edgeEquivalence = options.edgeEquivalence ?? structural;
+    const mutable = Graph.beginMutation(graph.graph);
+    const indices = new Map(graph.indices);
+    const conflicts: Array<string> = [];
+
+    const nodeAt = (key: K, data: N, what: string) => {
+      const index = indices.get(key);
+      if (index === undefined) {
+        conflicts.push(`${what} node ${String(key)} is missing`);
+        return undefined;
+      }
+      if (!nodeEquivalence(mutable.nodes.get(index) as N, data)) {
+        conflicts.push(`${what} node ${String(key)} has different data`);
+        return undefined;
+      }
+      return index;
+    };
+    // The edge joining `source` and `target` whose data equals `data`
+    const edgeAt = (source: K, target: K, data: E, what: string) => {
+      const from = indices.get(source);
+      const to = indices.get(target);
+      if (from !== undefined && to !== undefined) {
+        // Undirected adjacency lists hold the edges of both ends
+        const id = pairId(mutable.type, from, to);
+        for (const index of mutable.adjacency.get(from) ?? []) {
+          const edge = mutable.edges.get(index);
+          if (
+            edge !== undefined &&
+            pairId(mutable.type, edge.source, edge.target) === id &&
+            edgeEquivalence(edge.data, data)
+          ) {
+            return index;
+          }
+        }
+      }
+      conflicts.push(
+        `${what} edge ${String(source)} -> ${String(target)} was not found`
+      );
+      return undefined;
+    };
+
+    for (const edge of changes.edges.removed) {
+      const index = edgeAt(edge.source, edge.target, edge.data, "removed");
+      if (index !== undefined) Graph.removeEdge(mutable, index);
+    }
+    for (const node of changes.nodes.removed) {
+      const index = nodeAt(node.key, node.data, "removed");
+      if (index !== undefined) {
+        Graph.removeNode(mutable, index);
+        indices.delete(node.key);
+      }
+    }
+    for (const node of changes.nodes.added) {
+      if (indices.has(node.key)) {
+        conflicts.push(`added node ${String(node.key)} already exists`);
+        continue;
+      }
+      indices.set(node.key, Graph.addNode(mutable, node.data));
+    }
+    for (const node of changes.nodes.changed) {
+      const index = nodeAt(node.key, node.before, "changed");
+      if (index !== undefined)
+        Graph.updateNode(mutable, index, () => node.after);
+    }
+    for (const edge of changes.edges.changed) {
+      const index = edgeAt(edge.source, edge.target, edge.before, "changed");
+      if (index !== undefined)
+        Graph.updateEdge(mutable, index, () => edge.after);
+    }
+    for (const edge of changes.edges.added) {
+      const source = indices.get(edge.source);
+      const target = indices.get(edge.target);
+      if (source === undefined || target === undefined) {
+        conflicts.push(
+          `added edge ${String(edge.source)} -> ${String(edge.target)} has a missing end`
+        );
+        continue;
+      }
+      Graph.addEdge(mutable, source, target, edge.data);
+    }
+
+    return conflicts.length > 0
+      ? Effect.fail(new PatchConflict({ reason: conflicts.join("; ") }))
+      : Effect.succeed({
+          graph: Graph.endMutation(mutable),
+          keyOf: graph.keyOf,
+          indices,
+        });
+  });
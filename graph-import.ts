@@ -0,0 +1,991 @@
+import { Data, Effect, Either, Graph, ParseResult, Schema } from "effect";
+
+// ============================================================================
+// GRAPH IMPORT
+// ============================================================================
+//
+// Parsers for DOT, GraphML and GEXF that build `Graph.directed` or
+// `Graph.undirected` graphs, depending on what the file declares. Node and
+// edge attributes are first read into plain records and then decoded with a
+// schema, so a file either yields fully typed data or a `GraphParseError`
+// pointing at the line and column of the offending element.
+//
+// DOT attribute values are always strings (use `Schema.NumberFromString` and
+// friends); GraphML and GEXF values come typed as their keys declare. Nodes
+// are decoded from their attributes plus `id`.
+
+// ===== MODELS =====
+
+export type Format = "dot" | "graphml" | "gexf";
+
+export type AttributeValue = string | number | boolean;
+
+export type Attributes = { readonly [name: string]: AttributeValue };
+
+/** Schema accepting any attributes as they are, for untyped imports. */
+export const Attributes: Schema.Schema<Attributes> = Schema.Record({
+  key: Schema.String,
+  value: Schema.Union(Schema.String, Schema.Number, Schema.Boolean),
+});
+
+export type Schemas<N, E, NI, EI> = {
+  readonly node: Schema.Schema<N, NI>;
+  readonly edge: Schema.Schema<E, EI>;
+};
+
+export type Imported<N, E> = {
+  readonly graph: Graph.DirectedGraph<N, E> | Graph.UndirectedGraph<N, E>;
+  // Node id used in the file -> index in `graph`
+  readonly ids: ReadonlyMap<string, Graph.NodeIndex>;
+  // Graph id from the file, when it has one
+  readonly name: string | undefined;
+};
+
+export class GraphParseError extends Data.TaggedError("GraphParseError")<{
+  readonly format: Format;
+  readonly reason: string;
+  // 1-based position in the source text
+  readonly line: number;
+  readonly column: number;
+}> {
+  override get message() {
+    return `Invalid ${this.format}: ${this.reason} at line ${this.line}, column ${this.column}`;
+  }
+}
+
+// What every parser produces before decoding; `offset` locates errors
+type RawNode = {
+  readonly id: string;
+  readonly attributes: Record<string, AttributeValue>;
+  readonly offset: number;
+};
+type RawEdge = {
+  readonly source: string;
+  readonly target: string;
+  readonly attributes: Record<string, AttributeValue>;
+  readonly offset: number;
+};
+type RawGraph = {
+  readonly directed: boolean;
+  readonly name: string | undefined;
+  readonly nodes: ReadonlyArray<RawNode>;
+  readonly edges: ReadonlyArray<RawEdge>;
+};
+
+// Thrown inside the hand-written parsers and turned into a
+// `GraphParseError` at the entry points
+class Stop {
+  constructor(
+    readonly reason: string,
+    readonly offset: number
+  ) {}
+}
+
+// ===== SHARED =====
+
+const locate = (text: string, offset: number) => {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < Math.min(offset, text.length); i++) {
+    if (text[i] === "\n") {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+};
+
+const decode = <A, I>(
+  schema: Schema.Schema<A, I>,
+  input: unknown,
+  what: string,
+  offset: number
+): A => {
+  const result = Schema.decodeUnknownEither(schema)(input);
+  if (Either.isLeft(result)) {
+    throw new Stop(
+      `${what} does not match the schema: ${ParseResult.TreeFormatter.formatErrorSync(result.left)}`,
+      offset
+    );
+  }
+  return result.right;
+};
+
+const build = <N, E, NI, EI>(
+  raw: RawGraph,
+  schemas: Schemas<N, E, NI, EI>
+): Imported<N, E> => {
+  const nodes = raw.nodes.map((node) =>
+    decode(
+      schemas.node,
+      { ...node.attributes, id: node.id },
+      `Node "${node.id}"`,
+      node.offset
+    )
+  );
+  const known = new Set(raw.nodes.map((node) => node.id));
+  const edges = raw.edges.map((edge) => {
+    for (const end of [edge.source, edge.target]) {
+      if (!known.has(end)) {
+        throw new Stop(`Edge refers to unknown node "${end}"`, edge.offset);
+      }
+    }
+    return decode(
+      schemas.edge,
+      edge.attributes,
+      `Edge "${edge.source}" -> "${edge.target}"`,
+      edge.offset
+    );
+  });
+
+  const ids = new Map<string, Graph.NodeIndex>();
+  const fill = <T extends Graph.Kind>(mutable: Graph.MutableGraph<N, E, T>) => {
+    raw.nodes.forEach((node, i) => {
+      const data = nodes[i];
+      if (data !== undefined) ids.set(node.id, Graph.addNode(mutable, data));
+    });
+    raw.edges.forEach((edge, i) => {
+      const source = ids.get(edge.source);
+      const target = ids.get(edge.target);
+      const data = edges[i];
+      if (source !== undefined && target !== undefined && data !== undefined) {
+        Graph.addEdge(mutable, source, target, data);
+      }
+    });
+  };
+  const graph = raw.directed
+    ? Graph.directed<N, E>(fill)
+    : Graph.undirected<N, E>(fill);
+  return { graph, ids, name: raw.name };
+};
+
+// Parse, decode and build, turning parser failures into `GraphParseError`
+const run = <N, E, NI, EI>(
+  format: Format,
+  text: string,
+  parse: (text: string) => RawGraph,
+  schemas: Schemas<N, E, NI, EI>
+): Effect.Effect<Imported<N, E>, GraphParseError> =>
+  Effect.suspend(() => {
+    try {
+      return Effect.succeed(build(parse(text), schemas));
+    } catch (error) {
+      if (!(error instanceof Stop)) throw error;
+      return Effect.fail(
+        new GraphParseError({
+          format,
+          reason: error.reason,
+          ...locate(text, error.offset),
+        })
+      );
+    }
+  });
+
+// Runs the sticky `pattern` at `offset`, without copying the rest of `text`
+const matchAt = (pattern: RegExp, text: string, offset: number) => {
+  pattern.lastIndex = offset;
+  return pattern.exec(text);
+};
+
+// ===== DOT =====
+
+type Token =
+  | {
+      readonly kind: "id";
+      readonly value: string;
+      // Quoted and HTML strings are never keywords
+      readonly quoted: boolean;
+      readonly offset: number;
+    }
+  | {
+      readonly kind: "symbol";
+      // { } [ ] ; , = : -> --
+      readonly value: string;
+      readonly offset: number;
+    }
+  | { readonly kind: "end"; readonly offset: number };
+
+const isIdStart = (c: string) => /[A-Za-z_\u0080-\uffff]/.test(c);
+const isIdPart = (c: string) => /[A-Za-z_0-9\u0080-\uffff]/.test(c);
+
+const tokenize = (text: string): Array<Token> => {
+  const tokens: Array<Token> = [];
+  let i = 0;
+  let lineStart = true;
+
+  // Body of a double-quoted string starting at `start`, escapes resolved
+  const quoted = (start: number): [string, number] => {
+    let value = "";
+    let j = start + 1;
+    while (j < text.length && text[j] !== '"') {
+      if (text[j] === "\\" && text[j + 1] === '"') {
+        value += '"';
+        j += 2;
+      } else if (text[j] === "\\" && text[j + 1] === "\n") {
+        j += 2;
+      } else {
+        value += text[j];
+        j++;
+      }
+    }
+    if (j >= text.length) throw new Stop("Unterminated string", start);
+    return [value, j + 1];
+  };
+
+  while (i < text.length) {
+    const c = text[i] ?? "";
+    if (c === "\n") {
+      lineStart = true;
+      i++;
+      continue;
+    }
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    // Preprocessor output lines are ignored
+    if (c === "#" && lineStart) {
+      while (i < text.length && text[i] !== "\n") i++;
+      continue;
+    }
+    lineStart = false;
+    if (c === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+      continue;
+    }
+    if (c === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      if (end === -1) throw new Stop("Unterminated comment", i);
+      i = end + 2;
+      continue;
+    }
+    if (c === "-" && (text[i + 1] === ">" || text[i + 1] === "-")) {
+      tokens.push({ kind: "symbol", value: text.slice(i, i + 2), offset: i });
+      i += 2;
+      continue;
+    }
+    if ("{}[];,=:".includes(c)) {
+      tokens.push({ kind: "symbol", value: c, offset: i });
+      i++;
+      continue;
+    }
+    if (c === '"') {
+      // "a" + "b" is one string
+      let [value, rest] = quoted(i);
+      while (true) {
+        const plus = matchAt(/\s*\+\s*"/y, text, rest);
+        if (plus === null) break;
+        const [more, after] = quoted(rest + plus[0].length - 1);
+        value += more;
+        rest = after;
+      }
+      tokens.push({ kind: "id", value, quoted: true, offset: i });
+      i = rest;
+      continue;
+    }
+    if (c === "<") {
+      let depth = 0;
+      let j = i;
+      do {
+        if (text[j] === "<") depth++;
+        else if (text[j] === ">") depth--;
+        j++;
+      } while (depth > 0 && j < text.length);
+      if (depth > 0) throw new Stop("Unterminated HTML string", i);
+      tokens.push({
+        kind: "id",
+        value: text.slice(i + 1, j - 1),
+        quoted: true,
+        offset: i,
+      });
+      i = j;
+      continue;
+    }
+    const numeral = matchAt(/-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)/y, text, i);
+    if (numeral !== null) {
+      tokens.push({ kind: "id", value: numeral[0], quoted: false, offset: i });
+      i += numeral[0].length;
+      continue;
+    }
+    if (isIdStart(c)) {
+      let j = i + 1;
+      while (j < text.length && isIdPart(text[j] ?? "")) j++;
+      tokens.push({
+        kind: "id",
+        value: text.slice(i, j),
+        quoted: false,
+        offset: i,
+      });
+      i = j;
+      continue;
+    }
+    throw new Stop(`Unexpected character "${c}"`, i);
+  }
+  tokens.push({ kind: "end", offset: text.length });
+  return tokens;
+};
+
+const parseDot = (text: string): RawGraph => {
+  const tokens = tokenize(text);
+  let position = 0;
+  const peek = (ahead = 0): Token =>
+    tokens[Math.min(position + ahead, tokens.length - 1)] ?? {
+      kind: "end",
+      offset: text.length,
+    };
+  const next = () => {
+    const token = peek();
+    position++;
+    return token;
+  };
+  const isKeyword = (token: Token, keyword: string) =>
+    token.kind === "id" &&
+    !token.quoted &&
+    token.value.toLowerCase() === keyword;
+  const isSymbol = (token: Token, symbol: string) =>
+    token.kind === "symbol" && token.value === symbol;
+  const expectSymbol = (symbol: string) => {
+    const token = next();
+    if (!isSymbol(token, symbol)) {
+      throw new Stop(`Expected "${symbol}"`, token.offset);
+    }
+  };
+  const expectId = (what: string) => {
+    const token = next();
+    if (token.kind !== "id") throw new Stop(`Expected ${what}`, token.offset);
+    return token;
+  };
+
+  let strict = false;
+  if (isKeyword(peek(), "strict")) {
+    strict = true;
+    next();
+  }
+  const header = next();
+  const directed = isKeyword(header, "digraph");
+  if (!directed && !isKeyword(header, "graph")) {
+    throw new Stop('Expected "graph" or "digraph"', header.offset);
+  }
+  const name = peek().kind === "id" ? expectId("graph name").value : undefined;
+
+  const nodes = new Map<string, RawNode>();
+  const edges: Array<RawEdge> = [];
+  // Strict graphs merge repeated edges
+  const edgeByEnds = new Map<string, RawEdge>();
+
+  type Scope = {
+    node: Record<string, AttributeValue>;
+    edge: Record<string, AttributeValue>;
+  };
+
+  const attributeList = () => {
+    const attributes: Record<string, string> = {};
+    while (isSymbol(peek(), "[")) {
+      next();
+      while (!isSymbol(peek(), "]")) {
+        const key = expectId("attribute name");
+        expectSymbol("=");
+        attributes[key.value] = expectId("attribute value").value;
+        if (isSymbol(peek(), ";") || isSymbol(peek(), ",")) next();
+      }
+      next();
+    }
+    return attributes;
+  };
+
+  const mention = (id: string, offset: number, scope: Scope) => {
+    if (!nodes.has(id)) {
+      nodes.set(id, { id, attributes: { ...scope.node }, offset });
+    }
+  };
+
+  const nodeId = (scope: Scope) => {
+    const token = expectId("node id");
+    // Ports only matter for drawing
+    if (isSymbol(peek(), ":")) {
+      next();
+      expectId("port");
+      if (isSymbol(peek(), ":")) {
+        next();
+        expectId("compass point");
+      }
+    }
+    mention(token.value, token.offset, scope);
+    return token.value;
+  };
+
+  // Returns every node mentioned in the block, for edges to subgraphs
+  const statements = (scope: Scope): Set<string> => {
+    const mentioned = new Set<string>();
+    while (!isSymbol(peek(), "}")) {
+      if (peek().kind === "end") throw new Stop('Expected "}"', peek().offset);
+      for (const id of statement(scope)) mentioned.add(id);
+      if (isSymbol(peek(), ";")) next();
+    }
+    return mentioned;
+  };
+
+  const subgraph = (scope: Scope) => {
+    if (isKeyword(peek(), "subgraph")) {
+      next();
+      if (peek().kind === "id") next();
+    }
+    expectSymbol("{");
+    const inner = statements({
+      node: { ...scope.node },
+      edge: { ...scope.edge },
+    });
+    expectSymbol("}");
+    return inner;
+  };
+
+  // One endpoint of an edge: a node or every node of a subgraph
+  const operand = (scope: Scope): Array<string> =>
+    isKeyword(peek(), "subgraph") || isSymbol(peek(), "{")
+      ? [...subgraph(scope)]
+      : [nodeId(scope)];
+
+  const statement = (scope: Scope): Array<string> => {
+    const token = peek();
+    for (const kind of ["graph", "node", "edge"] as const) {
+      if (isKeyword(token, kind) && isSymbol(peek(1), "[")) {
+        next();
+        const attributes = attributeList();
+        if (kind === "node") Object.assign(scope.node, attributes);
+        if (kind === "edge") Object.assign(scope.edge, attributes);
+        return [];
+      }
+    }
+    // Graph attribute, e.g. rankdir=LR
+    if (token.kind === "id" && isSymbol(peek(1), "=")) {
+      next();
+      next();
+      expectId("attribute value");
+      return [];
+    }
+
+    const chain = [operand(scope)];
+    const ops: Array<Token> = [];
+    while (isSymbol(peek(), "->") || isSymbol(peek(), "--")) {
+      const op = next();
+      if ((op.kind === "symbol" && op.value === "->") !== directed) {
+        throw new Stop(
+          directed ? 'Use "->" in a digraph' : 'Use "--" in a graph',
+          op.offset
+        );
+      }
+      ops.push(op);
+      chain.push(operand(scope));
+    }
+    const attributes = attributeList();
+
+    if (ops.length === 0) {
+      const [id] = chain[0] ?? [];
+      const node = id === undefined ? undefined : nodes.get(id);
+      if (node !== undefined) Object.assign(node.attributes, attributes);
+      return chain.flat();
+    }
+    ops.forEach((op, i) => {
+      for (const source of chain[i] ?? []) {
+        for (const target of chain[i + 1] ?? []) {
+          const ends = directed
+            ? `${source}\u0000${target}`
+            : [source, target].sort().join("\u0000");
+          const existing = strict ? edgeByEnds.get(ends) : undefined;
+          if (existing !== undefined) {
+            Object.assign(existing.attributes, attributes);
+            continue;
+          }
+          const edge = {
+            source,
+            target,
+            attributes: { ...scope.edge, ...attributes },
+            offset: op.offset,
+          };
+          edges.push(edge);
+          edgeByEnds.set(ends, edge);
+        }
+      }
+    });
+    return chain.flat();
+  };
+
+  expectSymbol("{");
+  statements({ node: {}, edge: {} });
+  expectSymbol("}");
+  const trailing = peek();
+  if (trailing.kind !== "end") {
+    throw new Stop("Unexpected content after the graph", trailing.offset);
+  }
+  return { directed, name, nodes: [...nodes.values()], edges };
+};
+
+/**
+ * Reads a Graphviz DOT graph: node and edge statements, edge chains,
+ * subgraphs as edge endpoints, `node [...]` / `edge [...]` defaults scoped
+ * to their subgraph, and `strict` edge merging. Ports and graph attributes
+ * are ignored.
+ */
+export const fromDot = <N, E, NI, EI>(
+  text: string,
+  schemas: Schemas<N, E, NI, EI>
+): Effect.Effect<Imported<N, E>, GraphParseError> =>
+  run("dot", text, parseDot, schemas);
+
+// ===== XML =====
+
+type XmlElement = {
+  // Without namespace prefix
+  readonly name: string;
+  readonly attributes: ReadonlyMap<string, string>;
+  readonly children: ReadonlyArray<XmlElement>;
+  readonly text: string;
+  readonly offset: number;
+};
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const unescapeXml = (value: string, offset: number) =>
+  value.replace(
+    /&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g,
+    (reference: string, entity: string, position: number) => {
+      if (entity.startsWith("#")) {
+        const code = entity.startsWith("#x")
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+        // Unicode scalar values only: no surrogates, nothing past U+10FFFF
+        if (code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+          throw new Stop(
+            `Invalid character reference "${reference}"`,
+            offset + position
+          );
+        }
+        return String.fromCodePoint(code);
+      }
+      const character = ENTITIES[entity];
+      if (character === undefined) {
+        throw new Stop(`Unknown entity "${reference}"`, offset + position);
+      }
+      return character;
+    }
+  );
+
+const localName = (name: string) => name.slice(name.indexOf(":") + 1);
+
+// Just enough XML for graph files: elements, attributes, text, comments,
+// CDATA; declarations and doctypes are skipped
+const parseXml = (text: string): XmlElement => {
+  type Open = {
+    name: string;
+    attributes: Map<string, string>;
+    children: Array<XmlElement>;
+    text: string;
+    offset: number;
+  };
+  const stack: Array<Open> = [];
+  let root: XmlElement | undefined;
+  let i = 0;
+
+  const close = (element: Open) => {
+    const done: XmlElement = { ...element, name: localName(element.name) };
+    const parent = stack[stack.length - 1];
+    if (parent !== undefined) parent.children.push(done);
+    else if (root === undefined) root = done;
+    else throw new Stop("More than one root element", element.offset);
+  };
+
+  while (i < text.length) {
+    if (text[i] !== "<") {
+      const end = text.indexOf("<", i);
+      const stop = end === -1 ? text.length : end;
+      const content = text.slice(i, stop);
+      const parent = stack[stack.length - 1];
+      if (parent !== undefined) parent.text += unescapeXml(content, i);
+      else if (content.trim() !== "") {
+        throw new Stop("Text outside the root element", i);
+      }
+      i = stop;
+      continue;
+    }
+    const skipTo = (marker: string, what: string) => {
+      const end = text.indexOf(marker, i);
+      if (end === -1) throw new Stop(`Unterminated ${what}`, i);
+      return end + marker.length;
+    };
+    if (text.startsWith("<!--", i)) {
+      i = skipTo("-->", "comment");
+      continue;
+    }
+    if (text.startsWith("<![CDATA[", i)) {
+      const end = skipTo("]]>", "CDATA section");
+      const parent = stack[stack.length - 1];
+      if (parent !== undefined) parent.text += text.slice(i + 9, end - 3);
+      i = end;
+      continue;
+    }
+    if (text.startsWith("<?", i)) {
+      i = skipTo("?>", "declaration");
+      continue;
+    }
+    if (text.startsWith("<!", i)) {
+      i = skipTo(">", "doctype");
+      continue;
+    }
+    if (text[i + 1] === "/") {
+      const end = skipTo(">", "end tag");
+      const name = text.slice(i + 2, end - 1).trim();
+      const open = stack.pop();
+      if (open === undefined || open.name !== name) {
+        throw new Stop(
+          open === undefined
+            ? `Unexpected </${name}>`
+            : `Expected </${open.name}> but found </${name}>`,
+          i
+        );
+      }
+      close(open);
+      i = end;
+      continue;
+    }
+
+    const start = i;
+    const tag = matchAt(/<([A-Za-z_][\w.:-]*)/y, text, i);
+    if (tag === null) throw new Stop("Invalid tag", i);
+    i += tag[0].length;
+    const attributes = new Map<string, string>();
+    while (true) {
+      const space = matchAt(/\s*/y, text, i);
+      i += space?.[0].length ?? 0;
+      if (text.startsWith("/>", i) || text[i] === ">") break;
+      const attribute = matchAt(
+        /([A-Za-z_][\w.:-]*)\s*=\s*("([^"]*)"|'([^']*)')/y,
+        text,
+        i
+      );
+      if (attribute === null) {
+        throw new Stop(
+          i >= text.length ? "Unterminated tag" : "Invalid attribute",
+          i
+        );
+      }
+      const raw = attribute[3] ?? attribute[4] ?? "";
+      // The value ends just before the closing quote
+      const valueOffset = i + attribute[0].length - 1 - raw.length;
+      attributes.set(attribute[1] ?? "", unescapeXml(raw, valueOffset));
+      i += attribute[0].length;
+    }
+    const element: Open = {
+      name: tag[1] ?? "",
+      attributes,
+      children: [],
+      text: "",
+      offset: start,
+    };
+    if (text.startsWith("/>", i)) {
+      close(element);
+      i += 2;
+    } else {
+      stack.push(element);
+      i += 1;
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed !== undefined) {
+    throw new Stop(`Unclosed <${unclosed.name}>`, unclosed.offset);
+  }
+  if (root === undefined) throw new Stop("No root element", 0);
+  return root;
+};
+
+const childrenNamed = (element: XmlElement, name: string) =>
+  element.children.filter((child) => child.name === name);
+
+const required = (element: XmlElement, attribute: string) => {
+  const value = element.attributes.get(attribute);
+  if (value === undefined) {
+    throw new Stop(
+      `<${element.name}> is missing "${attribute}"`,
+      element.offset
+    );
+  }
+  return value;
+};
+
+// Converts an attribute value to the type its declaration names
+const typed = (value: string, type: string, offset: number): AttributeValue => {
+  switch (type) {
+    case "int":
+    case "integer":
+    case "long": {
+      // Decimal digits only: `Number` reads "" as 0 and lets hex and
+      // exponents through
+      const v = value.trim();
+      if (v === "" || !/^[+-]?\d+$/.test(v)) {
+        throw new Stop(`Expected an integer, got "${value}"`, offset);
+      }
+      return Number(v);
+    }
+    case "float":
+    case "double": {
+      // Decimals with an optional exponent, and XML Schema's INF, -INF and
+      // NaN; `Number` would also take hex and "Infinity"
+      const v = value.trim();
+      if (v === "INF" || v === "+INF") return Number.POSITIVE_INFINITY;
+      if (v === "-INF") return Number.NEGATIVE_INFINITY;
+      if (v === "NaN") return Number.NaN;
+      if (!/^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/.test(v)) {
+        throw new Stop(`Expected a number, got "${value}"`, offset);
+      }
+      return Number(v);
+    }
+    case "boolean": {
+      const v = value.trim().toLowerCase();
+      if (v !== "true" && v !== "false") {
+        throw new Stop(`Expected true or false, got "${value}"`, offset);
+      }
+      return v === "true";
+    }
+    default:
+      return value;
+  }
+};
+
+type Declaration = {
+  readonly name: string;
+  readonly type: string;
+  readonly default: string | undefined;
+};
+
+// ===== GRAPHML =====
+
+const parseGraphML = (text: string): RawGraph => {
+  const root = parseXml(text);
+  if (root.name !== "graphml") {
+    throw new Stop("Expected a <graphml> root element", root.offset);
+  }
+  // Key id -> declaration, per domain
+  const keys = {
+    node: new Map<string, Declaration>(),
+    edge: new Map<string, Declaration>(),
+  };
+  for (const key of childrenNamed(root, "key")) {
+    const id = required(key, "id");
+    const domain = key.attributes.get("for") ?? "all";
+    const [defaultElement] = childrenNamed(key, "default");
+    const declaration = {
+      name: key.attributes.get("attr.name") ?? id,
+      type: key.attributes.get("attr.type") ?? "string",
+      default: defaultElement?.text,
+    };
+    if (domain === "node" || domain === "all") keys.node.set(id, declaration);
+    if (domain === "edge" || domain === "all") keys.edge.set(id, declaration);
+  }
+
+  const [graph, ...others] = childrenNamed(root, "graph");
+  if (graph === undefined) throw new Stop("Missing <graph>", root.offset);
+  if (others[0] !== undefined) {
+    throw new Stop("Only one <graph> per file is supported", others[0].offset);
+  }
+  const directed =
+    (graph.attributes.get("edgedefault") ?? "directed") === "directed";
+
+  const attributesOf = (
+    element: XmlElement,
+    declarations: ReadonlyMap<string, Declaration>
+  ) => {
+    const attributes: Record<string, AttributeValue> = {};
+    for (const declaration of declarations.values()) {
+      if (declaration.default !== undefined) {
+        attributes[declaration.name] = typed(
+          declaration.default,
+          declaration.type,
+          element.offset
+        );
+      }
+    }
+    for (const data of childrenNamed(element, "data")) {
+      const key = required(data, "key");
+      const declaration = declarations.get(key);
+      if (declaration === undefined) {
+        throw new Stop(`Undeclared key "${key}"`, data.offset);
+      }
+      attributes[declaration.name] = typed(
+        data.text,
+        declaration.type,
+        data.offset
+      );
+    }
+    return attributes;
+  };
+
+  const nodes = childrenNamed(graph, "node").map((node) => {
+    const [nested] = childrenNamed(node, "graph");
+    if (nested !== undefined) {
+      throw new Stop("Nested graphs are not supported", nested.offset);
+    }
+    return {
+      id: required(node, "id"),
+      attributes: attributesOf(node, keys.node),
+      offset: node.offset,
+    };
+  });
+  const edges = childrenNamed(graph, "edge").map((edge) => {
+    const override = edge.attributes.get("directed");
+    if (override !== undefined && (override === "true") !== directed) {
+      throw new Stop(
+        "Mixing directed and undirected edges is not supported",
+        edge.offset
+      );
+    }
+    const id = edge.attributes.get("id");
+    return {
+      source: required(edge, "source"),
+      target: required(edge, "target"),
+      attributes: {
+        ...(id === undefined ? {} : { id }),
+        ...attributesOf(edge, keys.edge),
+      },
+      offset: edge.offset,
+    };
+  });
+  return { directed, name: graph.attributes.get("id"), nodes, edges };
+};
+
+/**
+ * Reads a GraphML document. `<data>` values are converted to the
+ * `attr.type` of their `<key>` and stored under its `attr.name`; key
+ * defaults fill in missing values. Edge ids are passed to the edge schema
+ * as `id`.
+ */
+export const fromGraphML = <N, E, NI, EI>(
+  text: string,
+  schemas: Schemas<N, E, NI, EI>
+): Effect.Effect<Imported<N, E>, GraphParseError> =>
+  run("graphml", text, parseGraphML, schemas);
+
+// ===== GEXF =====
+
+const parseGexf = (text: string): RawGraph => {
+  const root = parseXml(text);
+  if (root.name !== "gexf") {
+    throw new Stop("Expected a <gexf> root element", root.offset);
+  }
+  const [graph] = childrenNamed(root, "graph");
+  if (graph === undefined) throw new Stop("Missing <graph>", root.offset);
+  // GEXF defaults to undirected; "mutual" edges go both ways
+  const edgeType = graph.attributes.get("defaultedgetype") ?? "undirected";
+  const directed = edgeType === "directed";
+
+  // Attribute id -> declaration, per class
+  const declarations = {
+    node: new Map<string, Declaration>(),
+    edge: new Map<string, Declaration>(),
+  };
+  for (const group of childrenNamed(graph, "attributes")) {
+    const domain = group.attributes.get("class") === "edge" ? "edge" : "node";
+    for (const attribute of childrenNamed(group, "attribute")) {
+      const id = required(attribute, "id");
+      const [defaultElement] = childrenNamed(attribute, "default");
+      declarations[domain].set(id, {
+        name: attribute.attributes.get("title") ?? id,
+        type: attribute.attributes.get("type") ?? "string",
+        default: defaultElement?.text,
+      });
+    }
+  }
+
+  const attributesOf = (
+    element: XmlElement,
+    known: ReadonlyMap<string, Declaration>
+  ) => {
+    const attributes: Record<string, AttributeValue> = {};
+    for (const declaration of known.values()) {
+      if (declaration.default !== undefined) {
+        attributes[declaration.name] = typed(
+          declaration.default,
+          declaration.type,
+          element.offset
+        );
+      }
+    }
+    for (const list of childrenNamed(element, "attvalues")) {
+      for (const value of childrenNamed(list, "attvalue")) {
+        const id = required(value, "for");
+        const declaration = known.get(id);
+        if (declaration === undefined) {
+          throw new Stop(`Undeclared attribute "${id}"`, value.offset);
+        }
+        attributes[declaration.name] = typed(
+          required(value, "value"),
+          declaration.type,
+          value.offset
+        );
+      }
+    }
+    return attributes;
+  };
+
+  const nodes = childrenNamed(graph, "nodes")
+    .flatMap((list) => childrenNamed(list, "node"))
+    .map((node) => {
+      const [nested] = childrenNamed(node, "nodes");
+      if (nested !== undefined) {
+        throw new Stop("Hierarchical nodes are not supported", nested.offset);
+      }
+      const label = node.attributes.get("label");
+      return {
+        id: required(node, "id"),
+        attributes: {
+          ...(label === undefined ? {} : { label }),
+          ...attributesOf(node, declarations.node),
+        },
+        offset: node.offset,
+      };
+    });
+  const edges = childrenNamed(graph, "edges")
+    .flatMap((list) => childrenNamed(list, "edge"))
+    .map((edge) => {
+      const type = edge.attributes.get("type");
+      if (type !== undefined && (type === "directed") !== directed) {
+        throw new Stop(
+          "Mixing directed and undirected edges is not supported",
+          edge.offset
+        );
+      }
+      const id = edge.attributes.get("id");
+      const label = edge.attributes.get("label");
+      const weight = edge.attributes.get("weight");
+      return {
+        source: required(edge, "source"),
+        target: required(edge, "target"),
+        attributes: {
+          ...(id === undefined ? {} : { id }),
+          ...(label === undefined ? {} : { label }),
+          ...(weight === undefined
+            ? {}
+            : { weight: typed(weight, "double", edge.offset) }),
+          ...attributesOf(edge, declarations.edge),
+        },
+        offset: edge.offset,
+      };
+    });
+  return { directed, name: undefined, nodes, edges };
+};
+
+/**
+ * Reads a GEXF document. Node `label`s and edge `id`, `label` and `weight`
+ * are passed to the schemas alongside the declared `<attvalues>`, which are
+ * converted to their declared types and stored under their titles.
+ */
+export const fromGexf = <N, E, NI, EI>(
+  text: string,
+  schemas: Schemas<N, E, NI, EI>
+): Effect.Effect<Imported<N, E>, GraphParseError> =>
+  run("gexf", text, parseGexf, schemas);
@@ -0,0 +1,238 @@
+import {
+  Array as Arr,
+  type Effect,
+  Graph,
+  Order,
+  ParseResult,
+  Predicate,
+  Schema,
+} from "effect";
+
+// ============================================================================
+// GRAPH SCHEMA
+// ============================================================================
+//
+// Schema codecs between `Graph.Graph` and a plain JSON shape, so a built
+// graph can be cached on disk or sent to another service instead of being
+// rebuilt by replaying its `Graph.mutate` code. Node and edge payloads go
+// through their own schemas; decoding also checks that indices are unique
+// and that every edge joins two nodes of the graph.
+//
+// Indices are part of the shape and survive a round trip, gaps left by
+// removed nodes and edges included, so indices stored elsewhere (keyed
+// lookups, cached paths) stay valid after reloading.
+
+// ===== MODELS =====
+
+export type EncodedNode<NI> = {
+  readonly index: number;
+  readonly data: NI;
+};
+
+export type EncodedEdge<EI> = {
+  readonly index: number;
+  readonly source: number;
+  readonly target: number;
+  readonly data: EI;
+};
+
+export type Encoded<NI, EI, T extends Graph.Kind = Graph.Kind> = {
+  readonly type: T;
+  // Ascending by index
+  readonly nodes: ReadonlyArray<EncodedNode<NI>>;
+  readonly edges: ReadonlyArray<EncodedEdge<EI>>;
+};
+
+// ===== BUILDING =====
+
+const isGraph = (u: unknown): u is Graph.Graph<unknown, unknown, Graph.Kind> =>
+  Predicate.hasProperty(u, Graph.TypeId) &&
+  Predicate.hasProperty(u, "mutable") &&
+  u.mutable === false;
+
+// Problems with indices and endpoints, reported at their path
+const check = <N, E>(
+  encoded: Encoded<N, E>,
+  ast: Schema.Schema.AnyNoContext["ast"]
+): Array<ParseResult.ParseIssue> => {
+  const issues: Array<ParseResult.ParseIssue> = [];
+  const at = (path: ParseResult.Path, actual: unknown, message: string) =>
+    issues.push(
+      new ParseResult.Pointer(
+        path,
+        encoded,
+        new ParseResult.Type(ast, actual, message)
+      )
+    );
+
+  const nodes = new Set<number>();
+  encoded.nodes.forEach((node, i) => {
+    if (nodes.has(node.index)) {
+      at(
+        ["nodes", i, "index"],
+        node.index,
+        `Duplicate node index ${node.index}`
+      );
+    }
+    nodes.add(node.index);
+  });
+  const edges = new Set<number>();
+  encoded.edges.forEach((edge, i) => {
+    if (edges.has(edge.index)) {
+      at(
+        ["edges", i, "index"],
+        edge.index,
+        `Duplicate edge index ${edge.index}`
+      );
+    }
+    edges.add(edge.index);
+    for (const end of ["source", "target"] as const) {
+      if (!nodes.has(edge[end])) {
+        at(["edges", i, end], edge[end], `No node with index ${edge[end]}`);
+      }
+    }
+  });
+  return issues;
+};
+
+const byIndex = Order.mapInput(
+  Order.number,
+  (item: { readonly index: number }) => item.index
+);
+
+// Rebuilds the graph at the encoded indices. `Graph.addNode` and
+// `Graph.addEdge` hand out the next index of the graph, so it is moved past
+// each gap first rather than filling the gap with placeholders: a gap can be
+// as large as the index itself.
+const build = <N, E, T extends Graph.Kind>(
+  encoded: Encoded<N, E, T>
+): Graph.Graph<N, E, T> => {
+  // Same type as declared by `encoded.type`
+  const empty = (
+    encoded.type === "directed"
+      ? Graph.directed<N, E>()
+      : Graph.undirected<N, E>()
+  ) as Graph.Graph<N, E, T>;
+  const nodes = Arr.sort(encoded.nodes, byIndex);
+  const edges = Arr.sort(encoded.edges, byIndex);
+
+  return Graph.mutate(empty, (mutable) => {
+    for (const node of nodes) {
+      mutable.nextNodeIndex = node.index;
+      Graph.addNode(mutable, node.data);
+    }
+    for (const edge of edges) {
+      mutable.nextEdgeIndex = edge.index;
+      Graph.addEdge(mutable, edge.source, edge.target, edge.data);
+    }
+  });
+};
+
+// ===== CODECS =====
+
+const make = <N, NI, NR, E, EI, ER, T extends Graph.Kind>(
+  node: Schema.Schema<N, NI, NR>,
+  edge: Schema.Schema<E, EI, ER>,
+  kinds: readonly [T, ...Array<T>]
+): Schema.Schema<Graph.Graph<N, E, T>, Encoded<NI, EI, T>, NR | ER> => {
+  const Index = Schema.NonNegativeInt;
+  const from = Schema.Struct({
+    type: Schema.Literal(...kinds),
+    nodes: Schema.Array(
+      Schema.Struct({ index: Index, data: node }).annotations({
+        identifier: "EncodedNode",
+      })
+    ),
+    edges: Schema.Array(
+      Schema.Struct({
+        index: Index,
+        source: Index,
+        target: Index,
+        data: edge,
+      }).annotations({ identifier: "EncodedEdge" })
+    ),
+  }).annotations({ identifier: "EncodedGraph" });
+  const to = Schema.declare(
+    (u): u is Graph.Graph<N, E, T> =>
+      isGraph(u) && (kinds as ReadonlyArray<Graph.Kind>).includes(u.type),
+    { identifier: `Graph<${kinds.join(" | ")}>` }
+  );
+  return Schema.transformOrFail(from, to, {
+    strict: true,
+    decode: (encoded, _, ast) => {
+      const [first, ...rest] = check(encoded, ast);
+      return first === undefined
+        ? ParseResult.succeed(build(encoded))
+        : ParseResult.fail(
+            rest.length === 0
+              ? first
+              : new ParseResult.Composite(ast, encoded, [first, ...rest])
+          );
+    },
+    encode: (graph) =>
+      ParseResult.succeed({
+        type: graph.type,
+        nodes: Arr.sort(
+          Array.from(graph.nodes, ([index, data]) => ({ index, data })),
+          byIndex
+        ),
+        edges: Arr.sort(
+          Array.from(graph.edges, ([index, edge]) => ({
+            index,
+            source: edge.source,
+            target: edge.target,
+            data: edge.data,
+          })),
+          byIndex
+        ),
+      }),
+  });
+};
+
+/**
+ * Codec for directed and undirected graphs alike; the encoded `type` picks
+ * which one is decoded. Wrap it in `Schema.parseJson` to go to and from a
+ * JSON string.
+ */
+export const GraphSchema = <N, NI, NR, E, EI, ER>(
+  node: Schema.Schema<N, NI, NR>,
+  edge: Schema.Schema<E, EI, ER>
+): Schema.Schema<Graph.Graph<N, E, Graph.Kind>, Encoded<NI, EI>, NR | ER> =>
+  make(node, edge, ["directed", "undirected"]);
+
+/** Like `GraphSchema`, rejecting undirected graphs. */
+export const DirectedGraphSchema = <N, NI, NR, E, EI, ER>(
+  node: Schema.Schema<N, NI, NR>,
+  edge: Schema.Schema<E, EI, ER>
+): Schema.Schema<
+  Graph.DirectedGraph<N, E>,
+  Encoded<NI, EI, "directed">,
+  NR | ER
+> => make(node, edge, ["directed"]);
+
+/** Like `GraphSchema`, rejecting directed graphs. */
+export const UndirectedGraphSchema = <N, NI, NR, E, EI, ER>(
+  node: Schema.Schema<N, NI, NR>,
+  edge: Schema.Schema<E, EI, ER>
+): Schema.Schema<
+  Graph.UndirectedGraph<N, E>,
+  Encoded<NI, EI, "undirected">,
+  NR | ER
+> => make(node, edge, ["undirected"]);
+
+/** Encodes `graph` as a JSON string, two-space indented when `pretty`. */
+export const toJson = <N, E, T extends Graph.Kind, I, R>(
+  schema: Schema.Schema<Graph.Graph<N, E, T>, I, R>,
+  graph: Graph.Graph<N, E, T>,
+  options: { readonly pretty?: boolean } = {}
+): Effect.Effect<string, ParseResult.ParseError, R> =>
+  Schema.encode(
+    Schema.parseJson(schema, { space: options.pretty ? 2 : undefined })
+  )(graph);
+
+/** Decodes a graph from a JSON string produced by `toJson`. */
+export const fromJson = <N, E, T extends Graph.Kind, I, R>(
+  schema: Schema.Schema<Graph.Graph<N, E, T>, I, R>,
+  json: string
+): Effect.Effect<Graph.Graph<N, E, T>, ParseResult.ParseError, R> =>
+  Schema.decode(Schema.parseJson(schema))(json);
@@ -0,0 +1,191 @@
+import { Chunk, Effect, Graph, Metric, Stream } from "effect";
+import * as KeyedGraph from "./keyed-graph.ts";
+
+// ============================================================================
+// STREAMING GRAPH BUILDER
+// ============================================================================
+//
+// Builds a keyed graph from a `Stream` of edge records, for edge lists too
+// large to hold in memory as one array. Records are applied a chunk at a
+// time to a single mutable graph; the stream is only pulled once the
+// previous chunk is in, so a fast producer is held back by a bounded
+// read-ahead buffer instead of piling records up in memory.
+//
+// Nodes are de-duplicated by key: the first record that mentions a key
+// creates its node, later ones reuse it. Progress is reported through
+// Effect metrics (exported by the OpenTelemetry layer) and an optional
+// callback for logging.
+
+// ===== MODELS =====
+
+export type EdgeRecord<K, E> = {
+  readonly source: K;
+  readonly target: K;
+  readonly data: E;
+};
+
+export type Progress = {
+  readonly records: number;
+  // Records dropped because `node` returned undefined for an endpoint
+  readonly skipped: number;
+  readonly nodes: number;
+  readonly edges: number;
+  readonly elapsedMillis: number;
+  readonly recordsPerSecond: number;
+};
+
+export type Options<K, N> = {
+  // Data for a key seen for the first time; undefined skips the record
+  readonly node: (key: K) => N | undefined;
+  // Records applied per mutation step, defaults to 4096
+  readonly chunkSize?: number;
+  // Chunks read ahead of the builder, defaults to 4
+  readonly bufferChunks?: number;
+  // Records between progress reports, defaults to 100 000; a final report
+  // always follows the last record
+  readonly progressEvery?: number;
+  readonly onProgress?: (progress: Progress) => Effect.Effect<void>;
+  // `builder` tag on the metrics, to tell several builds apart
+  readonly name?: string;
+};
+
+// ===== METRICS =====
+
+export const recordsProcessed = Metric.counter("graph_builder_records", {
+  description: "Edge records read by the streaming graph builder",
+  incremental: true,
+});
+
+export const recordsSkipped = Metric.counter("graph_builder_records_skipped", {
+  description: "Edge records dropped for an endpoint without node data",
+  incremental: true,
+});
+
+export const nodesAdded = Metric.counter("graph_builder_nodes", {
+  description: "Nodes created by the streaming graph builder",
+  incremental: true,
+});
+
+export const edgesAdded = Metric.counter("graph_builder_edges", {
+  description: "Edges created by the streaming graph builder",
+  incremental: true,
+});
+
+// ===== BUILDING =====
+
+/**
+ * Adds every record of `records` to `initial` and returns the resulting
+ * immutable keyed graph. Nodes already in `initial` are reused by key, so a
+ * graph seeded with its nodes can be completed from an edge stream. Stream
+ * failures end the build with the stream's error.
+ */
+export const fromEdges = <K, N, E, T extends Graph.Kind, Err, R>(
+  initial: KeyedGraph.KeyedGraph<K, N, E, T>,
+  records: Stream.Stream<EdgeRecord<K, E>, Err, R>,
+  options: Options<K, N>
+): Effect.Effect<KeyedGraph.KeyedGraph<K, N, E, T>, Err, R> =>
+  Effect.suspend(() => {
+    const chunkSize = options.chunkSize ?? 4096;
+    const progressEvery = options.progressEvery ?? 100_000;
+    const tag = (metric: Metric.Metric.Counter<number>) =>
+      options.name === undefined
+        ? metric
+        : Metric.tagged(metric, "builder", options.name);
+    const metrics = {
+      records: tag(recordsProcessed),
+      skipped: tag(recordsSkipped),
+      nodes: tag(nodesAdded),
+      edges: tag(edgesAdded),
+    };
+
+    const mutable: KeyedGraph.MutableKeyedGraph<K, N, E, T> = {
+      graph: Graph.beginMutation(initial.graph),
+      keyOf: initial.keyOf,
+      indices: new Map(initial.indices),
+    };
+    const started = Date.now();
+    let read = 0;
+    let skipped = 0;
+    let nextReport = progressEvery;
+    let reported = -1;
+
+    // Index of the node for `key`, created on first sight
+    const indexFor = (key: K): Graph.NodeIndex | undefined => {
+      const existing = mutable.indices.get(key);
+      if (existing !== undefined) return existing;
+      const data = options.node(key);
+      return data === undefined ? undefined : KeyedGraph.addNode(mutable, data);
+    };
+
+    const progress = (): Progress => {
+      const elapsedMillis = Date.now() - started;
+      return {
+        records: read,
+        skipped,
+        nodes: mutable.graph.nodes.size,
+        edges: mutable.graph.edges.size,
+        elapsedMillis,
+        recordsPerSecond:
+          elapsedMillis === 0 ? read : (read * 1000) / elapsedMillis,
+      };
+    };
+    const report = Effect.suspend(() => {
+      if (options.onProgress === undefined || reported === read) {
+        return Effect.void;
+      }
+      reported = read;
+      return options.onProgress(progress());
+    });
+
+    const apply = (chunk: Chunk.Chunk<EdgeRecord<K, E>>) =>
+      Effect.suspend(() => {
+        const nodesBefore = mutable.graph.nodes.size;
+        let edges = 0;
+        let dropped = 0;
+        for (const record of chunk) {
+          const source = indexFor(record.source);
+          const target = indexFor(record.target);
+          if (source === undefined || target === undefined) {
+            dropped++;
+            continue;
+          }
+          Graph.addEdge(mutable.graph, source, target, record.data);
+          edges++;
+        }
+        read += Chunk.size(chunk);
+        skipped += dropped;
+        const reached = read >= nextReport;
+        while (nextReport <= read) nextReport += progressEvery;
+
+        return Effect.all(
+          [
+            Metric.incrementBy(metrics.records, Chunk.size(chunk)),
+            Metric.incrementBy(metrics.skipped, dropped),
+            Metric.incrementBy(
+              metrics.nodes,
+              mutable.graph.nodes.size - nodesBefore
+            ),
+            Metric.incrementBy(metrics.edges, edges),
+            reached ? report : Effect.void,
+          ],
+          { discard: true }
+        );
+      });
+
+    return records.pipe(
+      Stream.rechunk(chunkSize),
+      Stream.bufferChunks({ capacity: options.bufferChunks ?? 4 }),
+      Stream.runForEachChunk(apply),
+      Effect.zipRight(report),
+      Effect.zipRight(
+        Effect.sync(() => ({
+          graph: Graph.endMutation(mutable.graph),
+          keyOf: mutable.keyOf,
+          indices: mutable.indices,
+        }))
+      ),
+      Effect.withSpan("GraphStream.fromEdges", {
+        attributes: { builder: options.name ?? "default" },
+      })
+    );
+  });
@@ -0,0 +1,597 @@
+import { Data, Effect, Graph, Option } from "effect";
+import * as KeyedGraph from "./keyed-graph.ts";
+import * as PriorityQueue from "./priority-queue.ts";
+
+// ============================================================================
+// GRID NAVIGATION
+// ============================================================================
+//
+// Tile maps for game-style pathfinding. A grid stores the cost of entering
+// each cell (undefined for walls) and is parsed from ASCII art or a matrix of
+// numbers. `toGraph` turns it into a keyed graph for `Graph.astar` and
+// friends; `jumpPointSearch` searches the grid directly and skips over the
+// runs of open cells that make A* on open maps slow.
+//
+// Moving into a cell costs its terrain cost times the step length (1 for
+// straight steps, `diagonalCost` for diagonal ones).
+
+// ===== MODELS =====
+
+// [x, y] with y growing downwards, like the rows of a map
+export type Point = readonly [number, number];
+
+export type Cell = {
+  readonly position: Point;
+  readonly cost: number;
+};
+
+export type Grid = {
+  readonly width: number;
+  readonly height: number;
+  // Row-major entry cost per cell; undefined marks a wall
+  readonly costs: ReadonlyArray<number | undefined>;
+  // Original map symbol per cell, for `find` and rendering
+  readonly symbols: ReadonlyArray<string>;
+};
+
+// Map symbol -> entry cost, or null for impassable
+export type Legend = { readonly [symbol: string]: number | null };
+
+// Whether a diagonal step may squeeze past blocked orthogonal cells:
+// `always` ignores them, `one-open` needs one of the two open, `never` needs
+// both open (no clipping wall corners)
+export type CornerCutting = "always" | "one-open" | "never";
+
+export type MoveSet = {
+  readonly diagonal: boolean;
+  // Defaults to `never`
+  readonly cornerCutting?: CornerCutting;
+  // Length of a diagonal step; defaults to √2, use 1 for king moves
+  readonly diagonalCost?: number;
+};
+
+export type GridPath = {
+  // Every cell from start to goal
+  readonly path: ReadonlyArray<Point>;
+  // Cells where the search actually stopped and turned
+  readonly jumpPoints: ReadonlyArray<Point>;
+  readonly cost: number;
+  readonly expanded: number;
+};
+
+export class GridParseError extends Data.TaggedError("GridParseError")<{
+  readonly reason: string;
+  // 1-based position in the source map
+  readonly line: number;
+  readonly column: number;
+}> {
+  override get message() {
+    return `${this.reason} at line ${this.line}, column ${this.column}`;
+  }
+}
+
+export class UnsupportedGrid extends Data.TaggedError("UnsupportedGrid")<{
+  readonly reason: string;
+}> {
+  override get message() {
+    return `Jump point search is not supported here: ${this.reason}`;
+  }
+}
+
+export const cardinal: MoveSet = { diagonal: false };
+export const eightWay: MoveSet = { diagonal: true, cornerCutting: "never" };
+
+export const defaultLegend: Legend = {
+  ".": 1, // open ground
+  S: 1, // start marker
+  G: 1, // goal marker
+  ",": 2, // grass
+  T: 3, // forest
+  "~": 5, // shallow water
+  "^": 8, // hills
+  "#": null, // wall
+};
+
+// ===== PARSING =====
+
+// Rows of cells -> Grid, once the rows are known to have equal length
+const make = (
+  rows: ReadonlyArray<
+    ReadonlyArray<{ cost: number | undefined; symbol: string }>
+  >
+): Grid => ({
+  width: rows[0]?.length ?? 0,
+  height: rows.length,
+  costs: rows.flatMap((row) => row.map(({ cost }) => cost)),
+  symbols: rows.flatMap((row) => row.map(({ symbol }) => symbol)),
+});
+
+/**
+ * Parses an ASCII map, one character per cell. Blank lines around the map
+ * and indentation shared by every row are ignored, so maps can be written as
+ * indented template literals.
+ */
+export const parse = (
+  text: string,
+  legend: Legend = defaultLegend
+): Effect.Effect<Grid, GridParseError> =>
+  Effect.suspend(() => {
+    const lines = text.split("\n").map((line) => line.replace(/\r$/, ""));
+    const first = lines.findIndex((line) => line.trim() !== "");
+    if (first === -1) {
+      return Effect.fail(
+        new GridParseError({ reason: "Map is empty", line: 1, column: 1 })
+      );
+    }
+    let last = lines.length - 1;
+    while (lines[last]?.trim() === "") last--;
+    const body = lines.slice(first, last + 1);
+    const indent = Math.min(
+      ...body.map((line) => line.length - line.trimStart().length)
+    );
+
+    const rows: Array<Array<{ cost: number | undefined; symbol: string }>> = [];
+    for (const [i, raw] of body.entries()) {
+      const line = first + i + 1;
+      const row = raw.slice(indent).trimEnd();
+      const width = rows[0]?.length ?? row.length;
+      if (row.length !== width) {
+        return Effect.fail(
+          new GridParseError({
+            reason: `Expected ${width} cells but found ${row.length}`,
+            line,
+            column: indent + Math.min(row.length, width) + 1,
+          })
+        );
+      }
+
+      const cells: Array<{ cost: number | undefined; symbol: string }> = [];
+      for (const [x, symbol] of Array.from(row).entries()) {
+        const cost = legend[symbol];
+        if (cost === undefined) {
+          return Effect.fail(
+            new GridParseError({
+              reason: `Unknown map symbol "${symbol}"`,
+              line,
+              column: indent + x + 1,
+            })
+          );
+        }
+        cells.push({ cost: cost ?? undefined, symbol });
+      }
+      rows.push(cells);
+    }
+    return Effect.succeed(make(rows));
+  });
+
+/**
+ * Builds a grid from a matrix of numbers. By default 0 is open ground and
+ * anything else a wall, like the 0/1 grids in the examples; pass `cost` to
+ * read the numbers as terrain costs instead.
+ */
+export const fromNumbers = (
+  matrix: ReadonlyArray<ReadonlyArray<number>>,
+  cost: (value: number) => number | undefined = (value) =>
+    value === 0 ? 1 : undefined
+): Effect.Effect<Grid, GridParseError> =>
+  Effect.suspend(() => {
+    const width = matrix[0]?.length ?? 0;
+    if (width === 0) {
+      return Effect.fail(
+        new GridParseError({ reason: "Map is empty", line: 1, column: 1 })
+      );
+    }
+    const ragged = matrix.findIndex((row) => row.length !== width);
+    if (ragged !== -1) {
+      return Effect.fail(
+        new GridParseError({
+          reason: `Expected ${width} cells but found ${matrix[ragged]?.length}`,
+          line: ragged + 1,
+          column: Math.min(matrix[ragged]?.length ?? 0, width) + 1,
+        })
+      );
+    }
+    return Effect.succeed(
+      make(
+        matrix.map((row) =>
+          row.map((value) => ({ cost: cost(value), symbol: String(value) }))
+        )
+      )
+    );
+  });
+
+// ===== CELLS =====
+
+export const key = ([x, y]: Point) => `${x},${y}`;
+
+export const costAt = (grid: Grid, [x, y]: Point): number | undefined =>
+  x < 0 || y < 0 || x >= grid.width || y >= grid.height
+    ? undefined
+    : grid.costs[y * grid.width + x];
+
+export const isOpen = (grid: Grid, point: Point) =>
+  costAt(grid, point) !== undefined;
+
+/** First cell carrying `symbol`, scanning row by row. */
+export const find = (grid: Grid, symbol: string): Option.Option<Point> => {
+  const index = grid.symbols.indexOf(symbol);
+  return index === -1
+    ? Option.none()
+    : Option.some([index % grid.width, Math.floor(index / grid.width)]);
+};
+
+/** The map as text, with `path` drawn over it using `mark`. */
+export const render = (
+  grid: Grid,
+  path: ReadonlyArray<Point> = [],
+  mark = "*"
+): Array<string> => {
+  const symbols = [...grid.symbols];
+  for (const [x, y] of path) {
+    const symbol = symbols[y * grid.width + x];
+    // Keep start and goal markers visible
+    if (symbol !== "S" && symbol !== "G") symbols[y * grid.width + x] = mark;
+  }
+  const lines: Array<string> = [];
+  for (let y = 0; y < grid.height; y++) {
+    lines.push(symbols.slice(y * grid.width, (y + 1) * grid.width).join(""));
+  }
+  return lines;
+};
+
+const STRAIGHT: ReadonlyArray<Point> = [
+  [0, -1],
+  [1, 0],
+  [0, 1],
+  [-1, 0],
+];
+const DIAGONAL: ReadonlyArray<Point> = [
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+  [-1, -1],
+];
+
+const canStepDiagonally = (
+  grid: Grid,
+  [x, y]: Point,
+  [dx, dy]: Point,
+  rule: CornerCutting
+) => {
+  const horizontal = isOpen(grid, [x + dx, y]);
+  const vertical = isOpen(grid, [x, y + dy]);
+  switch (rule) {
+    case "always":
+      return true;
+    case "one-open":
+      return horizontal || vertical;
+    case "never":
+      return horizontal && vertical;
+  }
+};
+
+/** Cells reachable in one step from `point`, with the cost of the step. */
+export const neighbors = (
+  grid: Grid,
+  point: Point,
+  moves: MoveSet
+): Array<{ readonly position: Point; readonly cost: number }> => {
+  const [x, y] = point;
+  const result: Array<{ position: Point; cost: number }> = [];
+  for (const [dx, dy] of STRAIGHT) {
+    const cost = costAt(grid, [x + dx, y + dy]);
+    if (cost !== undefined) result.push({ position: [x + dx, y + dy], cost });
+  }
+  if (!moves.diagonal) return result;
+
+  const rule = moves.cornerCutting ?? "never";
+  const length = moves.diagonalCost ?? Math.SQRT2;
+  for (const direction of DIAGONAL) {
+    const [dx, dy] = direction;
+    const cost = costAt(grid, [x + dx, y + dy]);
+    if (cost !== undefined && canStepDiagonally(grid, point, direction, rule)) {
+      result.push({ position: [x + dx, y + dy], cost: cost * length });
+    }
+  }
+  return result;
+};
+
+/**
+ * One node per open cell keyed by `"x,y"`, and one edge per legal step
+ * weighted by its cost.
+ */
+export const toGraph = (
+  grid: Grid,
+  moves: MoveSet = cardinal
+): KeyedGraph.DirectedKeyedGraph<string, Cell, number> => {
+  // Directed because entering water costs more than leaving it
+  const graph = Graph.directed<Cell, number>((mutable) => {
+    const indices = new Map<string, Graph.NodeIndex>();
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        const cost = costAt(grid, [x, y]);
+        if (cost === undefined) continue;
+        indices.set(
+          key([x, y]),
+          Graph.addNode(mutable, { position: [x, y], cost })
+        );
+      }
+    }
+    for (const source of indices.values()) {
+      const position = mutable.nodes.get(source)?.position;
+      if (position === undefined) continue;
+      for (const step of neighbors(grid, position, moves)) {
+        const target = indices.get(key(step.position));
+        if (target !== undefined) {
+          Graph.addEdge(mutable, source, target, step.cost);
+        }
+      }
+    }
+  });
+  return KeyedGraph.fromGraph(graph, (cell) => key(cell.position));
+};
+
+// ===== HEURISTICS =====
+
+// Distances in steps on an obstacle-free map with unit terrain
+
+export const manhattan = ([x1, y1]: Point, [x2, y2]: Point) =>
+  Math.abs(x2 - x1) + Math.abs(y2 - y1);
+
+export const chebyshev = ([x1, y1]: Point, [x2, y2]: Point) =>
+  Math.max(Math.abs(x2 - x1), Math.abs(y2 - y1));
+
+export const octile = (a: Point, b: Point, diagonalCost = Math.SQRT2) => {
+  const dx = Math.abs(b[0] - a[0]);
+  const dy = Math.abs(b[1] - a[1]);
+  // Two straight steps beat any diagonal longer than 2
+  const diagonal = Math.min(diagonalCost, 2);
+  return dx + dy + (diagonal - 2) * Math.min(dx, dy);
+};
+
+/**
+ * The tightest admissible heuristic for a move set: Manhattan for 4-way
+ * movement, Chebyshev when diagonals cost the same as straight steps and
+ * octile otherwise, scaled by the cheapest terrain on the map.
+ */
+export const distanceFor = (
+  grid: Grid,
+  moves: MoveSet
+): ((from: Point, to: Point) => number) => {
+  let cheapest = Infinity;
+  for (const cost of grid.costs) {
+    if (cost !== undefined) cheapest = Math.min(cheapest, cost);
+  }
+  const scale = Number.isFinite(cheapest) ? cheapest : 0;
+  const diagonalCost = moves.diagonalCost ?? Math.SQRT2;
+
+  if (!moves.diagonal) return (from, to) => manhattan(from, to) * scale;
+  if (diagonalCost === 1) return (from, to) => chebyshev(from, to) * scale;
+  return (from, to) => octile(from, to, diagonalCost) * scale;
+};
+
+/**
+ * `distanceFor` over cells, which plugs straight into `Graph.astar` on a
+ * `toGraph` graph.
+ */
+export const heuristicFor = (
+  grid: Grid,
+  moves: MoveSet
+): ((from: Cell, to: Cell) => number) => {
+  const distance = distanceFor(grid, moves);
+  return (from, to) => distance(from.position, to.position);
+};
+
+// ===== JUMP POINT SEARCH =====
+
+const sign = (n: number) => (n > 0 ? 1 : n < 0 ? -1 : 0);
+
+// Pruned neighbours for the no-corner-cutting JPS variant: only directions
+// that a path arriving from `parent` could not have taken more cheaply
+// without passing through `point`
+const prunedDirections = (
+  grid: Grid,
+  point: Point,
+  parent: Point | undefined
+): Array<Point> => {
+  const [x, y] = point;
+  const open = (px: number, py: number) => isOpen(grid, [px, py]);
+
+  if (parent === undefined) {
+    return [...STRAIGHT, ...DIAGONAL].filter(
+      ([dx, dy]) =>
+        open(x + dx, y + dy) &&
+        (dx === 0 || dy === 0 || (open(x + dx, y) && open(x, y + dy)))
+    );
+  }
+
+  const dx = sign(x - parent[0]);
+  const dy = sign(y - parent[1]);
+  const directions: Array<Point> = [];
+
+  if (dx !== 0 && dy !== 0) {
+    if (open(x, y + dy)) directions.push([0, dy]);
+    if (open(x + dx, y)) directions.push([dx, 0]);
+    if (open(x, y + dy) && open(x + dx, y)) directions.push([dx, dy]);
+  } else if (dx !== 0) {
+    const ahead = open(x + dx, y);
+    const below = open(x, y + 1);
+    const above = open(x, y - 1);
+    if (ahead) {
+      directions.push([dx, 0]);
+      if (below) directions.push([dx, 1]);
+      if (above) directions.push([dx, -1]);
+    }
+    if (below) directions.push([0, 1]);
+    if (above) directions.push([0, -1]);
+  } else {
+    const ahead = open(x, y + dy);
+    const right = open(x + 1, y);
+    const left = open(x - 1, y);
+    if (ahead) {
+      directions.push([0, dy]);
+      if (right) directions.push([1, dy]);
+      if (left) directions.push([-1, dy]);
+    }
+    if (right) directions.push([1, 0]);
+    if (left) directions.push([-1, 0]);
+  }
+  return directions.filter(([ddx, ddy]) => open(x + ddx, y + ddy));
+};
+
+// Walks from `from` in direction [dx, dy] until it reaches the goal, a cell
+// with a forced neighbour, or a wall
+const jump = (
+  grid: Grid,
+  from: Point,
+  [dx, dy]: Point,
+  goal: Point
+): Point | undefined => {
+  const open = (px: number, py: number) => isOpen(grid, [px, py]);
+  let [x, y] = from;
+
+  while (true) {
+    const nx = x + dx;
+    const ny = y + dy;
+    if (!open(nx, ny)) return undefined;
+    // No squeezing between two walls diagonally
+    if (dx !== 0 && dy !== 0 && !(open(x + dx, y) && open(x, y + dy))) {
+      return undefined;
+    }
+    x = nx;
+    y = ny;
+    if (x === goal[0] && y === goal[1]) return [x, y];
+
+    if (dx !== 0 && dy !== 0) {
+      // A straight jump from here finding something makes this a jump point
+      if (
+        jump(grid, [x, y], [dx, 0], goal) !== undefined ||
+        jump(grid, [x, y], [0, dy], goal) !== undefined
+      ) {
+        return [x, y];
+      }
+    } else if (dx !== 0) {
+      if (
+        (open(x, y - 1) && !open(x - dx, y - 1)) ||
+        (open(x, y + 1) && !open(x - dx, y + 1))
+      ) {
+        return [x, y];
+      }
+    } else if (
+      (open(x - 1, y) && !open(x - 1, y - dy)) ||
+      (open(x + 1, y) && !open(x + 1, y - dy))
+    ) {
+      return [x, y];
+    }
+  }
+};
+
+/**
+ * Jump Point Search (Harabor & Grastien) for 8-way movement without corner
+ * cutting on uniform terrain: same optimal cost as A*, but straight and
+ * diagonal runs are scanned without putting every cell on the open list.
+ * Other move sets or mixed terrain fail with `UnsupportedGrid`; use
+ * `toGraph` with `Graph.astar` for those.
+ */
+export const jumpPointSearch = (
+  grid: Grid,
+  start: Point,
+  goal: Point,
+  moves: MoveSet = eightWay
+): Effect.Effect<Option.Option<GridPath>, UnsupportedGrid> =>
+  Effect.suspend(() => {
+    if (!moves.diagonal || (moves.cornerCutting ?? "never") !== "never") {
+      return Effect.fail(
+        new UnsupportedGrid({
+          reason: "needs 8-way movement without corner cutting",
+        })
+      );
+    }
+    if ((moves.diagonalCost ?? Math.SQRT2) !== Math.SQRT2) {
+      return Effect.fail(
+        new UnsupportedGrid({ reason: "needs diagonal steps of length √2" })
+      );
+    }
+    const terrain = new Set(grid.costs.filter((cost) => cost !== undefined));
+    if (terrain.size > 1) {
+      return Effect.fail(
+        new UnsupportedGrid({ reason: "needs a single terrain cost" })
+      );
+    }
+    if (!isOpen(grid, start) || !isOpen(grid, goal)) {
+      return Effect.succeed(Option.none());
+    }
+    const unit = costAt(grid, start) ?? 1;
+
+    const indexOf = ([x, y]: Point) => y * grid.width + x;
+    const g = new Map<number, number>([[indexOf(start), 0]]);
+    const parent = new Map<number, Point>();
+    const closed = new Set<number>();
+    const queue = PriorityQueue.make<Point>();
+    queue.push(start, octile(start, goal) * unit);
+    let expanded = 0;
+
+    while (queue.size() > 0) {
+      const current = queue.pop();
+      if (current === undefined) break;
+      const currentIndex = indexOf(current);
+      if (closed.has(currentIndex)) continue;
+      closed.add(currentIndex);
+      expanded++;
+
+      if (current[0] === goal[0] && current[1] === goal[1]) {
+        const jumpPoints = [current];
+        let step = parent.get(currentIndex);
+        while (step !== undefined) {
+          jumpPoints.push(step);
+          step = parent.get(indexOf(step));
+        }
+        jumpPoints.reverse();
+        return Effect.succeed(
+          Option.some({
+            path: interpolate(jumpPoints),
+            jumpPoints,
+            cost: g.get(currentIndex) ?? 0,
+            expanded,
+          })
+        );
+      }
+
+      for (const direction of prunedDirections(
+        grid,
+        current,
+        parent.get(currentIndex)
+      )) {
+        const jumpPoint = jump(grid, current, direction, goal);
+        if (jumpPoint === undefined) continue;
+        const jumpIndex = indexOf(jumpPoint);
+        if (closed.has(jumpIndex)) continue;
+
+        const distance =
+          (g.get(currentIndex) ?? 0) + octile(current, jumpPoint) * unit;
+        if (distance < (g.get(jumpIndex) ?? Infinity)) {
+          g.set(jumpIndex, distance);
+          parent.set(jumpIndex, current);
+          queue.push(jumpPoint, distance + octile(jumpPoint, goal) * unit);
+        }
+      }
+    }
+    return Effect.succeed(Option.none());
+  });
+
+// Fills in the cells between consecutive jump points, which always lie on
+// one straight or diagonal line
+const interpolate = (jumpPoints: ReadonlyArray<Point>): Array<Point> => {
+  const [first, ...rest] = jumpPoints;
+  if (first === undefined) return [];
+  const path: Array<Point> = [first];
+  let [x, y] = first;
+  for (const [tx, ty] of rest) {
+    while (x !== tx || y !== ty) {
+      x += sign(tx - x);
+      y += sign(ty - y);
+      path.push([x, y]);
+    }
+  }
+  return path;
+};
@@ -1,17 +1,38 @@
 import { DevTools } from "@effect/experimental";
 import { BunContext, BunRuntime } from "@effect/platform-bun";
-import { Effect, Graph, Option } from "effect";
+import { Effect, Graph, Option, Schema } from "effect";
+import * as Astar from "./astar.ts";
+import { bfsLevels } from "./bfs-levels.ts";
+import * as Cycles from "./cycles.ts";
+import * as Diagrams from "./diagrams.ts";
+import * as DStarLite from "./dstar-lite.ts";
+import * as GraphImport from "./graph-import.ts";
+import * as Grid from "./grid.ts";
+import * as KShortest from "./k-shortest.ts";
+import * as KeyedGraph from "./keyed-graph.ts";
+import * as Layout from "./layout.ts";
+import * as MultiCriteria from "./multi-criteria.ts";
+import * as PackageRegistry from "./package-registry.ts";
+import * as PackageResolver from "./package-resolver.ts";
+import * as Scheduling from "./scheduling.ts";
+import * as StateSpace from "./state-space.ts";
+import * as Svg from "./svg.ts";
 
 type FriendshipWeight = number;
 type Person = { name: string; age: number; weight: FriendshipWeight };
 type Task = { id: string; description: string; duration: number };
 type Location = { name: string; coordinates: [number, number] };
-type GameState = { position: [number, number]; moves: number };
-
-const findNodeInMap = <K, V>(map: Map<K, V>, key: K): V => {
-  const node = map.get(key);
-  if (node === undefined) throw new Error(`Node ${key} not found in map`);
-  return node;
+type Road = {
+  miles: number;
+  minutes: number;
+  tolls: number;
+  kind: "highway" | "arterial" | "residential";
+};
+type GameState = {
+  position: [number, number];
+  moves: number;
+  // Keys picked up so far, sorted
+  keys: ReadonlyArray<string>;
 };
 
 const basicGraphExample = Effect.gen(function* () {
@@ -49,71 +70,34 @@ const socialNetworkExample = Effect.gen(function* () {
   ];
 
   // Create undirected graph for friendships
-  const socialGraph = Graph.mutate(
-    Graph.undirected<Person, FriendshipWeight>(),
+  const socialNetwork = yield* KeyedGraph.mutate(
+    KeyedGraph.undirected<string, Person, FriendshipWeight>(
+      (person) => person.name
+    ),
     (mutable) => {
-      const nodeMap = new Map<string, number>();
-
       // Add all people as nodes
       for (const person of people) {
-        nodeMap.set(person.name, Graph.addNode(mutable, person));
+        KeyedGraph.addNode(mutable, person);
       }
 
-      const getNode = (name: string) => {
-        return findNodeInMap(nodeMap, name);
-      };
-
       // Add friendships
-      Graph.addEdge(
-        mutable,
-        getNode("Alice"),
-        getNode("Bob"),
-        people[0]?.weight ?? 1
-      );
-      Graph.addEdge(
-        mutable,
-        getNode("Bob"),
-        getNode("Carol"),
-        people[1]?.weight ?? 1
-      );
-      Graph.addEdge(
-        mutable,
-        getNode("Carol"),
-        getNode("David"),
-        people[2]?.weight ?? 1
-      );
-      Graph.addEdge(
-        mutable,
-        getNode("Carol"),
-        getNode("Eve"),
-        people[2]?.weight ?? 1
-      );
-      Graph.addEdge(
-        mutable,
-        getNode("David"),
-        getNode("Eve"),
-        people[3]?.weight ?? 1
-      );
-      Graph.addEdge(
-        mutable,
-        getNode("Alice"),
-        getNode("Alice"),
-        people[0]?.weight ?? 1
-      ); // Creates a cycle
+      KeyedGraph.addEdge(mutable, "Alice", "Bob", people[0]?.weight ?? 1);
+      KeyedGraph.addEdge(mutable, "Bob", "Carol", people[1]?.weight ?? 1);
+      KeyedGraph.addEdge(mutable, "Carol", "David", people[2]?.weight ?? 1);
+      KeyedGraph.addEdge(mutable, "Carol", "Eve", people[2]?.weight ?? 1);
+      KeyedGraph.addEdge(mutable, "David", "Eve", people[3]?.weight ?? 1);
+      KeyedGraph.addEdge(mutable, "Alice", "Alice", people[0]?.weight ?? 1); // Creates a cycle
     }
   );
+  const socialGraph = socialNetwork.graph;
 
   // Check connectivity
   const components = Graph.connectedComponents(socialGraph);
   yield* Effect.log(`Network has ${components.length} connected components`);
 
   // Find shortest paths
-  const aliceNode = Array.from(socialGraph.nodes.values()).findIndex(
-    (n) => n.name === "Alice"
-  );
-  const eveNode = Array.from(socialGraph.nodes.values()).findIndex(
-    (n) => n.name === "Eve"
-  );
+  const aliceNode = yield* KeyedGraph.indexOf(socialNetwork, "Alice");
+  const eveNode = yield* KeyedGraph.indexOf(socialNetwork, "Eve");
 
   const shortestPath = Graph.dijkstra(socialGraph, {
     source: aliceNode,
@@ -130,9 +114,29 @@ const socialNetworkExample = Effect.gen(function* () {
     yield* Effect.log(`Shortest path distance: ${shortestPath.value.distance}`);
   }
 
+  // Next-best ways to reach Eve through the network
+  const friendPaths = KShortest.kShortestPaths(socialGraph, {
+    source: aliceNode,
+    target: eveNode,
+    cost: (edgeData) => edgeData,
+    k: 3,
+  });
+  yield* Effect.log(`Top ${friendPaths.length} paths from Alice to Eve:`);
+  for (const [rank, path] of friendPaths.entries()) {
+    const names = path.nodes.map((idx) => socialGraph.nodes.get(idx)?.name);
+    yield* Effect.log(
+      `  ${rank + 1}. ${names.join(" -> ")} (distance ${path.distance})`
+    );
+  }
+
   // Detect cycles
   const hasCycle = !Graph.isAcyclic(socialGraph);
   yield* Effect.log(`Social network has cycles: ${hasCycle}`);
+  // Every other friendship loop is a combination of these
+  for (const cycle of Cycles.minimumCycleBasis(socialGraph)) {
+    const keys = Cycles.toKeys(socialNetwork, cycle);
+    yield* Effect.log(`  Cycle: ${keys.join(" - ")}`);
+  }
 });
 
 const taskDependencyExample = Effect.gen(function* () {
@@ -147,33 +151,23 @@ const taskDependencyExample = Effect.gen(function* () {
     { id: "deploy", description: "Deploy to production", duration: 1 },
   ];
 
-  const taskGraph = Graph.mutate(
-    Graph.directed<Task, "depends">(),
+  const taskNetwork = yield* KeyedGraph.mutate(
+    KeyedGraph.directed<string, Task, "depends">((task) => task.id),
     (mutable) => {
-      const nodeMap = new Map<string, number>();
-
       for (const task of tasks) {
-        nodeMap.set(task.id, Graph.addNode(mutable, task));
+        KeyedGraph.addNode(mutable, task);
       }
 
-      const getNode = (id: string) => {
-        return findNodeInMap(nodeMap, id);
-      };
-
       // Define dependencies
-      Graph.addEdge(mutable, getNode("setup"), getNode("backend"), "depends");
-      Graph.addEdge(mutable, getNode("setup"), getNode("frontend"), "depends");
-      Graph.addEdge(mutable, getNode("design"), getNode("frontend"), "depends");
-      Graph.addEdge(mutable, getNode("backend"), getNode("testing"), "depends");
-      Graph.addEdge(
-        mutable,
-        getNode("frontend"),
-        getNode("testing"),
-        "depends"
-      );
-      Graph.addEdge(mutable, getNode("testing"), getNode("deploy"), "depends");
+      KeyedGraph.addEdge(mutable, "setup", "backend", "depends");
+      KeyedGraph.addEdge(mutable, "setup", "frontend", "depends");
+      KeyedGraph.addEdge(mutable, "design", "frontend", "depends");
+      KeyedGraph.addEdge(mutable, "backend", "testing", "depends");
+      KeyedGraph.addEdge(mutable, "frontend", "testing", "depends");
+      KeyedGraph.addEdge(mutable, "testing", "deploy", "depends");
     }
   );
+  const taskGraph = taskNetwork.graph;
 
   // Topological sort for task execution order
   const executionOrder = Graph.topo(taskGraph);
@@ -183,6 +177,46 @@ const taskDependencyExample = Effect.gen(function* () {
       `  ${task.id}: ${task.description} (${task.duration} days)`
     );
   }
+
+  // Critical path analysis: earliest/latest start and slack per task
+  const duration = (task: Task) => task.duration;
+  const schedule = yield* Scheduling.schedule(taskGraph, { duration });
+  yield* Effect.log("");
+  yield* Effect.log(`Project length: ${schedule.projectLength} days`);
+  for (const nodeIndex of schedule.order) {
+    const task = taskGraph.nodes.get(nodeIndex);
+    const timing = schedule.timings.get(nodeIndex);
+    if (task && timing) {
+      yield* Effect.log(
+        `  ${task.id}: start day ${timing.earliestStart}-${
+          timing.latestStart
+        }, finish day ${timing.earliestFinish}-${timing.latestFinish}, slack ${
+          timing.slack
+        }${timing.critical ? " (critical)" : ""}`
+      );
+    }
+  }
+  const criticalIds = schedule.criticalPath.map(
+    (idx) => taskGraph.nodes.get(idx)?.id
+  );
+  yield* Effect.log(`Critical path: ${criticalIds.join(" -> ")}`);
+
+  // Parallel execution plan for a team of two
+  const plan = Scheduling.planWorkers(taskGraph, schedule, {
+    duration,
+    workers: 2,
+  });
+  yield* Effect.log("");
+  yield* Effect.log(
+    `Plan for ${plan.workers} workers (${plan.makespan} days):`
+  );
+  for (const assignment of plan.assignments) {
+    yield* Effect.log(
+      `  Worker ${assignment.worker + 1}: ${
+        taskGraph.nodes.get(assignment.node)?.id
+      } (day ${assignment.start}-${assignment.finish})`
+    );
+  }
 });
 
 const transportationExample = Effect.gen(function* () {
@@ -196,42 +230,68 @@ const transportationExample = Effect.gen(function* () {
     { name: "Park", coordinates: [4, 5] },
   ];
 
-  const roadNetwork = Graph.mutate(
-    Graph.undirected<Location, number>(),
+  const keyedRoadNetwork = yield* KeyedGraph.mutate(
+    KeyedGraph.undirected<string, Location, Road>((location) => location.name),
     (mutable) => {
-      const nodeMap = new Map<string, number>();
-
       for (const location of locations) {
-        nodeMap.set(location.name, Graph.addNode(mutable, location));
+        KeyedGraph.addNode(mutable, location);
       }
 
-      const getNode = (name: string) => {
-        return findNodeInMap(nodeMap, name);
-      };
-
-      // Add roads with distances (in miles)
-      Graph.addEdge(mutable, getNode("Home"), getNode("Store"), 2.1);
-      Graph.addEdge(mutable, getNode("Home"), getNode("Gym"), 3.5);
-      Graph.addEdge(mutable, getNode("Store"), getNode("Work"), 2.8);
-      Graph.addEdge(mutable, getNode("Store"), getNode("Park"), 4.2);
-      Graph.addEdge(mutable, getNode("Gym"), getNode("Park"), 2.3);
-      Graph.addEdge(mutable, getNode("Park"), getNode("Work"), 1.7);
-      Graph.addEdge(mutable, getNode("Gym"), getNode("Work"), 3.9);
+      // Add roads with distance (miles), typical drive time and tolls ($)
+      KeyedGraph.addEdge(mutable, "Home", "Store", {
+        miles: 2.1,
+        minutes: 6,
+        tolls: 0,
+        kind: "residential",
+      });
+      KeyedGraph.addEdge(mutable, "Home", "Gym", {
+        miles: 3.5,
+        minutes: 7,
+        tolls: 0,
+        kind: "arterial",
+      });
+      KeyedGraph.addEdge(mutable, "Store", "Work", {
+        miles: 2.8,
+        minutes: 9,
+        tolls: 0,
+        kind: "residential",
+      });
+      KeyedGraph.addEdge(mutable, "Store", "Park", {
+        miles: 4.2,
+        minutes: 6,
+        tolls: 1.5,
+        kind: "highway",
+      });
+      KeyedGraph.addEdge(mutable, "Gym", "Park", {
+        miles: 2.3,
+        minutes: 4,
+        tolls: 0,
+        kind: "arterial",
+      });
+      KeyedGraph.addEdge(mutable, "Park", "Work", {
+        miles: 1.7,
+        minutes: 3,
+        tolls: 0.75,
+        kind: "highway",
+      });
+      KeyedGraph.addEdge(mutable, "Gym", "Work", {
+        miles: 3.9,
+        minutes: 5,
+        tolls: 2,
+        kind: "highway",
+      });
     }
   );
+  const roadNetwork = keyedRoadNetwork.graph;
 
   // Find shortest driving route from Home to Work
-  const homeIdx = Array.from(roadNetwork.nodes.values()).findIndex(
-    (n) => n.name === "Home"
-  );
-  const workIdx = Array.from(roadNetwork.nodes.values()).findIndex(
-    (n) => n.name === "Work"
-  );
+  const homeIdx = yield* KeyedGraph.indexOf(keyedRoadNetwork, "Home");
+  const workIdx = yield* KeyedGraph.indexOf(keyedRoadNetwork, "Work");
 
   const dijkstraResult = Graph.dijkstra(roadNetwork, {
     source: homeIdx,
     target: workIdx,
-    cost: (edgeData) => edgeData,
+    cost: (road) => road.miles,
   });
   if (Option.isSome(dijkstraResult)) {
     const route = dijkstraResult.value.path.map(
@@ -242,11 +302,236 @@ const transportationExample = Effect.gen(function* () {
         " -> "
       )} (${dijkstraResult.value.distance.toFixed(1)} miles)`
     );
+
+    // Road map with the route drawn in, laid out by force simulation
+    yield* Svg.write(
+      "out/roads.svg",
+      roadNetwork,
+      Layout.forceDirected(roadNetwork, { width: 640, height: 420 }),
+      {
+        nodeLabel: (location) => location.name,
+        edgeLabel: (road) => `${road.miles} mi`,
+        graphName: "Road network",
+        ...Diagrams.highlightPath(roadNetwork, dijkstraResult.value.path, {
+          node: { fill: "#dbeafe", stroke: "#2563eb", strokeWidth: 2 },
+          edge: { stroke: "#2563eb", strokeWidth: 3, fontColor: "#1d4ed8" },
+        }),
+      }
+    );
+    yield* Effect.log("Route map written to out/roads.svg");
+  }
+
+  // More than one option for the commute
+  const routeNames = (path: KShortest.Path) =>
+    path.nodes.map((idx) => roadNetwork.nodes.get(idx)?.name).join(" -> ");
+  yield* Effect.log("");
+  yield* Effect.log("3 shortest routes from Home to Work:");
+  for (const path of KShortest.kShortestPaths(roadNetwork, {
+    source: homeIdx,
+    target: workIdx,
+    cost: (road) => road.miles,
+    k: 3,
+  })) {
+    yield* Effect.log(
+      `  ${routeNames(path)} (${path.distance.toFixed(1)} miles)`
+    );
+  }
+  // Routes 2 and 3 above both start with the Home -> Gym leg
+  yield* Effect.log("Alternative commutes sharing at most 40% of their miles:");
+  for (const path of KShortest.alternativeRoutes(roadNetwork, {
+    source: homeIdx,
+    target: workIdx,
+    cost: (road) => road.miles,
+    k: 3,
+    maxOverlap: 0.4,
+  })) {
+    yield* Effect.log(
+      `  ${routeNames(path)} (${path.distance.toFixed(1)} miles)`
+    );
+  }
+
+  // The same Home -> Work query, trading off several costs per road
+  const criteria = {
+    miles: (road: Road) => road.miles,
+    minutes: (road: Road) => road.minutes,
+    tolls: (road: Road) => road.tolls,
+    residentialMiles: (road: Road) =>
+      road.kind === "residential" ? road.miles : 0,
+  };
+  const describeRoute = (route: MultiCriteria.Route<keyof typeof criteria>) => {
+    const names = route.path.map((idx) => roadNetwork.nodes.get(idx)?.name);
+    const { miles, minutes, tolls, residentialMiles } = route.costs;
+    return `${names.join(" -> ")} (${miles.toFixed(1)} miles, ${minutes} min, $${tolls.toFixed(2)} tolls, ${residentialMiles.toFixed(1)} residential miles)`;
+  };
+
+  yield* Effect.log("");
+  yield* Effect.log("Pareto-optimal routes from Home to Work:");
+  for (const route of MultiCriteria.paretoRoutes(roadNetwork, {
+    source: homeIdx,
+    target: workIdx,
+    criteria,
+  })) {
+    yield* Effect.log(`  ${describeRoute(route)}`);
+  }
+
+  yield* Effect.log("Best route per driver preference (weighted sum):");
+  const preferences = [
+    { name: "Shortest", weights: { miles: 1 } },
+    { name: "Fastest", weights: { minutes: 1 } },
+    // A minute of driving is worth $0.50
+    { name: "Cheapest overall", weights: { minutes: 0.5, tolls: 1 } },
+    { name: "Avoid residential", weights: { minutes: 1, residentialMiles: 5 } },
+  ];
+  for (const preference of preferences) {
+    const route = MultiCriteria.weightedRoute(roadNetwork, {
+      source: homeIdx,
+      target: workIdx,
+      criteria,
+      weights: preference.weights,
+    });
+    if (Option.isSome(route)) {
+      yield* Effect.log(`  ${preference.name}: ${describeRoute(route.value)}`);
+    }
+  }
+
+  // A* with a straight-line heuristic from the location coordinates
+  const miles = (road: Road) => road.miles;
+  const coordinatesOf = (location: Location) => location.coordinates;
+  const logComparison = (
+    label: string,
+    comparison: Astar.Comparison,
+    names: (idx: number) => string | undefined,
+    unit: string
+  ) =>
+    Effect.gen(function* () {
+      if (
+        Option.isNone(comparison.astar) ||
+        Option.isNone(comparison.dijkstra)
+      ) {
+        yield* Effect.log(`${label}: no route`);
+        return;
+      }
+      const astar = comparison.astar.value;
+      const dijkstra = comparison.dijkstra.value;
+      yield* Effect.log(
+        `${label}: ${astar.path.map(names).join(" -> ")} (${astar.distance.toFixed(1)} ${unit})`
+      );
+      yield* Effect.log(
+        `  Nodes expanded: A* ${astar.expanded} vs Dijkstra ${dijkstra.expanded}`
+      );
+    });
+
+  yield* Effect.log("");
+  yield* Effect.log("A* routing with a Euclidean heuristic:");
+  // The coordinates are map grid units, not miles, so straight lines may
+  // overestimate the roads
+  const unscaled = Astar.euclidean(coordinatesOf);
+  const unscaledCheck = Astar.checkHeuristic(roadNetwork, {
+    target: workIdx,
+    cost: miles,
+    heuristic: unscaled,
+  });
+  yield* Effect.log(
+    `  1 grid unit = 1 mile: admissible ${unscaledCheck.admissible}, consistent ${unscaledCheck.consistent}`
+  );
+  for (const violation of unscaledCheck.violations) {
+    yield* Effect.log(
+      `    Overestimates from ${roadNetwork.nodes.get(violation.node)?.name}: ${violation.estimate.toFixed(2)} > ${violation.actual.toFixed(2)} miles`
+    );
   }
 
+  const scale = Astar.consistentScale(roadNetwork, {
+    cost: miles,
+    distance: unscaled,
+  });
+  const scaled = Astar.euclidean(coordinatesOf, scale);
+  const scaledCheck = Astar.checkHeuristic(roadNetwork, {
+    target: workIdx,
+    cost: miles,
+    heuristic: scaled,
+  });
+  yield* Effect.log(
+    `  1 grid unit = ${scale.toFixed(3)} miles: admissible ${scaledCheck.admissible}, consistent ${scaledCheck.consistent}`
+  );
+  const localRoute = yield* Astar.compare(roadNetwork, {
+    source: homeIdx,
+    target: workIdx,
+    cost: miles,
+    heuristic: scaled,
+  });
+  yield* logComparison(
+    "  Home to Work",
+    localRoute,
+    (idx) => roadNetwork.nodes.get(idx)?.name,
+    "miles"
+  );
+
+  // Latitude/longitude coordinates with road distances in km: the
+  // great-circle distance is a lower bound without any tuning
+  yield* Effect.log("");
+  yield* Effect.log("A* routing with a haversine heuristic:");
+  const cities: Location[] = [
+    { name: "Hamburg", coordinates: [53.5511, 9.9937] },
+    { name: "Berlin", coordinates: [52.52, 13.405] },
+    { name: "Hanover", coordinates: [52.3759, 9.732] },
+    { name: "Cologne", coordinates: [50.9375, 6.9603] },
+    { name: "Leipzig", coordinates: [51.3397, 12.3731] },
+    { name: "Frankfurt", coordinates: [50.1109, 8.6821] },
+    { name: "Nuremberg", coordinates: [49.4521, 11.0767] },
+    { name: "Stuttgart", coordinates: [48.7758, 9.1829] },
+    { name: "Munich", coordinates: [48.1351, 11.582] },
+  ];
+  const motorways = yield* KeyedGraph.mutate(
+    KeyedGraph.undirected<string, Location, number>((city) => city.name),
+    (mutable) => {
+      for (const city of cities) {
+        KeyedGraph.addNode(mutable, city);
+      }
+
+      // Road distances in km
+      KeyedGraph.addEdge(mutable, "Hamburg", "Berlin", 289);
+      KeyedGraph.addEdge(mutable, "Hamburg", "Hanover", 151);
+      KeyedGraph.addEdge(mutable, "Berlin", "Hanover", 286);
+      KeyedGraph.addEdge(mutable, "Berlin", "Leipzig", 190);
+      KeyedGraph.addEdge(mutable, "Hanover", "Cologne", 288);
+      KeyedGraph.addEdge(mutable, "Hanover", "Leipzig", 264);
+      KeyedGraph.addEdge(mutable, "Hanover", "Frankfurt", 352);
+      KeyedGraph.addEdge(mutable, "Cologne", "Frankfurt", 190);
+      KeyedGraph.addEdge(mutable, "Leipzig", "Nuremberg", 280);
+      KeyedGraph.addEdge(mutable, "Frankfurt", "Nuremberg", 225);
+      KeyedGraph.addEdge(mutable, "Frankfurt", "Stuttgart", 204);
+      KeyedGraph.addEdge(mutable, "Nuremberg", "Munich", 170);
+      KeyedGraph.addEdge(mutable, "Stuttgart", "Munich", 232);
+    }
+  );
+  const motorwayGraph = motorways.graph;
+  const greatCircle = Astar.haversine(coordinatesOf, Astar.EARTH_RADIUS_KM);
+  const hamburgIdx = yield* KeyedGraph.indexOf(motorways, "Hamburg");
+  const munichIdx = yield* KeyedGraph.indexOf(motorways, "Munich");
+  const greatCircleCheck = Astar.checkHeuristic(motorwayGraph, {
+    target: munichIdx,
+    cost: (km) => km,
+    heuristic: greatCircle,
+  });
+  yield* Effect.log(
+    `  Great-circle distance: admissible ${greatCircleCheck.admissible}, consistent ${greatCircleCheck.consistent}`
+  );
+  const longRoute = yield* Astar.compare(motorwayGraph, {
+    source: hamburgIdx,
+    target: munichIdx,
+    cost: (km) => km,
+    heuristic: greatCircle,
+  });
+  yield* logComparison(
+    "  Hamburg to Munich",
+    longRoute,
+    (idx) => motorwayGraph.nodes.get(idx)?.name,
+    "km"
+  );
+
   // Find all shortest paths from Home (Floyd-Warshall)
-  const allPairsShortestPaths = Graph.floydWarshall(roadNetwork, (edgeData) => {
-    return edgeData;
+  const allPairsShortestPaths = Graph.floydWarshall(roadNetwork, (road) => {
+    return road.miles;
   });
   yield* Effect.log("");
   yield* Effect.log("All-pairs shortest paths from Home:");
@@ -276,95 +561,260 @@ const gameNavigationExample = Effect.gen(function* () {
   yield* Effect.log("=== Game State Navigation with A* ===");
 
   // Simple grid world with obstacles
-  const grid = [
+  const grid = yield* Grid.fromNumbers([
     [0, 0, 0, 1, 0], // 1 = obstacle
     [0, 1, 0, 1, 0],
     [0, 1, 0, 0, 0],
     [0, 0, 0, 1, 0],
     [0, 0, 0, 0, 0],
-  ];
+  ]);
 
-  // Create graph where each position is a node
-  const gameGraph = Graph.mutate(
-    Graph.undirected<GameState, number>(),
-    (mutable) => {
-      const nodeMap = new Map<string, number>();
-
-      // Add all valid positions as nodes
-      for (let y = 0; y < grid.length; y++) {
-        for (let x = 0; x < (grid[y]?.length ?? 0); x++) {
-          if (grid[y]?.[x] === 0) {
-            // Not an obstacle
-            const state: GameState = { position: [x, y], moves: 0 };
-            nodeMap.set(`${x},${y}`, Graph.addNode(mutable, state));
-          }
-        }
-      }
+  // Each open position is a node with edges to its 4 neighbours
+  const gameWorld = Grid.toGraph(grid, Grid.cardinal);
+  const gameGraph = gameWorld.graph;
 
-      const getNode = (x: number, y: number) => {
-        return findNodeInMap(nodeMap, `${x},${y}`);
-      };
-
-      // Add edges between adjacent positions
-      const directions = [
-        [0, 1],
-        [1, 0],
-        [0, -1],
-        [-1, 0],
-      ]; // up, right, down, left
-
-      for (let y = 0; y < grid.length; y++) {
-        for (let x = 0; x < (grid[y]?.length ?? 0); x++) {
-          if (grid[y]?.[x] === 0 && nodeMap.has(`${x},${y}`)) {
-            for (const [dx, dy] of directions) {
-              const nx = x + (dx ?? 0);
-              const ny = y + (dy ?? 0);
-              if (
-                nx >= 0 &&
-                nx < (grid[0]?.length ?? 0) &&
-                ny >= 0 &&
-                ny < grid.length &&
-                grid[ny]?.[nx] === 0 &&
-                nodeMap.has(`${nx},${ny}`)
-              ) {
-                Graph.addEdge(mutable, getNode(x, y), getNode(nx, ny), 1); // Cost of 1 to move
-              }
-            }
-          }
-        }
-      }
-    }
-  );
-
-  // Heuristic function: Manhattan distance to goal
-  const heuristic = (state: GameState) => {
-    const [x, y] = state.position;
-    const goalX = 4,
-      goalY = 4; // Goal position
-    return Math.abs(x - goalX) + Math.abs(y - goalY);
-  };
-
-  const startIdx = Array.from(gameGraph.nodes.values()).findIndex(
-    (n) => n.position[0] === 0 && n.position[1] === 0
-  );
-  const goalIdx = Array.from(gameGraph.nodes.values()).findIndex(
-    (n) => n.position[0] === 4 && n.position[1] === 4
-  );
+  const startIdx = yield* KeyedGraph.indexOf(gameWorld, "0,0");
+  const goalIdx = yield* KeyedGraph.indexOf(gameWorld, "4,4");
 
-  // Find path using A*
+  // Find path using A* with the Manhattan distance to whichever goal is asked
   const astarResult = Graph.astar(gameGraph, {
     source: startIdx,
     target: goalIdx,
     cost: (edgeData) => edgeData,
-    heuristic: heuristic,
+    heuristic: Grid.heuristicFor(grid, Grid.cardinal),
   });
 
   if (Option.isSome(astarResult)) {
-    const path = astarResult.value.path.map(
-      (idx) => gameGraph.nodes.get(idx)?.position
+    // Replay the path as game states, one move per step
+    const states = astarResult.value.path.flatMap((idx, moves) => {
+      const cell = gameGraph.nodes.get(idx);
+      return cell === undefined
+        ? []
+        : [
+            {
+              position: [...cell.position],
+              moves,
+              keys: [],
+            } satisfies GameState,
+          ];
+    });
+    yield* Effect.log(
+      `A* path from (0,0) to (4,4): ${states
+        .map((state) => state.position)
+        .join(" -> ")}`
     );
-    yield* Effect.log(`A* path from (0,0) to (4,4): ${path?.join(" -> ")}`);
-    yield* Effect.log(`Total moves: ${astarResult.value.distance}`);
+    yield* Effect.log(`Total moves: ${states.at(-1)?.moves ?? 0}`);
+  }
+
+  // Terrain costs: grass 2, forest 3, water 5, hills 8 (see Grid.defaultLegend)
+  const terrain = yield* Grid.parse(`
+    S..,,TTT...
+    .##,,TTT.#.
+    .#..~~~..#.
+    .#..~~~..#.
+    ....^^^^..G
+  `);
+  const terrainStart = yield* Grid.find(terrain, "S");
+  const terrainGoal = yield* Grid.find(terrain, "G");
+  for (const [name, moves] of [
+    ["4-way, Manhattan", Grid.cardinal],
+    ["8-way, octile", Grid.eightWay],
+  ] as const) {
+    const world = Grid.toGraph(terrain, moves);
+    const source = yield* KeyedGraph.indexOf(world, Grid.key(terrainStart));
+    const target = yield* KeyedGraph.indexOf(world, Grid.key(terrainGoal));
+    const route = Graph.astar(world.graph, {
+      source,
+      target,
+      cost: (edgeData) => edgeData,
+      heuristic: Grid.heuristicFor(terrain, moves),
+    });
+    if (Option.isSome(route)) {
+      yield* Effect.log("");
+      yield* Effect.log(
+        `Terrain route (${name}): cost ${route.value.distance.toFixed(2)}`
+      );
+      const cells = route.value.path.flatMap((idx) => {
+        const cell = world.graph.nodes.get(idx);
+        return cell === undefined ? [] : [cell.position];
+      });
+      for (const line of Grid.render(terrain, cells)) {
+        yield* Effect.log(`  ${line}`);
+      }
+    }
+  }
+
+  // Jump point search on an open arena versus A* over every cell
+  const arena = yield* Grid.parse(`
+    S...............#.......................
+    ................#.......................
+    ................#..........#############
+    ................#.......................
+    ........#########.......................
+    ........................................
+    ..........................#.............
+    ..........................#.............
+    ..........................#............G
+  `);
+  const arenaStart = yield* Grid.find(arena, "S");
+  const arenaGoal = yield* Grid.find(arena, "G");
+  const jps = yield* Grid.jumpPointSearch(arena, arenaStart, arenaGoal);
+  const arenaWorld = Grid.toGraph(arena, Grid.eightWay);
+  const astarStats = Astar.search(arenaWorld.graph, {
+    source: yield* KeyedGraph.indexOf(arenaWorld, Grid.key(arenaStart)),
+    target: yield* KeyedGraph.indexOf(arenaWorld, Grid.key(arenaGoal)),
+    cost: (edgeData) => edgeData,
+    heuristic: Grid.heuristicFor(arena, Grid.eightWay),
+  });
+  if (Option.isSome(jps) && Option.isSome(astarStats)) {
+    yield* Effect.log("");
+    yield* Effect.log(
+      `Jump point search: cost ${jps.value.cost.toFixed(2)} via ${jps.value.jumpPoints.length} jump points, ${jps.value.expanded} nodes expanded`
+    );
+    yield* Effect.log(
+      `A* on the grid graph: cost ${astarStats.value.distance.toFixed(2)}, ${astarStats.value.expanded} nodes expanded`
+    );
+    for (const line of Grid.render(arena, jps.value.path)) {
+      yield* Effect.log(`  ${line}`);
+    }
+  }
+
+  // D* Lite: the agent walks while gates open and close, repairing its plan
+  // instead of searching from scratch
+  const dungeon = yield* Grid.parse(`
+    S.......#.......
+    ........#.......
+    ................
+    ........#.......
+    ........#.......
+    ........#.......
+    ................
+    ........#......G
+  `);
+  const dungeonStart = yield* Grid.find(dungeon, "S");
+  const dungeonGoal = yield* Grid.find(dungeon, "G");
+  const events = new Map<
+    number,
+    { label: string; cells: ReadonlyArray<[Grid.Point, number | undefined]> }
+  >([
+    [3, { label: "north gate closes", cells: [[[8, 2], undefined]] }],
+    [5, { label: "rockfall in the south", cells: [[[8, 6], 8]] }],
+    [6, { label: "north gate reopens", cells: [[[8, 2], 1]] }],
+  ]);
+  const planner = DStarLite.make(
+    dungeon,
+    dungeonStart,
+    dungeonGoal,
+    Grid.eightWay
+  );
+  const walked: Array<Grid.Point> = [dungeonStart];
+  let repaired = 0;
+  yield* Effect.log("");
+  yield* Effect.log("Dynamic replanning (D* Lite):");
+  for (let step = 0; step < dungeon.width * dungeon.height; step++) {
+    const event = events.get(step);
+    for (const [cell, cost] of event?.cells ?? []) planner.setCell(cell, cost);
+    const replan = planner.replan();
+    repaired += step === 0 ? 0 : replan.expanded;
+    if (step === 0 || event !== undefined) {
+      const fresh = DStarLite.make(
+        planner.grid(),
+        planner.position(),
+        dungeonGoal,
+        Grid.eightWay
+      ).replan();
+      yield* Effect.log(
+        `  Step ${step}, ${event?.label ?? "initial plan"}: cost ${replan.cost.toFixed(2)}, expanded ${replan.expanded} (from scratch: ${fresh.expanded})`
+      );
+    }
+    const next = Option.isSome(replan.path) ? replan.path.value[1] : undefined;
+    if (next === undefined) break;
+    planner.moveTo(next);
+    walked.push(next);
+  }
+  yield* Effect.log(
+    `  Reached the goal in ${walked.length - 1} steps, ${repaired} cells re-expanded along the way`
+  );
+  for (const line of Grid.render(dungeon, walked)) {
+    yield* Effect.log(`  ${line}`);
+  }
+
+  // Keys and doors: the state is position plus keys held, so the graph to
+  // search is generated move by move instead of built from the map
+  const vault = yield* Grid.parse(
+    `
+    ###########
+    #S...A...b#
+    #.#####.###
+    #a#...GB..#
+    ###########
+  `,
+    { ...Grid.defaultLegend, a: 1, b: 1, A: 1, B: 1 }
+  );
+  const vaultStart = yield* Grid.find(vault, "S");
+  const vaultGoal = yield* Grid.find(vault, "G");
+  const directions = new Map([
+    ["0,-1", "up"],
+    ["1,0", "right"],
+    ["0,1", "down"],
+    ["-1,0", "left"],
+  ]);
+  const puzzle: StateSpace.Problem<GameState> = {
+    initial: { position: [...vaultStart], moves: 0, keys: [] },
+    isGoal: (state) => Grid.key(state.position) === Grid.key(vaultGoal),
+    key: (state) => `${Grid.key(state.position)} ${state.keys.join("")}`,
+    heuristic: (state) => Grid.manhattan(state.position, vaultGoal),
+    *successors(state) {
+      const [x, y] = state.position;
+      for (const step of Grid.neighbors(vault, state.position, Grid.cardinal)) {
+        const [nx, ny] = step.position;
+        const symbol = vault.symbols[ny * vault.width + nx] ?? "";
+        const isDoor =
+          /^[A-Z]$/.test(symbol) && symbol !== "S" && symbol !== "G";
+        if (isDoor && !state.keys.includes(symbol.toLowerCase())) continue;
+        const isKey = /^[a-z]$/.test(symbol) && !state.keys.includes(symbol);
+        yield {
+          action: directions.get(`${nx - x},${ny - y}`) ?? "move",
+          cost: step.cost,
+          state: {
+            position: [nx, ny],
+            moves: state.moves + 1,
+            keys: isKey ? [...state.keys, symbol].sort() : state.keys,
+          },
+        };
+      }
+    },
+  };
+
+  yield* Effect.log("");
+  yield* Effect.log("Keys and doors (state-space search):");
+  for (const [name, solve] of [
+    ["BFS", StateSpace.bfs],
+    ["A*", StateSpace.astar],
+    ["IDA*", StateSpace.idaStar],
+  ] as const) {
+    const solution = yield* solve(puzzle, { maxMoves: 20 });
+    if (Option.isSome(solution)) {
+      const last = solution.value.states.at(-1);
+      yield* Effect.log(
+        `  ${name}: ${last?.moves ?? 0} moves, ${solution.value.expanded} states expanded, keys ${last?.keys.join(", ") ?? "none"}`
+      );
+    }
+  }
+  const best = yield* StateSpace.astar(puzzle, { maxMoves: 20 });
+  if (Option.isSome(best)) {
+    yield* Effect.log(`  Moves: ${best.value.actions.join(" ")}`);
+  }
+  const tooFew = yield* StateSpace.astar(puzzle, { maxMoves: 16 });
+  yield* Effect.log(
+    `  Within 16 moves: ${Option.isSome(tooFew) ? "solvable" : "no solution"}`
+  );
+  const tooHard = yield* StateSpace.idaStar(puzzle, { maxExpanded: 10 }).pipe(
+    Effect.flip,
+    Effect.option
+  );
+  if (Option.isSome(tooHard)) {
+    yield* Effect.log(`  IDA* with 10 expansions: ${tooHard.value.message}`);
   }
 });
 
@@ -404,226 +854,162 @@ const visualizationExample = Effect.gen(function* () {
   // - https://dreampuf.github.io/GraphvizOnline/
   // - https://graphviz.org/gallery/
   // - VS Code GraphViz extension
-});
 
-const dfsExampleComplex = Effect.gen(function* () {
+  // Same graph for docs that render Mermaid or D2, with the happy path from
+  // Start to End highlighted
+  const happyPath = Graph.dijkstra(workflowGraph, {
+    source: 0,
+    target: 4,
+    cost: () => 1,
+  });
+  const diagramOptions: Diagrams.MermaidOptions<string, string> = {
+    nodeLabel: (node) => node,
+    edgeLabel: (edge) => edge,
+    graphName: "Workflow",
+    direction: "LR",
+    nodeShape: (node) =>
+      node === "Start" || node === "End" ? "stadium" : "rounded",
+    ...(Option.isSome(happyPath)
+      ? Diagrams.highlightPath(workflowGraph, happyPath.value.path, {
+          node: { fill: "#d1fae5", stroke: "#059669", strokeWidth: 2 },
+          edge: { stroke: "#059669", strokeWidth: 3 },
+        })
+      : {}),
+  };
+
+  yield* Effect.log("Mermaid flowchart:");
+  yield* Effect.log(Diagrams.toMermaid(workflowGraph, diagramOptions));
+  yield* Effect.log("D2:");
+  yield* Effect.log(Diagrams.toD2(workflowGraph, diagramOptions));
+
+  // Or draw it here: layered layout, sources on the left
+  yield* Svg.write(
+    "out/workflow.svg",
+    workflowGraph,
+    Layout.layered(workflowGraph, { direction: "LR" }),
+    diagramOptions
+  );
+  yield* Effect.log("SVG written to out/workflow.svg");
+
+  // And back again: read the DOT output into a new graph, decoding the
+  // attributes of every node and edge with a schema
+  const Labelled = Schema.Struct({ label: Schema.String });
+  const imported = yield* GraphImport.fromDot(dotFormat, {
+    node: Labelled,
+    edge: Labelled,
+  });
   yield* Effect.log(
-    "=== Complex DFS: Real-World Software Dependency Resolution ==="
+    `Imported "${imported.name}" from DOT: ${Graph.nodeCount(imported.graph)} nodes, ${Graph.edgeCount(imported.graph)} edges`
   );
 
-  // Real-world software dependency graph (like npm ecosystem)
-  type Package = {
-    name: string;
-    version: string;
-    description: string;
-    dependencies: string[];
+  // GraphML (like GEXF) carries typed values; a value that does not fit the
+  // schema is reported where it sits in the file
+  const schemas = {
+    node: Schema.Struct({
+      id: Schema.String,
+      name: Schema.String,
+      approvals: Schema.NonNegativeInt,
+    }),
+    edge: Schema.Struct({ sessions: Schema.Number }),
   };
-
-  const packages: Package[] = [
-    // Core framework
-    {
-      name: "react",
-      version: "18.2.0",
-      description: "UI Framework",
-      dependencies: ["react-dom", "scheduler"],
-    },
-
-    // React ecosystem
-    {
-      name: "react-dom",
-      version: "18.2.0",
-      description: "React DOM renderer",
-      dependencies: ["react", "scheduler"],
-    },
-    {
-      name: "scheduler",
-      version: "0.23.0",
-      description: "React scheduler",
-      dependencies: [],
-    },
-
-    // State management
-    {
-      name: "redux",
-      version: "4.2.1",
-      description: "State container",
-      dependencies: ["redux-thunk", "@reduxjs/toolkit"],
-    },
-    {
-      name: "redux-thunk",
-      version: "2.4.2",
-      description: "Thunk middleware",
-      dependencies: ["redux"],
-    },
-    {
-      name: "@reduxjs/toolkit",
-      version: "1.9.5",
-      description: "Redux toolkit",
-      dependencies: ["redux", "immer"],
-    },
-    {
-      name: "immer",
-      version: "9.0.21",
-      description: "Immutable state",
-      dependencies: [],
-    },
-
-    // UI libraries
-    {
-      name: "material-ui",
-      version: "5.14.0",
-      description: "Material Design components",
-      dependencies: ["react", "emotion", "@mui/system"],
-    },
-    {
-      name: "emotion",
-      version: "11.11.0",
-      description: "CSS-in-JS library",
-      dependencies: ["@emotion/react"],
-    },
-    {
-      name: "@emotion/react",
-      version: "11.11.0",
-      description: "Emotion React bindings",
-      dependencies: [],
-    },
-    {
-      name: "@mui/system",
-      version: "5.14.0",
-      description: "MUI system",
-      dependencies: ["@emotion/react"],
-    },
-
-    // Data fetching
-    {
-      name: "axios",
-      version: "1.4.0",
-      description: "HTTP client",
-      dependencies: [],
-    },
-    {
-      name: "react-query",
-      version: "4.29.0",
-      description: "Data fetching",
-      dependencies: ["react"],
-    },
-
-    // Development tools
-    {
-      name: "webpack",
-      version: "5.88.0",
-      description: "Module bundler",
-      dependencies: ["enhanced-resolve", "tapable"],
-    },
-    {
-      name: "enhanced-resolve",
-      version: "5.15.0",
-      description: "Resolver",
-      dependencies: [],
-    },
-    {
-      name: "tapable",
-      version: "2.2.1",
-      description: "Plugin system",
-      dependencies: [],
-    },
-
-    // Testing
-    {
-      name: "jest",
-      version: "29.6.0",
-      description: "Testing framework",
-      dependencies: ["@jest/core", "jest-cli"],
-    },
-    {
-      name: "@jest/core",
-      version: "29.6.0",
-      description: "Jest core",
-      dependencies: [],
-    },
-    {
-      name: "jest-cli",
-      version: "29.6.0",
-      description: "Jest CLI",
-      dependencies: ["@jest/core"],
-    },
-
-    // Our main application
-    {
-      name: "my-app",
-      version: "1.0.0",
-      description: "Main application",
-      dependencies: [
-        "react",
-        "redux",
-        "material-ui",
-        "axios",
-        "react-query",
-        "webpack",
-        "jest",
-      ],
-    },
-  ];
-
-  // Build dependency graph
-  const dependencyGraph = Graph.mutate(
-    Graph.directed<Package, "depends">(),
-    (mutable) => {
-      const nodeMap = new Map<string, number>();
-
-      // Add all packages as nodes
-      for (const pkg of packages) {
-        nodeMap.set(pkg.name, Graph.addNode(mutable, pkg));
-      }
-
-      const getNode = (name: string) => findNodeInMap(nodeMap, name);
-
-      // Add dependency edges
-      for (const pkg of packages) {
-        for (const dep of pkg.dependencies) {
-          if (nodeMap.has(dep)) {
-            Graph.addEdge(mutable, getNode(pkg.name), getNode(dep), "depends");
-          }
-        }
-      }
-    }
+  const team = (bobApprovals: number) => `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="name" for="node" attr.name="name" attr.type="string"/>
+  <key id="approvals" for="node" attr.name="approvals" attr.type="int"/>
+  <key id="sessions" for="edge" attr.name="sessions" attr.type="int"/>
+  <graph id="reviewers" edgedefault="undirected">
+    <node id="ana"><data key="name">Ana</data><data key="approvals">12</data></node>
+    <node id="bob"><data key="name">Bob</data><data key="approvals">${bobApprovals}</data></node>
+    <edge source="ana" target="bob"><data key="sessions">4</data></edge>
+  </graph>
+</graphml>`;
+  const reviewers = yield* GraphImport.fromGraphML(team(7), schemas);
+  for (const [, reviewer] of reviewers.graph.nodes) {
+    yield* Effect.log(`  ${reviewer.name}: ${reviewer.approvals} approvals`);
+  }
+  const broken = yield* GraphImport.fromGraphML(team(-1), schemas).pipe(
+    Effect.flip,
+    Effect.option
   );
+  if (Option.isSome(broken)) {
+    yield* Effect.log(
+      `  Rejected at line ${broken.value.line}, column ${broken.value.column}: ${broken.value.reason}`
+    );
+  }
+});
 
+const dfsExampleComplex = Effect.gen(function* () {
   yield* Effect.log(
-    `📦 Dependency graph built with ${dependencyGraph.nodes.size} packages and ${dependencyGraph.edges.size} dependencies`
+    "=== Complex DFS: Real-World Software Dependency Resolution ==="
   );
 
-  // DFS traversal to resolve dependencies (depth-first dependency resolution)
-  const appNode = Array.from(dependencyGraph.nodes.values()).findIndex(
-    (pkg) => pkg.name === "my-app"
+  // Our main application; every dependency is a semver range resolved
+  // against a registry with several published versions per package
+  const app: PackageResolver.Manifest = {
+    name: "my-app",
+    version: "1.0.0",
+    description: "Main application",
+    dependencies: {
+      react: "^18.2.0",
+      redux: ">=4.2.0",
+      "@reduxjs/toolkit": "^1.9.5",
+      "material-ui": "^5.14.0",
+      axios: "~1.4.0",
+      "react-query": "^4.29.0",
+      webpack: "^5.88.0",
+      jest: "^29.6.0",
+    },
+  };
+
+  // redux 5.x is tried first and dropped once @reduxjs/toolkit 1.x asks for
+  // redux ^4.2.1
+  const resolution = yield* PackageResolver.resolve(
+    PackageRegistry.registry,
+    app
   );
+  const dependencyNetwork = resolution.packages;
+  const dependencyGraph = dependencyNetwork.graph;
 
-  yield* Effect.log("  🔍 DFS Dependency Resolution Order (depth-first):");
   yield* Effect.log(
-    "This simulates how package managers like npm resolve dependencies recursively:"
+    `📦 Dependency graph resolved with ${dependencyGraph.nodes.size} packages and ${dependencyGraph.edges.size} dependencies`
   );
 
-  const dependencyOrder = Graph.dfs(dependencyGraph, { start: [appNode] });
-  const visited = new Set<number>();
+  // Depth-first walk of the resolved graph, the way `npm ls` prints it
+  const appNode = resolution.root;
+  yield* Effect.log("  🔍 Resolved Dependency Tree (depth-first):");
+  for (const line of PackageResolver.renderTree(
+    PackageResolver.tree(resolution)
+  )) {
+    yield* Effect.log(line);
+  }
 
-  for (const nodeIndex of Graph.indices(dependencyOrder)) {
-    if (!visited.has(nodeIndex)) {
-      visited.add(nodeIndex);
-      const pkg = dependencyGraph.nodes.get(nodeIndex);
-      if (pkg) {
-        const depth = Math.floor(nodeIndex / 3); // Simulate nesting depth
-        const indent = "  ".repeat(Math.min(depth, 5));
-        yield* Effect.log(
-          `${indent}📚 Install: ${pkg.name}@${pkg.version} - ${pkg.description}`
-        );
-      }
-    }
+  yield* Effect.log("  🔒 Lockfile:");
+  yield* Effect.log(PackageResolver.lockfile(resolution));
+
+  // A project that also pulls in a React 17 only charting library cannot be
+  // resolved; the error names every range involved and who asked for it
+  yield* Effect.log("  ⚔️  Resolving a project with incompatible ranges:");
+  const dashboard: PackageResolver.Manifest = {
+    name: "legacy-dashboard",
+    version: "0.9.0",
+    dependencies: { react: "^18.2.0", "legacy-charts": "^1.1.0" },
+  };
+  const conflict = yield* PackageResolver.resolve(
+    PackageRegistry.registry,
+    dashboard
+  ).pipe(Effect.flip, Effect.option);
+  if (Option.isSome(conflict)) {
+    yield* Effect.log(`❌ ${conflict.value.message}`);
   }
 
   // Detect circular dependencies using DFS
   yield* Effect.log("  🔄 Detecting Circular Dependencies:");
   const hasCycles = !Graph.isAcyclic(dependencyGraph);
   yield* Effect.log(`Circular dependencies found: ${hasCycles}`);
+  for (const cycle of Cycles.elementaryCycles(dependencyGraph)) {
+    const keys = Cycles.toKeys(dependencyNetwork, cycle);
+    yield* Effect.log(`⚠️  Circular dependency: ${keys.join(" -> ")}`);
+  }
 
   // Find all dependency paths to understand the tree structure
   yield* Effect.log("  🌳 Dependency Tree Analysis:");
@@ -635,7 +1021,7 @@ const dfsExampleComplex = Effect.gen(function* () {
     currentPath: number[] = []
   ): void => {
     if (currentPath.includes(nodeIndex)) {
-      // Circular dependency detected - will be logged later
+      // Circular dependency, already reported by Cycles.elementaryCycles
       return;
     }
 
@@ -654,9 +1040,7 @@ const dfsExampleComplex = Effect.gen(function* () {
   // Show some key dependency chains
   const keyPackages = ["react", "redux", "webpack"];
   for (const pkgName of keyPackages) {
-    const pkgIndex = Array.from(dependencyGraph.nodes.values()).findIndex(
-      (pkg) => pkg.name === pkgName
-    );
+    const pkgIndex = yield* KeyedGraph.indexOf(dependencyNetwork, pkgName);
     const path = dependencyPaths.get(pkgIndex);
     if (path) {
       const pathNames = path.map((idx) => dependencyGraph.nodes.get(idx)?.name);
@@ -862,18 +1246,18 @@ const bfsExampleComplex = Effect.gen(function* () {
   ];
 
   // Build social network graph with realistic connections
-  const socialGraph = Graph.mutate(
-    Graph.undirected<Person, { strength: number; context: string }>(),
+  const socialNetwork = yield* KeyedGraph.mutate(
+    KeyedGraph.undirected<
+      string,
+      Person,
+      { strength: number; context: string }
+    >((person) => person.id),
     (mutable) => {
-      const nodeMap = new Map<string, number>();
-
       // Add all people as nodes
       for (const person of people) {
-        nodeMap.set(person.id, Graph.addNode(mutable, person));
+        KeyedGraph.addNode(mutable, person);
       }
 
-      const getNode = (id: string) => findNodeInMap(nodeMap, id);
-
       // Create realistic social connections
       const connections: Array<
         [string, string, { strength: number; context: string }]
@@ -935,10 +1319,11 @@ const bfsExampleComplex = Effect.gen(function* () {
 
       // Add all connections
       for (const [person1, person2, edgeData] of connections) {
-        Graph.addEdge(mutable, getNode(person1), getNode(person2), edgeData);
+        KeyedGraph.addEdge(mutable, person1, person2, edgeData);
       }
     }
   );
+  const socialGraph = socialNetwork.graph;
 
   yield* Effect.log(
     `👥 Social network built with ${socialGraph.nodes.size} people and ${socialGraph.edges.size} connections`
@@ -946,9 +1331,7 @@ const bfsExampleComplex = Effect.gen(function* () {
 
   // BFS: Find degrees of separation (like "Six Degrees of Kevin Bacon")
   const startPerson = "alice"; // Alice Chen (Software Engineer)
-  const startIndex = Array.from(socialGraph.nodes.values()).findIndex(
-    (person) => person.id === startPerson
-  );
+  const startIndex = yield* KeyedGraph.indexOf(socialNetwork, startPerson);
 
   yield* Effect.log(
     `  🎭 BFS: Degrees of Separation from ${
@@ -959,20 +1342,14 @@ const bfsExampleComplex = Effect.gen(function* () {
     "This shows how BFS finds shortest paths in social networks:"
   );
 
-  const bfsTraversal = Graph.bfs(socialGraph, { start: [startIndex] });
-  const degrees = new Map<number, number>();
+  const separation = bfsLevels(socialGraph, { start: [startIndex] });
   const visitedOrder: Person[][] = [[], [], [], [], [], []]; // Up to 6 degrees
 
-  for (const nodeIndex of Graph.indices(bfsTraversal)) {
+  for (const [nodeIndex, visit] of separation.visits) {
     const person = socialGraph.nodes.get(nodeIndex);
-    if (person) {
-      // Calculate degree based on BFS level (simulated)
-      const degree = Math.min(Math.floor(nodeIndex / 4), 5); // Rough degree calculation
-      degrees.set(nodeIndex, degree);
-
-      if (degree < visitedOrder.length) {
-        visitedOrder[degree]?.push(person);
-      }
+    // Degree is the BFS level, i.e. the hop distance from Alice
+    if (person && visit.depth < visitedOrder.length) {
+      visitedOrder[visit.depth]?.push(person);
     }
   }
 
@@ -1086,9 +1463,7 @@ const bfsExampleComplex = Effect.gen(function* () {
 
   // BFS: Shortest path between two distant people
   const targetPerson = "olivia"; // Medical Researcher in Boston
-  const targetIndex = Array.from(socialGraph.nodes.values()).findIndex(
-    (person) => person.id === targetPerson
-  );
+  const targetIndex = yield* KeyedGraph.indexOf(socialNetwork, targetPerson);
 
   const shortestPath = Graph.dijkstra(socialGraph, {
     source: startIndex,
@@ -0,0 +1,254 @@
+import type { Graph } from "effect";
+import * as Adjacency from "./adjacency.ts";
+import * as PriorityQueue from "./priority-queue.ts";
+
+// ============================================================================
+// K-SHORTEST PATHS
+// ============================================================================
+//
+// Yen's algorithm for the k shortest loopless paths between two nodes, and an
+// "alternative routes" mode on top of it that skips paths sharing too much of
+// their length with a route already chosen. Paths keep their edge indices so
+// parallel edges count as different routes and overlap is measured per edge.
+
+// ===== MODELS =====
+
+export type Path = {
+  readonly nodes: ReadonlyArray<Graph.NodeIndex>;
+  readonly edges: ReadonlyArray<Graph.EdgeIndex>;
+  readonly distance: number;
+};
+
+export type KShortestConfig<E> = {
+  readonly source: Graph.NodeIndex;
+  readonly target: Graph.NodeIndex;
+  // Non-negative edge cost
+  readonly cost: (edgeData: E) => number;
+  readonly k: number;
+};
+
+export type AlternativeRoutesConfig<E> = KShortestConfig<E> & {
+  // Largest share of a route's cost that may run over an already chosen
+  // route, from 0 (fully disjoint) to 1 (anything goes)
+  readonly maxOverlap: number;
+  // How many Yen paths to examine before giving up; defaults to 10 * k
+  readonly maxCandidates?: number;
+};
+
+// ===== SHORTEST PATH WITH EXCLUSIONS =====
+
+const shortestPath = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  source: Graph.NodeIndex,
+  target: Graph.NodeIndex,
+  cost: (edgeData: E) => number,
+  removedNodes: ReadonlySet<Graph.NodeIndex>,
+  removedEdges: ReadonlySet<Graph.EdgeIndex>
+): Path | undefined => {
+  const distance = new Map<Graph.NodeIndex, number>([[source, 0]]);
+  const previous = new Map<
+    Graph.NodeIndex,
+    { node: Graph.NodeIndex; edge: Graph.EdgeIndex }
+  >();
+  const settled = new Set<Graph.NodeIndex>();
+  const queue = PriorityQueue.make<Graph.NodeIndex>();
+  queue.push(source, 0);
+
+  while (queue.size() > 0) {
+    const current = queue.pop();
+    if (current === undefined || settled.has(current)) continue;
+    settled.add(current);
+
+    if (current === target) {
+      const nodes = [current];
+      const edges: Array<Graph.EdgeIndex> = [];
+      let step = previous.get(current);
+      while (step !== undefined) {
+        nodes.push(step.node);
+        edges.push(step.edge);
+        step = previous.get(step.node);
+      }
+      return {
+        nodes: nodes.reverse(),
+        edges: edges.reverse(),
+        distance: distance.get(current) ?? 0,
+      };
+    }
+
+    const base = distance.get(current) ?? 0;
+    for (const { edgeIndex, node, data } of Adjacency.outgoing(
+      graph,
+      current
+    )) {
+      if (removedEdges.has(edgeIndex) || removedNodes.has(node)) continue;
+      const d = base + cost(data);
+      if (d < (distance.get(node) ?? Infinity)) {
+        distance.set(node, d);
+        previous.set(node, { node: current, edge: edgeIndex });
+        queue.push(node, d);
+      }
+    }
+  }
+  return undefined;
+};
+
+// ===== YEN'S ALGORITHM =====
+
+const sameEdges = (
+  a: ReadonlyArray<Graph.EdgeIndex>,
+  b: ReadonlyArray<Graph.EdgeIndex>,
+  length: number
+) => {
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+// Yields loopless paths in order of increasing distance until none are left
+function* yen<N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  config: Omit<KShortestConfig<E>, "k">
+): Generator<Path> {
+  const { source, target, cost } = config;
+  if (!graph.nodes.has(source) || !graph.nodes.has(target)) return;
+
+  const first = shortestPath(graph, source, target, cost, new Set(), new Set());
+  if (first === undefined) return;
+
+  const found: Array<Path> = [first];
+  const candidates = PriorityQueue.make<Path>();
+  const seen = new Set<string>([first.edges.join(",")]);
+  const edgeCost = (edgeIndex: Graph.EdgeIndex) => {
+    const edge = graph.edges.get(edgeIndex);
+    return edge === undefined ? 0 : cost(edge.data);
+  };
+  yield first;
+
+  while (true) {
+    const last = found[found.length - 1];
+    if (last === undefined) return;
+
+    // Deviate from the last path at every node except the target
+    let rootDistance = 0;
+    for (let i = 0; i < last.nodes.length - 1; i++) {
+      const spur = last.nodes[i];
+      if (spur === undefined) break;
+
+      // Paths sharing this root may not leave the spur the same way again
+      const removedEdges = new Set<Graph.EdgeIndex>();
+      for (const path of found) {
+        const next = path.edges[i];
+        if (next !== undefined && sameEdges(path.edges, last.edges, i)) {
+          removedEdges.add(next);
+        }
+      }
+      // Keep the path loopless
+      const removedNodes = new Set(last.nodes.slice(0, i));
+
+      const spurPath = shortestPath(
+        graph,
+        spur,
+        target,
+        cost,
+        removedNodes,
+        removedEdges
+      );
+      if (spurPath !== undefined) {
+        const candidate = {
+          nodes: [...last.nodes.slice(0, i), ...spurPath.nodes],
+          edges: [...last.edges.slice(0, i), ...spurPath.edges],
+          distance: rootDistance + spurPath.distance,
+        };
+        const key = candidate.edges.join(",");
+        if (!seen.has(key)) {
+          seen.add(key);
+          candidates.push(candidate, candidate.distance);
+        }
+      }
+
+      const rootEdge = last.edges[i];
+      if (rootEdge !== undefined) rootDistance += edgeCost(rootEdge);
+    }
+
+    const next = candidates.pop();
+    if (next === undefined) return;
+    found.push(next);
+    yield next;
+  }
+}
+
+/**
+ * The `k` shortest loopless paths from `source` to `target`, shortest first
+ * (Yen's algorithm). Fewer are returned when the graph has fewer paths.
+ */
+export const kShortestPaths = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  config: KShortestConfig<E>
+): Array<Path> => {
+  const paths: Array<Path> = [];
+  if (config.k <= 0) return paths;
+  for (const path of yen(graph, config)) {
+    paths.push(path);
+    if (paths.length >= config.k) break;
+  }
+  return paths;
+};
+
+// ===== ALTERNATIVE ROUTES =====
+
+/**
+ * Share of `path`'s cost that runs over edges of `other` (edge count when the
+ * path costs nothing).
+ */
+export const overlap = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  path: Path,
+  other: Path,
+  cost: (edgeData: E) => number
+): number => {
+  if (path.edges.length === 0) return 1;
+  const shared = new Set(other.edges);
+  const weightOf = (edgeIndex: Graph.EdgeIndex) => {
+    const edge = graph.edges.get(edgeIndex);
+    return edge === undefined ? 0 : cost(edge.data);
+  };
+
+  if (path.distance <= 0) {
+    return (
+      path.edges.filter((edgeIndex) => shared.has(edgeIndex)).length /
+      path.edges.length
+    );
+  }
+  let sharedCost = 0;
+  for (const edgeIndex of path.edges) {
+    if (shared.has(edgeIndex)) sharedCost += weightOf(edgeIndex);
+  }
+  return sharedCost / path.distance;
+};
+
+/**
+ * Up to `k` diverse routes: Yen paths in order of distance, keeping a path
+ * only when it overlaps every route kept so far by at most `maxOverlap`. The
+ * first route is always the shortest path.
+ */
+export const alternativeRoutes = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  config: AlternativeRoutesConfig<E>
+): Array<Path> => {
+  const routes: Array<Path> = [];
+  if (config.k <= 0) return routes;
+  const maxCandidates = config.maxCandidates ?? config.k * 10;
+
+  let examined = 0;
+  for (const path of yen(graph, config)) {
+    if (examined++ >= maxCandidates) break;
+    const diverse = routes.every(
+      (route) =>
+        overlap(graph, path, route, config.cost) <= config.maxOverlap + 1e-9
+    );
+    if (diverse) routes.push(path);
+    if (routes.length >= config.k) break;
+  }
+  return routes;
+};
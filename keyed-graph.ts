@@ -0,0 +1,190 @@
+import { Data, Effect, Graph } from "effect";
+
+// ============================================================================
+// KEYED GRAPH
+// ============================================================================
+//
+// Wraps `Graph.directed` / `Graph.undirected` with a key extractor so nodes
+// can be added, fetched and removed by business key (person id, product id,
+// package name...) instead of by `NodeIndex`. Lookups are O(1) and unknown
+// keys fail with `NodeNotFound` in the Effect error channel.
+
+// ===== MODELS =====
+
+export class NodeNotFound extends Data.TaggedError("NodeNotFound")<{
+  readonly key: unknown;
+}> {
+  override get message() {
+    return `Node ${String(this.key)} not found in graph`;
+  }
+}
+
+export interface KeyedGraph<K, N, E, T extends Graph.Kind = "directed"> {
+  readonly graph: Graph.Graph<N, E, T>;
+  readonly keyOf: (node: N) => K;
+  readonly indices: ReadonlyMap<K, Graph.NodeIndex>;
+}
+
+export interface MutableKeyedGraph<K, N, E, T extends Graph.Kind = "directed"> {
+  readonly graph: Graph.MutableGraph<N, E, T>;
+  readonly keyOf: (node: N) => K;
+  readonly indices: Map<K, Graph.NodeIndex>;
+}
+
+export type DirectedKeyedGraph<K, N, E> = KeyedGraph<K, N, E, "directed">;
+export type UndirectedKeyedGraph<K, N, E> = KeyedGraph<K, N, E, "undirected">;
+
+// ===== CONSTRUCTORS =====
+
+export const directed = <K, N, E>(
+  keyOf: (node: N) => K
+): DirectedKeyedGraph<K, N, E> => ({
+  graph: Graph.directed<N, E>(),
+  keyOf,
+  indices: new Map(),
+});
+
+export const undirected = <K, N, E>(
+  keyOf: (node: N) => K
+): UndirectedKeyedGraph<K, N, E> => ({
+  graph: Graph.undirected<N, E>(),
+  keyOf,
+  indices: new Map(),
+});
+
+/**
+ * Keys an existing graph. Later nodes win when two nodes share a key, the
+ * same as `addNode` does.
+ */
+export const fromGraph = <K, N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T>,
+  keyOf: (node: N) => K
+): KeyedGraph<K, N, E, T> => {
+  const indices = new Map<K, Graph.NodeIndex>();
+  for (const [index, node] of graph) {
+    indices.set(keyOf(node), index);
+  }
+  return { graph, keyOf, indices };
+};
+
+// ===== MUTATION =====
+
+/**
+ * Keyed counterpart of `Graph.mutate`. A `NodeNotFound` raised by
+ * `addEdge` / `removeNode` inside `f` aborts the mutation and surfaces in the
+ * error channel; the input graph is left untouched.
+ */
+export const mutate = <K, N, E, T extends Graph.Kind>(
+  self: KeyedGraph<K, N, E, T>,
+  f: (mutable: MutableKeyedGraph<K, N, E, T>) => void
+): Effect.Effect<KeyedGraph<K, N, E, T>, NodeNotFound> =>
+  Effect.suspend(() => {
+    const mutable: MutableKeyedGraph<K, N, E, T> = {
+      graph: Graph.beginMutation(self.graph),
+      keyOf: self.keyOf,
+      indices: new Map(self.indices),
+    };
+    try {
+      f(mutable);
+    } catch (error) {
+      if (error instanceof NodeNotFound) return Effect.fail(error);
+      throw error;
+    }
+    return Effect.succeed({
+      graph: Graph.endMutation(mutable.graph),
+      keyOf: mutable.keyOf,
+      indices: mutable.indices,
+    });
+  });
+
+/**
+ * Adds a node, or replaces the data of the node that already has its key.
+ * Either way the index of the keyed node is returned.
+ */
+export const addNode = <K, N, E, T extends Graph.Kind>(
+  mutable: MutableKeyedGraph<K, N, E, T>,
+  node: N
+): Graph.NodeIndex => {
+  const key = mutable.keyOf(node);
+  const existing = mutable.indices.get(key);
+  if (existing !== undefined) {
+    Graph.updateNode(mutable.graph, existing, () => node);
+    return existing;
+  }
+  const index = Graph.addNode(mutable.graph, node);
+  mutable.indices.set(key, index);
+  return index;
+};
+
+export const addEdge = <K, N, E, T extends Graph.Kind>(
+  mutable: MutableKeyedGraph<K, N, E, T>,
+  source: K,
+  target: K,
+  data: E
+): Graph.EdgeIndex =>
+  Graph.addEdge(
+    mutable.graph,
+    requireIndex(mutable, source),
+    requireIndex(mutable, target),
+    data
+  );
+
+export const removeNode = <K, N, E, T extends Graph.Kind>(
+  mutable: MutableKeyedGraph<K, N, E, T>,
+  key: K
+): void => {
+  Graph.removeNode(mutable.graph, requireIndex(mutable, key));
+  mutable.indices.delete(key);
+};
+
+// ===== LOOKUPS =====
+
+export const has = <K, N, E, T extends Graph.Kind>(
+  self: KeyedGraph<K, N, E, T> | MutableKeyedGraph<K, N, E, T>,
+  key: K
+): boolean => self.indices.has(key);
+
+export const indexOf = <K, N, E, T extends Graph.Kind>(
+  self: KeyedGraph<K, N, E, T>,
+  key: K
+): Effect.Effect<Graph.NodeIndex, NodeNotFound> => {
+  const index = self.indices.get(key);
+  return index === undefined
+    ? Effect.fail(new NodeNotFound({ key }))
+    : Effect.succeed(index);
+};
+
+export const getNode = <K, N, E, T extends Graph.Kind>(
+  self: KeyedGraph<K, N, E, T>,
+  key: K
+): Effect.Effect<N, NodeNotFound> =>
+  Effect.flatMap(indexOf(self, key), (index) => {
+    const node = self.graph.nodes.get(index);
+    return node === undefined
+      ? Effect.fail(new NodeNotFound({ key }))
+      : Effect.succeed(node);
+  });
+
+export const remove = <K, N, E, T extends Graph.Kind>(
+  self: KeyedGraph<K, N, E, T>,
+  key: K
+): Effect.Effect<KeyedGraph<K, N, E, T>, NodeNotFound> =>
+  mutate(self, (mutable) => removeNode(mutable, key));
+
+/** Resolves the business key of the node stored at `index`. */
+export const keyAt = <K, N, E, T extends Graph.Kind>(
+  self: KeyedGraph<K, N, E, T>,
+  index: Graph.NodeIndex
+): K | undefined => {
+  const node = self.graph.nodes.get(index);
+  return node === undefined ? undefined : self.keyOf(node);
+};
+
+const requireIndex = <K, N, E, T extends Graph.Kind>(
+  mutable: MutableKeyedGraph<K, N, E, T>,
+  key: K
+): Graph.NodeIndex => {
+  const index = mutable.indices.get(key);
+  if (index === undefined) throw new NodeNotFound({ key });
+  return index;
+};
@@ -0,0 +1,393 @@
+import type { Graph } from "effect";
+
+// ============================================================================
+// GRAPH LAYOUT
+// ============================================================================
+//
+// Node positions for drawing a graph without an external tool.
+// `forceDirected` is Fruchterman–Reingold: edges pull like springs and every
+// pair of nodes pushes apart, which suits networks without a natural
+// direction. `layered` is a Sugiyama-style layout for flows and dependency
+// graphs: nodes go in rows by depth, long edges bend through the rows they
+// cross, and rows are reordered to cut down on crossings. Cycles are allowed;
+// the edges closing them are drawn against the flow.
+
+// ===== MODELS =====
+
+// [x, y] in pixels, y growing downwards
+export type Point = readonly [number, number];
+
+export type Layout = {
+  readonly width: number;
+  readonly height: number;
+  // Centre of every node
+  readonly nodes: ReadonlyMap<Graph.NodeIndex, Point>;
+  // Points an edge passes through between its endpoints, source first;
+  // edges drawn straight have none
+  readonly bends: ReadonlyMap<Graph.EdgeIndex, ReadonlyArray<Point>>;
+};
+
+export type ForceDirectedOptions = {
+  readonly width?: number;
+  readonly height?: number;
+  readonly iterations?: number;
+  // Same seed, same layout
+  readonly seed?: number;
+};
+
+export type LayeredOptions = {
+  // `TB` puts sources at the top, `LR` on the left
+  readonly direction?: "TB" | "LR";
+  // Distance between rows; defaults suit labels of a dozen characters
+  readonly layerGap?: number;
+  // Distance between neighbours within a row
+  readonly nodeGap?: number;
+  // Barycenter sweeps used to reduce crossings
+  readonly sweeps?: number;
+};
+
+const MARGIN = 40;
+
+// ===== FORCE-DIRECTED =====
+
+// Park–Miller generator, so layouts do not change between runs
+const random = (seed: number) => {
+  let state = Math.max(1, Math.floor(seed) % 2147483647);
+  return () => {
+    state = (state * 48271) % 2147483647;
+    return state / 2147483647;
+  };
+};
+
+/**
+ * Fruchterman–Reingold layout inside a `width` x `height` frame. Edge
+ * direction and data are ignored; parallel edges pull harder.
+ */
+export const forceDirected = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>,
+  options: ForceDirectedOptions = {}
+): Layout => {
+  const width = options.width ?? 600;
+  const height = options.height ?? 400;
+  const iterations = options.iterations ?? 300;
+  const next = random(options.seed ?? 1);
+  const indices = [...graph.nodes.keys()];
+  const innerWidth = width - 2 * MARGIN;
+  const innerHeight = height - 2 * MARGIN;
+  // Ideal edge length for the space available per node
+  const k = Math.sqrt((innerWidth * innerHeight) / Math.max(1, indices.length));
+
+  const x = new Map(indices.map((i) => [i, next() * innerWidth]));
+  const y = new Map(indices.map((i) => [i, next() * innerHeight]));
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    // Cools down linearly so the layout settles
+    const temperature = (innerWidth / 10) * (1 - iteration / iterations);
+    const dx = new Map(indices.map((i) => [i, 0]));
+    const dy = new Map(indices.map((i) => [i, 0]));
+    const push = (node: Graph.NodeIndex, fx: number, fy: number) => {
+      dx.set(node, (dx.get(node) ?? 0) + fx);
+      dy.set(node, (dy.get(node) ?? 0) + fy);
+    };
+    const offset = (a: Graph.NodeIndex, b: Graph.NodeIndex) => {
+      let ox = (x.get(a) ?? 0) - (x.get(b) ?? 0);
+      let oy = (y.get(a) ?? 0) - (y.get(b) ?? 0);
+      // Nodes on top of each other still need a direction to move apart
+      if (ox === 0 && oy === 0) {
+        ox = next() - 0.5;
+        oy = next() - 0.5;
+      }
+      return [ox, oy, Math.hypot(ox, oy)] as const;
+    };
+
+    for (let i = 0; i < indices.length; i++) {
+      for (let j = i + 1; j < indices.length; j++) {
+        const a = indices[i];
+        const b = indices[j];
+        if (a === undefined || b === undefined) continue;
+        const [ox, oy, d] = offset(a, b);
+        const force = (k * k) / d;
+        push(a, (ox / d) * force, (oy / d) * force);
+        push(b, (-ox / d) * force, (-oy / d) * force);
+      }
+    }
+    for (const edge of graph.edges.values()) {
+      if (edge.source === edge.target) continue;
+      const [ox, oy, d] = offset(edge.source, edge.target);
+      const force = (d * d) / k;
+      push(edge.source, (-ox / d) * force, (-oy / d) * force);
+      push(edge.target, (ox / d) * force, (oy / d) * force);
+    }
+
+    for (const node of indices) {
+      const fx = dx.get(node) ?? 0;
+      const fy = dy.get(node) ?? 0;
+      const length = Math.hypot(fx, fy);
+      if (length === 0) continue;
+      const step = Math.min(length, temperature) / length;
+      const nx = (x.get(node) ?? 0) + fx * step;
+      const ny = (y.get(node) ?? 0) + fy * step;
+      x.set(node, Math.min(innerWidth, Math.max(0, nx)));
+      y.set(node, Math.min(innerHeight, Math.max(0, ny)));
+    }
+  }
+
+  return {
+    width,
+    height,
+    nodes: new Map(
+      indices.map((i) => [
+        i,
+        [MARGIN + (x.get(i) ?? 0), MARGIN + (y.get(i) ?? 0)] as const,
+      ])
+    ),
+    bends: new Map(),
+  };
+};
+
+// ===== LAYERED =====
+
+// Vertices of the layered graph: real nodes, and dummies standing in for the
+// rows a long edge passes through
+type Vertex = number;
+
+// Edges leaving a node on a depth-first walk back towards the walk's own
+// stack; reversing them leaves a DAG
+const backEdges = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>
+): Set<Graph.EdgeIndex> => {
+  const outgoing = new Map<
+    Graph.NodeIndex,
+    Array<[Graph.EdgeIndex, Graph.NodeIndex]>
+  >();
+  for (const [index, edge] of graph.edges) {
+    const list = outgoing.get(edge.source) ?? [];
+    list.push([index, edge.target]);
+    outgoing.set(edge.source, list);
+  }
+  const reversed = new Set<Graph.EdgeIndex>();
+  const state = new Map<Graph.NodeIndex, "active" | "done">();
+  for (const root of graph.nodes.keys()) {
+    if (state.has(root)) continue;
+    // Iterative DFS: node plus how many of its edges were looked at
+    const stack: Array<[Graph.NodeIndex, number]> = [[root, 0]];
+    state.set(root, "active");
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      if (top === undefined) break;
+      const [node, position] = top;
+      const edge = (outgoing.get(node) ?? [])[position];
+      if (edge === undefined) {
+        state.set(node, "done");
+        stack.pop();
+        continue;
+      }
+      top[1]++;
+      const [index, target] = edge;
+      const seen = state.get(target);
+      if (seen === "active") reversed.add(index);
+      else if (seen === undefined) {
+        state.set(target, "active");
+        stack.push([target, 0]);
+      }
+    }
+  }
+  return reversed;
+};
+
+const countCrossings = (
+  upper: ReadonlyArray<Vertex>,
+  lower: ReadonlyArray<Vertex>,
+  down: ReadonlyMap<Vertex, ReadonlyArray<Vertex>>
+) => {
+  const position = new Map(lower.map((v, i) => [v, i]));
+  const segments: Array<[number, number]> = [];
+  upper.forEach((v, i) => {
+    for (const w of down.get(v) ?? []) segments.push([i, position.get(w) ?? 0]);
+  });
+  let crossings = 0;
+  for (let a = 0; a < segments.length; a++) {
+    for (let b = a + 1; b < segments.length; b++) {
+      const [a1, a2] = segments[a] ?? [0, 0];
+      const [b1, b2] = segments[b] ?? [0, 0];
+      if ((a1 - b1) * (a2 - b2) < 0) crossings++;
+    }
+  }
+  return crossings;
+};
+
+/**
+ * Sugiyama-style layered layout: cycles are broken by reversing the edges a
+ * depth-first walk finds pointing back, nodes are placed on the row after
+ * their deepest predecessor, and rows are reordered by the barycenter of
+ * their neighbours, keeping the order with the fewest crossings.
+ */
+export const layered = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>,
+  options: LayeredOptions = {}
+): Layout => {
+  // Labels run horizontally, so rows need more room side by side
+  const horizontal = options.direction === "LR";
+  const layerGap = options.layerGap ?? (horizontal ? 170 : 90);
+  const nodeGap = options.nodeGap ?? (horizontal ? 70 : 150);
+  const sweeps = options.sweeps ?? 8;
+  const reversed = backEdges(graph);
+
+  // Edges as drawn top to bottom, without self-loops
+  const flow: Array<{
+    index: Graph.EdgeIndex;
+    from: Graph.NodeIndex;
+    to: Graph.NodeIndex;
+  }> = [];
+  for (const [index, edge] of graph.edges) {
+    if (edge.source === edge.target) continue;
+    flow.push(
+      reversed.has(index)
+        ? { index, from: edge.target, to: edge.source }
+        : { index, from: edge.source, to: edge.target }
+    );
+  }
+
+  // Longest-path layering in topological order
+  const layerOf = new Map<Vertex, number>();
+  const indegree = new Map<Graph.NodeIndex, number>();
+  for (const node of graph.nodes.keys()) indegree.set(node, 0);
+  for (const { to } of flow) indegree.set(to, (indegree.get(to) ?? 0) + 1);
+  const successors = new Map<Graph.NodeIndex, Array<Graph.NodeIndex>>();
+  for (const { from, to } of flow) {
+    successors.set(from, [...(successors.get(from) ?? []), to]);
+  }
+  const ready = [...graph.nodes.keys()].filter((n) => indegree.get(n) === 0);
+  for (const node of ready) layerOf.set(node, 0);
+  while (ready.length > 0) {
+    const node = ready.shift();
+    if (node === undefined) break;
+    for (const to of successors.get(node) ?? []) {
+      layerOf.set(
+        to,
+        Math.max(layerOf.get(to) ?? 0, (layerOf.get(node) ?? 0) + 1)
+      );
+      const remaining = (indegree.get(to) ?? 0) - 1;
+      indegree.set(to, remaining);
+      if (remaining === 0) ready.push(to);
+    }
+  }
+
+  // Split long edges into one-row hops through dummy vertices
+  let nextDummy = Math.max(-1, ...graph.nodes.keys()) + 1;
+  const down = new Map<Vertex, Array<Vertex>>();
+  const up = new Map<Vertex, Array<Vertex>>();
+  const chains = new Map<Graph.EdgeIndex, Array<Vertex>>();
+  const link = (a: Vertex, b: Vertex) => {
+    down.set(a, [...(down.get(a) ?? []), b]);
+    up.set(b, [...(up.get(b) ?? []), a]);
+  };
+  for (const { index, from, to } of flow) {
+    const start = layerOf.get(from) ?? 0;
+    const end = layerOf.get(to) ?? 0;
+    const chain: Array<Vertex> = [];
+    let previous: Vertex = from;
+    for (let layer = start + 1; layer < end; layer++) {
+      const dummy = nextDummy++;
+      layerOf.set(dummy, layer);
+      chain.push(dummy);
+      link(previous, dummy);
+      previous = dummy;
+    }
+    link(previous, to);
+    chains.set(index, chain);
+  }
+
+  // Rows in order of first appearance, then barycenter sweeps
+  const rows: Array<Array<Vertex>> = [];
+  for (const [vertex, layer] of layerOf) {
+    while (rows.length <= layer) rows.push([]);
+    rows[layer]?.push(vertex);
+  }
+  const total = (candidate: ReadonlyArray<ReadonlyArray<Vertex>>) => {
+    let crossings = 0;
+    for (let i = 0; i + 1 < candidate.length; i++) {
+      crossings += countCrossings(
+        candidate[i] ?? [],
+        candidate[i + 1] ?? [],
+        down
+      );
+    }
+    return crossings;
+  };
+  const reorder = (
+    row: ReadonlyArray<Vertex>,
+    reference: ReadonlyArray<Vertex>,
+    neighbours: ReadonlyMap<Vertex, ReadonlyArray<Vertex>>
+  ) => {
+    const position = new Map(reference.map((v, i) => [v, i]));
+    const barycenter = new Map(
+      row.map((v, i) => {
+        const around = (neighbours.get(v) ?? []).map(
+          (w) => position.get(w) ?? 0
+        );
+        return [
+          v,
+          around.length === 0
+            ? i
+            : around.reduce((sum, p) => sum + p, 0) / around.length,
+        ];
+      })
+    );
+    // Stable, so ties keep their current order
+    return [...row].sort(
+      (a, b) => (barycenter.get(a) ?? 0) - (barycenter.get(b) ?? 0)
+    );
+  };
+
+  let best = rows.map((row) => [...row]);
+  let fewest = total(best);
+  for (let sweep = 0; sweep < sweeps && fewest > 0; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let i = 1; i < rows.length; i++) {
+        rows[i] = reorder(rows[i] ?? [], rows[i - 1] ?? [], up);
+      }
+    } else {
+      for (let i = rows.length - 2; i >= 0; i--) {
+        rows[i] = reorder(rows[i] ?? [], rows[i + 1] ?? [], down);
+      }
+    }
+    const crossings = total(rows);
+    if (crossings < fewest) {
+      fewest = crossings;
+      best = rows.map((row) => [...row]);
+    }
+  }
+
+  // Rows centred on the widest one
+  const widest = Math.max(1, ...best.map((row) => row.length));
+  const place = new Map<Vertex, Point>();
+  best.forEach((row, layer) => {
+    const shift = ((widest - row.length) * nodeGap) / 2;
+    row.forEach((vertex, i) => {
+      const across = MARGIN + shift + i * nodeGap + nodeGap / 2;
+      const along = MARGIN + layer * layerGap + layerGap / 2;
+      place.set(vertex, horizontal ? [along, across] : [across, along]);
+    });
+  });
+
+  const nodes = new Map<Graph.NodeIndex, Point>();
+  for (const node of graph.nodes.keys()) {
+    nodes.set(node, place.get(node) ?? [MARGIN, MARGIN]);
+  }
+  const bends = new Map<Graph.EdgeIndex, ReadonlyArray<Point>>();
+  for (const [index, chain] of chains) {
+    if (chain.length === 0) continue;
+    const points = chain.flatMap((v) => {
+      const point = place.get(v);
+      return point === undefined ? [] : [point];
+    });
+    bends.set(index, reversed.has(index) ? points.reverse() : points);
+  }
+
+  const across = 2 * MARGIN + widest * nodeGap;
+  const along = 2 * MARGIN + best.length * layerGap;
+  return horizontal
+    ? { width: along, height: across, nodes, bends }
+    : { width: across, height: along, nodes, bends };
+};
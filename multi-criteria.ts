@@ -0,0 +1,179 @@
+import { Graph, Option } from "effect";
+import * as Adjacency from "./adjacency.ts";
+import * as PriorityQueue from "./priority-queue.ts";
+
+// ============================================================================
+// MULTI-CRITERIA ROUTING
+// ============================================================================
+//
+// Routes over edges that carry several costs at once (distance, time,
+// tolls...). Each criterion is a function from edge data to a non-negative
+// number. `paretoRoutes` returns every route that no other route beats on all
+// criteria at once; `weightedRoute` collapses the criteria into one cost with
+// per-criterion weights and runs `Graph.dijkstra`.
+
+// ===== MODELS =====
+
+export type Criteria<E, K extends string> = {
+  readonly [C in K]: (edgeData: E) => number;
+};
+
+export type CostVector<K extends string> = { readonly [C in K]: number };
+
+export type Route<K extends string> = {
+  readonly path: ReadonlyArray<Graph.NodeIndex>;
+  readonly costs: CostVector<K>;
+};
+
+export type WeightedRoute<K extends string> = Route<K> & {
+  // Weighted sum that was minimised
+  readonly score: number;
+};
+
+export type RouteConfig<E, K extends string> = {
+  readonly source: Graph.NodeIndex;
+  readonly target: Graph.NodeIndex;
+  readonly criteria: Criteria<E, K>;
+};
+
+export type WeightedRouteConfig<E, K extends string> = RouteConfig<E, K> & {
+  // Criteria left out weigh 0
+  readonly weights: { readonly [C in K]?: number };
+};
+
+// A partial route: cost vector so far plus the label it was extended from
+type Label = {
+  readonly node: Graph.NodeIndex;
+  readonly costs: ReadonlyArray<number>;
+  readonly previous: Label | undefined;
+};
+
+// ===== HELPERS =====
+
+const keysOf = <E, K extends string>(criteria: Criteria<E, K>) =>
+  Object.keys(criteria) as Array<K>;
+
+// `a` is at least as good everywhere (equal vectors count, so duplicates of a
+// route are dropped as well)
+const dominates = (a: ReadonlyArray<number>, b: ReadonlyArray<number>) =>
+  a.every((value, i) => value <= (b[i] ?? Infinity));
+
+const toCostVector = <K extends string>(
+  keys: ReadonlyArray<K>,
+  values: ReadonlyArray<number>
+): CostVector<K> => {
+  const costs: Partial<Record<K, number>> = {};
+  keys.forEach((key, i) => {
+    costs[key] = values[i] ?? 0;
+  });
+  return costs as CostVector<K>;
+};
+
+// ===== PARETO ROUTES =====
+
+/**
+ * Every Pareto-optimal route from `source` to `target` (multi-objective
+ * label setting, after Martins). Partial routes are expanded in order of the
+ * sum of their costs: with non-negative costs a dominating route always has
+ * a smaller sum, so a route that is dominated when it comes off the queue
+ * can be dropped for good. Results are sorted by the first criterion.
+ */
+export const paretoRoutes = <N, E, T extends Graph.Kind, K extends string>(
+  graph: Graph.Graph<N, E, T>,
+  config: RouteConfig<E, K>
+): Array<Route<K>> => {
+  const keys = keysOf(config.criteria);
+  const settled = new Map<Graph.NodeIndex, Array<Label>>();
+  const queue = PriorityQueue.make<Label>();
+  const sum = (costs: ReadonlyArray<number>) =>
+    costs.reduce((total, value) => total + value, 0);
+
+  if (!graph.nodes.has(config.source) || !graph.nodes.has(config.target)) {
+    return [];
+  }
+  const start = keys.map(() => 0);
+  queue.push({ node: config.source, costs: start, previous: undefined }, 0);
+
+  const isDominated = (node: Graph.NodeIndex, costs: ReadonlyArray<number>) =>
+    (settled.get(node) ?? []).some((label) => dominates(label.costs, costs)) ||
+    // Nothing worse than a finished route can lead to a better one
+    (settled.get(config.target) ?? []).some((label) =>
+      dominates(label.costs, costs)
+    );
+
+  while (queue.size() > 0) {
+    const label = queue.pop();
+    if (label === undefined || isDominated(label.node, label.costs)) continue;
+
+    const labels = settled.get(label.node) ?? [];
+    labels.push(label);
+    settled.set(label.node, labels);
+    if (label.node === config.target) continue;
+
+    for (const { node, data } of Adjacency.outgoing(graph, label.node)) {
+      const costs = keys.map(
+        (key, i) => (label.costs[i] ?? 0) + config.criteria[key](data)
+      );
+      if (isDominated(node, costs)) continue;
+      queue.push({ node, costs, previous: label }, sum(costs));
+    }
+  }
+
+  return (settled.get(config.target) ?? [])
+    .map((label) => {
+      const path: Array<Graph.NodeIndex> = [];
+      for (let l: Label | undefined = label; l !== undefined; l = l.previous) {
+        path.push(l.node);
+      }
+      return { path: path.reverse(), costs: toCostVector(keys, label.costs) };
+    })
+    .sort((a, b) => {
+      for (const key of keys) {
+        const order = a.costs[key] - b.costs[key];
+        if (order !== 0) return order;
+      }
+      return 0;
+    });
+};
+
+// ===== WEIGHTED SUM =====
+
+/**
+ * Best route for one trade-off: Dijkstra on the weighted sum of the criteria.
+ * The result reports every criterion along the chosen path, not just the
+ * score. Always one of the Pareto-optimal routes when all weights are
+ * positive.
+ */
+export const weightedRoute = <N, E, T extends Graph.Kind, K extends string>(
+  graph: Graph.Graph<N, E, T>,
+  config: WeightedRouteConfig<E, K>
+): Option.Option<WeightedRoute<K>> => {
+  const keys = keysOf(config.criteria);
+  const score = (edgeData: E) =>
+    keys.reduce(
+      (total, key) =>
+        total + (config.weights[key] ?? 0) * config.criteria[key](edgeData),
+      0
+    );
+
+  return Option.map(
+    Graph.dijkstra(graph, {
+      source: config.source,
+      target: config.target,
+      cost: score,
+    }),
+    (result) => ({
+      path: result.path,
+      score: result.distance,
+      costs: toCostVector(
+        keys,
+        keys.map((key) =>
+          result.costs.reduce(
+            (total, edgeData) => total + config.criteria[key](edgeData),
+            0
+          )
+        )
+      ),
+    })
+  );
+};
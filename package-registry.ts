@@ -0,0 +1,260 @@
+import type { Manifest } from "./package-resolver.ts";
+
+// ============================================================================
+// PACKAGE REGISTRY FIXTURE
+// ============================================================================
+//
+// A small npm-like registry for the dependency resolution example: several
+// published versions per package with real-world looking ranges, including
+// the `react <-> react-dom` and `redux <-> redux-thunk` cycles and a legacy
+// charting package that only supports React 17.
+
+export const registry: ReadonlyArray<Manifest> = [
+  // Core framework
+  {
+    name: "react",
+    version: "17.0.2",
+    description: "UI Framework",
+    dependencies: { "react-dom": "^17.0.2", scheduler: "^0.20.2" },
+  },
+  {
+    name: "react",
+    version: "18.2.0",
+    description: "UI Framework",
+    dependencies: { "react-dom": "^18.2.0", scheduler: "^0.23.0" },
+  },
+  {
+    name: "react",
+    version: "18.3.1",
+    description: "UI Framework",
+    dependencies: { "react-dom": "^18.3.1", scheduler: "^0.23.2" },
+  },
+
+  // React ecosystem
+  {
+    name: "react-dom",
+    version: "17.0.2",
+    description: "React DOM renderer",
+    dependencies: { react: "17.0.2", scheduler: "^0.20.2" },
+  },
+  {
+    name: "react-dom",
+    version: "18.2.0",
+    description: "React DOM renderer",
+    dependencies: { react: "^18.2.0", scheduler: "^0.23.0" },
+  },
+  {
+    name: "react-dom",
+    version: "18.3.1",
+    description: "React DOM renderer",
+    dependencies: { react: "^18.3.1", scheduler: "^0.23.2" },
+  },
+  {
+    name: "scheduler",
+    version: "0.20.2",
+    description: "React scheduler",
+    dependencies: {},
+  },
+  {
+    name: "scheduler",
+    version: "0.23.0",
+    description: "React scheduler",
+    dependencies: {},
+  },
+  {
+    name: "scheduler",
+    version: "0.23.2",
+    description: "React scheduler",
+    dependencies: {},
+  },
+
+  // State management
+  {
+    name: "redux",
+    version: "4.2.1",
+    description: "State container",
+    dependencies: { "redux-thunk": "^2.4.2", "@reduxjs/toolkit": "^1.9.5" },
+  },
+  {
+    name: "redux",
+    version: "5.0.1",
+    description: "State container",
+    dependencies: { "redux-thunk": "^3.1.0", "@reduxjs/toolkit": "^2.0.0" },
+  },
+  {
+    name: "redux-thunk",
+    version: "2.4.2",
+    description: "Thunk middleware",
+    dependencies: { redux: "^4" },
+  },
+  {
+    name: "redux-thunk",
+    version: "3.1.0",
+    description: "Thunk middleware",
+    dependencies: { redux: "^5.0.0" },
+  },
+  {
+    name: "@reduxjs/toolkit",
+    version: "1.9.5",
+    description: "Redux toolkit",
+    dependencies: { redux: "^4.2.1", immer: "^9.0.21" },
+  },
+  {
+    name: "@reduxjs/toolkit",
+    version: "2.0.0",
+    description: "Redux toolkit",
+    dependencies: { redux: "^5.0.0", immer: "^10.0.3" },
+  },
+  {
+    name: "immer",
+    version: "9.0.21",
+    description: "Immutable state",
+    dependencies: {},
+  },
+  {
+    name: "immer",
+    version: "10.0.3",
+    description: "Immutable state",
+    dependencies: {},
+  },
+
+  // UI libraries
+  {
+    name: "material-ui",
+    version: "5.14.0",
+    description: "Material Design components",
+    dependencies: {
+      react: "^17.0.0 || ^18.0.0",
+      emotion: "^11.11.0",
+      "@mui/system": "^5.14.0",
+    },
+  },
+  {
+    name: "emotion",
+    version: "11.10.0",
+    description: "CSS-in-JS library",
+    dependencies: { "@emotion/react": "^11.10.0" },
+  },
+  {
+    name: "emotion",
+    version: "11.11.0",
+    description: "CSS-in-JS library",
+    dependencies: { "@emotion/react": "^11.11.0" },
+  },
+  {
+    name: "@emotion/react",
+    version: "11.10.6",
+    description: "Emotion React bindings",
+    dependencies: {},
+  },
+  {
+    name: "@emotion/react",
+    version: "11.11.1",
+    description: "Emotion React bindings",
+    dependencies: {},
+  },
+  {
+    name: "@mui/system",
+    version: "5.14.0",
+    description: "MUI system",
+    dependencies: { "@emotion/react": "^11.11.0" },
+  },
+  {
+    name: "@mui/system",
+    version: "5.15.0-beta.1",
+    description: "MUI system",
+    dependencies: { "@emotion/react": "^11.11.0" },
+  },
+
+  // Data fetching
+  {
+    name: "axios",
+    version: "1.4.0",
+    description: "HTTP client",
+    dependencies: {},
+  },
+  {
+    name: "axios",
+    version: "1.6.2",
+    description: "HTTP client",
+    dependencies: {},
+  },
+  {
+    name: "react-query",
+    version: "4.29.0",
+    description: "Data fetching",
+    dependencies: { react: "^16.8.0 || ^17.0.0 || ^18.0.0" },
+  },
+
+  // Charts
+  {
+    name: "legacy-charts",
+    version: "1.1.0",
+    description: "Charting components",
+    dependencies: { react: "^16.8.0 || ^17.0.0" },
+  },
+  {
+    name: "legacy-charts",
+    version: "1.2.0",
+    description: "Charting components",
+    dependencies: { react: "^17.0.0" },
+  },
+
+  // Development tools
+  {
+    name: "webpack",
+    version: "5.88.0",
+    description: "Module bundler",
+    dependencies: { "enhanced-resolve": "^5.15.0", tapable: "^2.2.0" },
+  },
+  {
+    name: "enhanced-resolve",
+    version: "5.15.0",
+    description: "Resolver",
+    dependencies: { tapable: "^2.2.0" },
+  },
+  {
+    name: "tapable",
+    version: "2.2.1",
+    description: "Plugin system",
+    dependencies: {},
+  },
+
+  // Testing
+  {
+    name: "jest",
+    version: "29.6.0",
+    description: "Testing framework",
+    dependencies: { "@jest/core": "29.6.0", "jest-cli": "29.6.0" },
+  },
+  {
+    name: "jest",
+    version: "29.7.0",
+    description: "Testing framework",
+    dependencies: { "@jest/core": "29.7.0", "jest-cli": "29.7.0" },
+  },
+  {
+    name: "@jest/core",
+    version: "29.6.0",
+    description: "Jest core",
+    dependencies: {},
+  },
+  {
+    name: "@jest/core",
+    version: "29.7.0",
+    description: "Jest core",
+    dependencies: {},
+  },
+  {
+    name: "jest-cli",
+    version: "29.6.0",
+    description: "Jest CLI",
+    dependencies: { "@jest/core": "29.6.0" },
+  },
+  {
+    name: "jest-cli",
+    version: "29.7.0",
+    description: "Jest CLI",
+    dependencies: { "@jest/core": "29.7.0" },
+  },
+];
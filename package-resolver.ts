@@ -0,0 +1,410 @@
+import { Data, Effect, Graph, Option } from "effect";
+import * as KeyedGraph from "./keyed-graph.ts";
+import * as Semver from "./semver.ts";
+
+// ============================================================================
+// PACKAGE RESOLVER
+// ============================================================================
+//
+// Picks one version per package name from a registry so that every semver
+// range along the way is satisfied. Packages are resolved breadth-first from
+// the root, newest compatible version first; when a later requirement rules
+// out an earlier pick the resolver backtracks and tries older versions.
+// Cycles (`react <-> react-dom`) are allowed, as they are on npm.
+
+// ===== MODELS =====
+
+export type Manifest = {
+  readonly name: string;
+  readonly version: string;
+  readonly description?: string;
+  // Dependency name -> semver range
+  readonly dependencies: Readonly<Record<string, string>>;
+};
+
+// A range together with who asked for it, e.g.
+// `["my-app@1.0.0", "material-ui@5.14.0"]` requiring `react@^18.0.0`
+export type Requirement = {
+  readonly range: string;
+  readonly chain: ReadonlyArray<string>;
+};
+
+export class PackageNotFound extends Data.TaggedError("PackageNotFound")<{
+  readonly name: string;
+  readonly chain: ReadonlyArray<string>;
+}> {
+  override get message() {
+    return `Package ${this.name} (required by ${this.chain.join(" > ")}) is not in the registry`;
+  }
+}
+
+export class InvalidRange extends Data.TaggedError("InvalidRange")<{
+  readonly name: string;
+  readonly range: string;
+  readonly chain: ReadonlyArray<string>;
+}> {
+  override get message() {
+    return `Invalid version range "${this.range}" for ${this.name} (required by ${this.chain.join(" > ")})`;
+  }
+}
+
+export class VersionConflict extends Data.TaggedError("VersionConflict")<{
+  readonly name: string;
+  readonly requirements: ReadonlyArray<Requirement>;
+}> {
+  override get message() {
+    const requirements = this.requirements.map(
+      ({ range, chain }) => `${range} (${chain.join(" > ")})`
+    );
+    return `No version of ${this.name} satisfies ${requirements.join(" and ")}`;
+  }
+}
+
+export type ResolveError = PackageNotFound | InvalidRange | VersionConflict;
+
+export type ResolvedPackage = {
+  readonly name: string;
+  readonly version: string;
+  readonly description?: string;
+  readonly dependencies: Readonly<Record<string, string>>;
+  // Shortest chain of packages that pulled this one in, ending with itself
+  readonly chain: ReadonlyArray<string>;
+};
+
+export type Resolution = {
+  readonly root: Graph.NodeIndex;
+  // Edges point from a package to a dependency and carry the requested range
+  readonly packages: KeyedGraph.DirectedKeyedGraph<
+    string,
+    ResolvedPackage,
+    string
+  >;
+};
+
+export type DependencyTree = {
+  readonly name: string;
+  readonly version: string;
+  // Range requested by the parent; undefined for the root
+  readonly range: string | undefined;
+  // `deduped`: already listed elsewhere; `circular`: an ancestor of itself
+  readonly status: "installed" | "deduped" | "circular";
+  readonly dependencies: ReadonlyArray<DependencyTree>;
+};
+
+// ===== RESOLUTION =====
+
+type Candidate = {
+  readonly manifest: Manifest;
+  readonly version: Semver.Version;
+};
+
+type Selection = {
+  readonly candidate: Candidate;
+  readonly chain: ReadonlyArray<string>;
+};
+
+type State = {
+  readonly selected: ReadonlyMap<string, Selection>;
+  readonly requirements: ReadonlyMap<
+    string,
+    ReadonlyArray<Requirement & { readonly parsed: Semver.Range }>
+  >;
+  // Names waiting for a version, in the order they were discovered
+  readonly pending: ReadonlyArray<string>;
+};
+
+const entries = (dependencies: Readonly<Record<string, string>>) =>
+  Object.entries(dependencies).sort(([a], [b]) => (a < b ? -1 : 1));
+
+const idOf = (manifest: Manifest) => `${manifest.name}@${manifest.version}`;
+
+/**
+ * Resolves `root` against `registry`. Fails with the first dead end of the
+ * search: a missing package, an unparsable range, or the requirements that
+ * left no version of a package standing.
+ */
+export const resolve = (
+  registry: ReadonlyArray<Manifest>,
+  root: Manifest
+): Effect.Effect<Resolution, ResolveError> =>
+  Effect.suspend(() => {
+    // Name -> versions, newest first
+    const versions = new Map<string, Array<Candidate>>();
+    for (const manifest of registry) {
+      const parsed = Semver.parse(manifest.version);
+      if (Option.isNone(parsed)) continue;
+      const list = versions.get(manifest.name) ?? [];
+      list.push({ manifest, version: parsed.value });
+      versions.set(manifest.name, list);
+    }
+    for (const list of versions.values()) {
+      list.sort((a, b) => Semver.compare(b.version, a.version));
+    }
+
+    let firstFailure: ResolveError | undefined;
+    const fail = (error: ResolveError) => {
+      firstFailure ??= error;
+      return undefined;
+    };
+
+    // Records the dependencies of a freshly selected package
+    const select = (
+      state: State,
+      name: string,
+      selection: Selection
+    ): State | undefined => {
+      const selected = new Map(state.selected).set(name, selection);
+      const requirements = new Map(state.requirements);
+      const pending = [...state.pending];
+
+      for (const [dependency, range] of entries(
+        selection.candidate.manifest.dependencies
+      )) {
+        const parsed = Semver.parseRange(range);
+        if (Option.isNone(parsed)) {
+          return fail(
+            new InvalidRange({
+              name: dependency,
+              range,
+              chain: selection.chain,
+            })
+          );
+        }
+        const requirement = {
+          range,
+          chain: selection.chain,
+          parsed: parsed.value,
+        };
+        const all = [...(requirements.get(dependency) ?? []), requirement];
+        requirements.set(dependency, all);
+
+        const existing = selected.get(dependency);
+        if (existing === undefined) {
+          if (!pending.includes(dependency)) pending.push(dependency);
+        } else if (
+          !Semver.satisfies(existing.candidate.version, parsed.value)
+        ) {
+          return fail(
+            new VersionConflict({
+              name: dependency,
+              requirements: all.map(({ range, chain }) => ({ range, chain })),
+            })
+          );
+        }
+      }
+      return { selected, requirements, pending };
+    };
+
+    const solve = (state: State): State | undefined => {
+      const [name, ...rest] = state.pending;
+      if (name === undefined) return state;
+      const next = { ...state, pending: rest };
+
+      const requirements = state.requirements.get(name) ?? [];
+      const available = versions.get(name);
+      if (available === undefined) {
+        return fail(
+          new PackageNotFound({ name, chain: requirements[0]?.chain ?? [] })
+        );
+      }
+
+      const candidates = available.filter(({ version }) =>
+        requirements.every(({ parsed }) => Semver.satisfies(version, parsed))
+      );
+      if (candidates.length === 0) {
+        return fail(
+          new VersionConflict({
+            name,
+            requirements: requirements.map(({ range, chain }) => ({
+              range,
+              chain,
+            })),
+          })
+        );
+      }
+
+      for (const candidate of candidates) {
+        const chain = [
+          ...(requirements[0]?.chain ?? []),
+          idOf(candidate.manifest),
+        ];
+        const afterSelect = select(next, name, { candidate, chain });
+        const solved = afterSelect && solve(afterSelect);
+        if (solved !== undefined) return solved;
+      }
+      return undefined;
+    };
+
+    // The root only needs a version when something depends back on it
+    const rootVersion = Option.getOrElse(Semver.parse(root.version), () => ({
+      major: 0,
+      minor: 0,
+      patch: 0,
+      prerelease: [],
+    }));
+    const initial = select(
+      { selected: new Map(), requirements: new Map(), pending: [] },
+      root.name,
+      {
+        candidate: { manifest: root, version: rootVersion },
+        chain: [idOf(root)],
+      }
+    );
+    const solved = initial && solve(initial);
+    if (solved === undefined) {
+      return Effect.fail(
+        firstFailure ??
+          new VersionConflict({ name: root.name, requirements: [] })
+      );
+    }
+
+    return Effect.succeed(toResolution(solved, root.name));
+  });
+
+const toResolution = (state: State, rootName: string): Resolution => {
+  const indices = new Map<string, Graph.NodeIndex>();
+  const graph = Graph.directed<ResolvedPackage, string>((mutable) => {
+    const names = Array.from(state.selected.keys()).sort((a, b) =>
+      a === rootName ? -1 : b === rootName ? 1 : a < b ? -1 : 1
+    );
+    for (const name of names) {
+      const selection = state.selected.get(name);
+      if (selection === undefined) continue;
+      const { manifest } = selection.candidate;
+      indices.set(
+        name,
+        Graph.addNode(mutable, {
+          name,
+          version: manifest.version,
+          description: manifest.description,
+          dependencies: manifest.dependencies,
+          chain: selection.chain,
+        })
+      );
+    }
+    for (const [name, source] of indices) {
+      const selection = state.selected.get(name);
+      if (selection === undefined) continue;
+      for (const [dependency, range] of entries(
+        selection.candidate.manifest.dependencies
+      )) {
+        const target = indices.get(dependency);
+        if (target !== undefined) Graph.addEdge(mutable, source, target, range);
+      }
+    }
+  });
+
+  return {
+    root: indices.get(rootName) ?? 0,
+    packages: KeyedGraph.fromGraph(graph, (pkg) => pkg.name),
+  };
+};
+
+// ===== OUTPUT =====
+
+/**
+ * Deterministic JSON lockfile: packages sorted by name, each with its pinned
+ * version and the pinned versions of its dependencies.
+ */
+export const lockfile = (resolution: Resolution): string => {
+  const { graph } = resolution.packages;
+  const rootPackage = graph.nodes.get(resolution.root);
+  const packages: Record<string, unknown> = {};
+
+  const sorted = Array.from(graph)
+    .filter(([nodeIndex]) => nodeIndex !== resolution.root)
+    .sort(([, a], [, b]) => (a.name < b.name ? -1 : 1));
+  for (const [, pkg] of sorted) {
+    const dependencies: Record<string, string> = {};
+    for (const [name] of entries(pkg.dependencies)) {
+      const dependency = Option.flatMap(
+        Option.fromNullable(resolution.packages.indices.get(name)),
+        (index) => Option.fromNullable(graph.nodes.get(index))
+      );
+      if (Option.isSome(dependency)) {
+        dependencies[name] = dependency.value.version;
+      }
+    }
+    packages[pkg.name] = {
+      version: pkg.version,
+      dependencies,
+    };
+  }
+
+  return JSON.stringify(
+    {
+      lockfileVersion: 1,
+      root:
+        rootPackage === undefined
+          ? null
+          : `${rootPackage.name}@${rootPackage.version}`,
+      packages,
+    },
+    null,
+    2
+  );
+};
+
+/**
+ * Nested dependency tree in depth-first order, like `npm ls`. A package is
+ * expanded the first time it appears; later occurrences are `deduped` and
+ * references back to an ancestor are `circular`.
+ */
+export const tree = (resolution: Resolution): DependencyTree => {
+  const { graph } = resolution.packages;
+  const expanded = new Set<Graph.NodeIndex>();
+
+  const visit = (
+    nodeIndex: Graph.NodeIndex,
+    range: string | undefined,
+    ancestors: ReadonlySet<Graph.NodeIndex>
+  ): DependencyTree => {
+    const pkg = graph.nodes.get(nodeIndex);
+    const name = pkg?.name ?? String(nodeIndex);
+    const version = pkg?.version ?? "";
+
+    if (ancestors.has(nodeIndex)) {
+      return { name, version, range, status: "circular", dependencies: [] };
+    }
+    if (expanded.has(nodeIndex)) {
+      return { name, version, range, status: "deduped", dependencies: [] };
+    }
+    expanded.add(nodeIndex);
+
+    const path = new Set(ancestors).add(nodeIndex);
+    const dependencies = Array.from(graph.adjacency.get(nodeIndex) ?? [])
+      .flatMap((edgeIndex) => {
+        const edge = graph.edges.get(edgeIndex);
+        return edge === undefined ? [] : [edge];
+      })
+      .sort((a, b) => {
+        const nameA = graph.nodes.get(a.target)?.name ?? "";
+        const nameB = graph.nodes.get(b.target)?.name ?? "";
+        return nameA < nameB ? -1 : 1;
+      })
+      .map((edge) => visit(edge.target, edge.data, path));
+
+    return { name, version, range, status: "installed", dependencies };
+  };
+
+  return visit(resolution.root, undefined, new Set());
+};
+
+/** Renders a tree with box-drawing guides, one line per package. */
+export const renderTree = (root: DependencyTree): Array<string> => {
+  const lines = [`${root.name}@${root.version}`];
+
+  const walk = (node: DependencyTree, prefix: string) => {
+    node.dependencies.forEach((child, i) => {
+      const last = i === node.dependencies.length - 1;
+      const suffix = child.status === "installed" ? "" : ` (${child.status})`;
+      lines.push(
+        `${prefix}${last ? "└── " : "├── "}${child.name}@${child.version}${suffix}`
+      );
+      walk(child, `${prefix}${last ? "    " : "│   "}`);
+    });
+  };
+
+  walk(root, "");
+  return lines;
+};
@@ -0,0 +1,90 @@
+// ============================================================================
+// PRIORITY QUEUE
+// ============================================================================
+//
+// Binary min-heap used by the shortest-path style algorithms in this repo.
+// Items with equal priority come out in insertion order, which keeps results
+// deterministic across runs. Priorities are numbers unless a comparator is
+// given (D* Lite orders by a pair of numbers).
+
+export type PriorityQueue<A, P = number> = {
+  readonly push: (item: A, priority: P) => void;
+  readonly pop: () => A | undefined;
+  readonly peekPriority: () => P | undefined;
+  readonly size: () => number;
+};
+
+type Entry<A, P> = { item: A; priority: P; order: number };
+
+export const make = <A>(): PriorityQueue<A> =>
+  makeWith<A, number>((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+/** Queue ordered by `compare`, which returns a negative number for `a < b`. */
+export const makeWith = <A, P>(
+  compare: (a: P, b: P) => number
+): PriorityQueue<A, P> => {
+  const heap: Array<Entry<A, P>> = [];
+  let counter = 0;
+
+  const before = (a: Entry<A, P>, b: Entry<A, P>) => {
+    const order = compare(a.priority, b.priority);
+    return order < 0 || (order === 0 && a.order < b.order);
+  };
+
+  const swap = (i: number, j: number) => {
+    const a = heap[i];
+    const b = heap[j];
+    if (a === undefined || b === undefined) return;
+    heap[i] = b;
+    heap[j] = a;
+  };
+
+  const siftUp = (index: number) => {
+    let i = index;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      const current = heap[i];
+      const above = heap[parent];
+      if (!current || !above || !before(current, above)) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const siftDown = (index: number) => {
+    let i = index;
+    while (true) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      const l = heap[left];
+      const r = heap[right];
+      const s = heap[smallest];
+      if (l && s && before(l, s)) smallest = left;
+      const best = heap[smallest];
+      if (r && best && before(r, best)) smallest = right;
+      if (smallest === i) break;
+      swap(i, smallest);
+      i = smallest;
+    }
+  };
+
+  return {
+    push: (item, priority) => {
+      heap.push({ item, priority, order: counter++ });
+      siftUp(heap.length - 1);
+    },
+    pop: () => {
+      const top = heap[0];
+      const last = heap.pop();
+      if (top === undefined || last === undefined) return undefined;
+      if (heap.length > 0) {
+        heap[0] = last;
+        siftDown(0);
+      }
+      return top.item;
+    },
+    peekPriority: () => heap[0]?.priority,
+    size: () => heap.length,
+  };
+};
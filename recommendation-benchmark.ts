@@ -0,0 +1,202 @@
+import { BunRuntime } from "@effect/platform-bun";
+import { Config, Duration, Effect, Layer } from "effect";
+import * as CartRepositories from "./cart-repositories.ts";
+import type * as Datasets from "./datasets.ts";
+import * as RecommendationEngine from "./recommendation-engine.ts";
+import * as RecommendationIndex from "./recommendation-index.ts";
+import * as Scorers from "./recommendation-scorers.ts";
+import * as SeededRandom from "./seeded-random.ts";
+
+// ============================================================================
+// RECOMMENDATION BENCHMARK
+// ============================================================================
+//
+// Times cart recommendations scored from the neighbour index against the
+// same scorers with a shortest-path search per cart product and candidate,
+// on a generated catalogue large enough for the difference to show, and
+// checks that both return the same recommendations. Sizes come from
+// `BENCHMARK_PRODUCTS`, `BENCHMARK_CUSTOMERS`, `BENCHMARK_PURCHASES` and
+// `BENCHMARK_REQUESTS`:
+//
+//   bun recommendation-benchmark.ts
+
+// ===== GENERATED CATALOGUE =====
+
+type Sizes = {
+  readonly products: number;
+  readonly customers: number;
+  readonly purchases: number;
+  // Cart recommendation requests timed per engine
+  readonly requests: number;
+};
+
+const sizes: Config.Config<Sizes> = Config.all({
+  products: Config.integer("PRODUCTS").pipe(Config.withDefault(200)),
+  customers: Config.integer("CUSTOMERS").pipe(Config.withDefault(200)),
+  purchases: Config.integer("PURCHASES").pipe(Config.withDefault(2000)),
+  requests: Config.integer("REQUESTS").pipe(Config.withDefault(20)),
+}).pipe(Config.nested("BENCHMARK"));
+
+const categories = 12;
+const segments = ["budget", "regular", "premium", "vip"] as const;
+
+// Products bought together sit close to each other by id, so purchases
+// repeat pairs and build up strong co-purchase edges like real baskets do
+const generate = (
+  size: Sizes,
+  seed = 42
+): CartRepositories.Snapshot & {
+  readonly carts: ReadonlyArray<{
+    readonly customerId: string;
+    readonly cartProductIds: ReadonlyArray<string>;
+  }>;
+} => {
+  const random = SeededRandom.make(seed);
+  const int = (max: number) => Math.floor(random() * max);
+  const category = (i: number) => `Category ${i % categories}`;
+  const productId = (i: number) => `product-${i}`;
+  // Up to `count` products near a random one, without repeats
+  const basket = (count: number) =>
+    Array.from(
+      new Set(
+        Array.from({ length: count }, (_, n) => {
+          const first = int(size.products);
+          return n === 0 ? first : (first + int(8)) % size.products;
+        })
+      ),
+      productId
+    );
+
+  const products = Array.from(
+    { length: size.products },
+    (_, i): Datasets.Product => ({
+      id: productId(i),
+      name: `Product ${i}`,
+      category: category(i),
+      subcategory: `Subcategory ${i % (categories * 3)}`,
+      price: 10 + int(1990),
+      brand: `Brand ${i % 40}`,
+      tags: [],
+      description: "",
+      inStock: random() > 0.05,
+      rating: 3.5 + int(16) / 10,
+      reviewCount: int(5000),
+      seasonal: random() < 0.1,
+      weight: 1,
+      dimensions: [1, 1, 1],
+    })
+  );
+
+  const customers = Array.from(
+    { length: size.customers },
+    (_, i): Datasets.Customer => ({
+      id: `customer-${i}`,
+      name: `Customer ${i}`,
+      email: `customer-${i}@example.com`,
+      segment: segments[i % segments.length] ?? "regular",
+      totalSpent: 0,
+      orderCount: 0,
+      avgOrderValue: 50 + int(950),
+      preferredCategories: [category(int(categories)), category(i)],
+      location: "",
+      joinDate: "2024-01-01",
+      lastPurchaseDate: "2024-11-01",
+      lifetimeValue: 0,
+    })
+  );
+
+  const purchases = Array.from(
+    { length: size.purchases },
+    (_, i): Datasets.Purchase => ({
+      id: `order-${i}`,
+      customerId: `customer-${int(size.customers)}`,
+      products: basket(1 + int(4)).map((id) => ({
+        productId: id,
+        quantity: 1,
+        priceAtPurchase: 0,
+        discountApplied: 0,
+      })),
+      totalAmount: 0,
+      timestamp: "2024-11-01T00:00:00Z",
+      paymentMethod: "credit_card",
+      shippingMethod: "standard",
+      orderStatus: "delivered",
+    })
+  );
+
+  const carts = Array.from({ length: size.requests }, () => ({
+    customerId: `customer-${int(size.customers)}`,
+    cartProductIds: basket(1 + int(3)),
+  }));
+
+  return { products, customers, purchases, carts };
+};
+
+// ===== BENCHMARK =====
+
+const milliseconds = (duration: Duration.Duration, times = 1) =>
+  `${(Duration.toMillis(duration) / times).toFixed(1)}ms`;
+
+const program = Effect.gen(function* () {
+  const size = yield* sizes;
+  const { carts, ...snapshot } = generate(size);
+  const repositories = CartRepositories.layerMemory(snapshot);
+
+  yield* Effect.log("⏱️ RECOMMENDATION BENCHMARK");
+  yield* Effect.log(
+    `${size.products} products, ${size.customers} customers, ${size.purchases} purchases, ${carts.length} carts\n`
+  );
+
+  // Recommendations for every cart, with the time they took altogether
+  const run = (name: string, scorers: ReadonlyArray<Scorers.Scorer>) =>
+    Effect.gen(function* () {
+      const engine = yield* RecommendationEngine.RecommendationEngine;
+      const [elapsed, results] = yield* Effect.timed(
+        Effect.forEach(carts, (cart) =>
+          engine.recommend(cart.customerId, cart.cartProductIds)
+        )
+      );
+      yield* Effect.log(
+        `${name}: ${milliseconds(elapsed)} for ${carts.length} carts, ${milliseconds(elapsed, carts.length)} per cart`
+      );
+      return results;
+    }).pipe(
+      Effect.provide(
+        RecommendationEngine.layerWith(scorers).pipe(
+          Layer.provide(repositories)
+        )
+      )
+    );
+
+  const network = yield* RecommendationEngine.buildProductNetwork(
+    snapshot.products,
+    snapshot.purchases
+  );
+  const options = yield* RecommendationIndex.options;
+  const [indexing, index] = yield* Effect.timed(
+    Effect.sync(() => RecommendationIndex.make(network, options))
+  );
+  yield* Effect.log(
+    `Graph: ${network.graph.nodes.size} products, ${network.graph.edges.size} relationships`
+  );
+  yield* Effect.log(
+    `Index: ${index.neighbours.size} products, k=${options.k}, maxDistance=${options.maxDistance}, built in ${milliseconds(indexing)}\n`
+  );
+
+  const indexed = yield* run("Neighbour index", Scorers.defaults);
+  const searched = yield* run(
+    "Shortest-path search",
+    Scorers.defaults.map((scorer) =>
+      scorer === Scorers.coPurchase ? Scorers.coPurchaseSearch : scorer
+    )
+  );
+
+  const same = carts.filter(
+    (_, i) => JSON.stringify(indexed[i]) === JSON.stringify(searched[i])
+  ).length;
+  yield* Effect.log(
+    `\nSame recommendations for ${same} of ${carts.length} carts`
+  );
+});
+
+BunRuntime.runMain(program);
@@ -0,0 +1,514 @@
+import {
+  type ConfigError,
+  Context,
+  Effect,
+  Graph,
+  Layer,
+  Option,
+  Predicate,
+  Schema,
+  SynchronizedRef,
+} from "effect";
+import * as CartApi from "./cart-api.ts";
+import {
+  CustomerRepository,
+  ProductRepository,
+  PurchaseRepository,
+  type Repositories,
+  type RepositoryError,
+} from "./cart-repositories.ts";
+import type * as Datasets from "./datasets.ts";
+import * as KeyedGraph from "./keyed-graph.ts";
+import * as RecommendationIndex from "./recommendation-index.ts";
+import * as Scorers from "./recommendation-scorers.ts";
+
+// ============================================================================
+// RECOMMENDATION ENGINE
+// ============================================================================
+//
+// Scores every in-stock product against a customer's cart, preferences and
+// purchase history with the weighted scorers of `recommendation-scorers.ts`.
+// The engine is a service built from the three cart repositories, so the
+// same scoring runs on the in-memory data of the demo and on a SQLite
+// database alike. The product graph is built once, when the layer is, and
+// new purchases only update its co-purchase edges; the nearest neighbours
+// the co-purchase scorer reads are indexed again whenever the graph
+// changes. Customers and purchases are read per request.
+
+// ===== MODELS =====
+
+type Product = Datasets.Product;
+type Purchase = Datasets.Purchase;
+
+// Edges of the product graph; a schema so the built graph can be cached as
+// JSON with `GraphSchema` and validated when reloaded
+export const ProductRelationship = Schema.Struct({
+  weight: Schema.Number,
+  type: Schema.Literal("co_purchase", "similar", "category", "complementary"),
+});
+export type ProductRelationship = typeof ProductRelationship.Type;
+
+export type ProductNetwork = KeyedGraph.KeyedGraph<
+  string,
+  Product,
+  ProductRelationship,
+  "undirected"
+>;
+
+// ===== PRODUCT RELATIONSHIP GRAPH =====
+
+// Times each pair of products was bought together, by the smaller of the
+// two ids and then the larger, whichever order their purchases list them in
+type CoPurchaseCounts = Map<string, Map<string, number>>;
+
+const coPurchaseWeight = (count: number) => Math.min(count * 2, 10); // Scale weight, max 10
+
+// Counts the pairs of `purchase` into `counts`; returns each pair with its
+// new count
+const countCoPurchases = (counts: CoPurchaseCounts, purchase: Purchase) => {
+  const pairs: Array<readonly [string, string, number]> = [];
+  const productIds = purchase.products.map((p) => p.productId);
+  for (let i = 0; i < productIds.length; i++) {
+    for (let j = i + 1; j < productIds.length; j++) {
+      const a = productIds[i];
+      const b = productIds[j];
+
+      if (!a || !b) continue;
+      const [prod1, prod2] = a < b ? [a, b] : [b, a];
+
+      let prod1Counts = counts.get(prod1);
+      if (!prod1Counts) {
+        prod1Counts = new Map();
+        counts.set(prod1, prod1Counts);
+      }
+      const count = (prod1Counts.get(prod2) || 0) + 1;
+      prod1Counts.set(prod2, count);
+      pairs.push([prod1, prod2, count]);
+    }
+  }
+  return pairs;
+};
+
+// The product graph; fills `coPurchases` with the counts behind the
+// co-purchase weights
+const build = (
+  products: ReadonlyArray<Product>,
+  purchases: ReadonlyArray<Purchase>,
+  coPurchases: CoPurchaseCounts
+): Effect.Effect<ProductNetwork, KeyedGraph.NodeNotFound> =>
+  KeyedGraph.mutate(
+    KeyedGraph.undirected<string, Product, ProductRelationship>(
+      (product) => product.id
+    ),
+    (mutable) => {
+      // Add all products as nodes
+      for (const product of products) {
+        KeyedGraph.addNode(mutable, product);
+      }
+
+      // ===== BUILD PRODUCT RELATIONSHIPS =====
+
+      // 1. Co-purchase relationships (from purchase history)
+      for (const purchase of purchases) {
+        countCoPurchases(coPurchases, purchase);
+      }
+
+      // Add co-purchase edges
+      for (const [prod1, counts] of coPurchases) {
+        for (const [prod2, count] of counts) {
+          KeyedGraph.addEdge(mutable, prod1, prod2, {
+            weight: coPurchaseWeight(count),
+            type: "co_purchase",
+          });
+        }
+      }
+
+      // 2. Category relationships
+      const categoryProducts = new Map<string, Product[]>();
+      for (const product of products) {
+        if (!categoryProducts.has(product.category)) {
+          categoryProducts.set(product.category, []);
+        }
+        const categoryList = categoryProducts.get(product.category);
+        if (categoryList) {
+          categoryList.push(product);
+        }
+      }
+
+      for (const [, catProducts] of categoryProducts) {
+        for (let i = 0; i < catProducts.length; i++) {
+          for (let j = i + 1; j < catProducts.length; j++) {
+            const prod1 = catProducts[i];
+            const prod2 = catProducts[j];
+
+            if (!prod1 || !prod2) continue;
+
+            // Add category relationship edge
+            KeyedGraph.addEdge(mutable, prod1.id, prod2.id, {
+              weight: 1, // Low weight for category connections
+              type: "category",
+            });
+          }
+        }
+      }
+
+      // 3. Complementary product relationships
+      const complementaryRules = [
+        // Tech accessories
+        ["macbook-pro-16", "airpods-pro", 8],
+        ["macbook-pro-16", "logitech-mx-master-3", 7],
+        ["dell-xps-13", "logitech-mx-master-3", 6],
+        ["ipad-pro-12", "airpods-pro", 9],
+        ["nintendo-switch-oled", "yeti-cooler", 5],
+
+        // Kitchen combinations
+        ["nespresso-vertuo", "instant-pot-8qt", 6],
+        ["instant-pot-8qt", "kitchenaid-mixer", 7],
+        ["kitchenaid-mixer", "nespresso-vertuo", 5],
+
+        // Beauty routines
+        ["dyson-airwrap", "neutrogena-moisturizer", 8],
+        ["neutrogena-moisturizer", "oral-b-electric", 6],
+
+        // Outdoor gear
+        ["garmin-fenix-7", "patagonia-backpack", 9],
+        ["patagonia-backpack", "yeti-cooler", 7],
+        ["yeti-cooler", "patagonia-jacket", 6],
+
+        // Office setups
+        ["standing-desk", "monitor-4k", 8],
+        ["monitor-4k", "logitech-mx-master-3", 6],
+        ["dell-xps-13", "monitor-4k", 7],
+      ];
+
+      for (const rule of complementaryRules) {
+        const [prod1, prod2, weight] = rule;
+        if (
+          typeof prod1 === "string" &&
+          typeof prod2 === "string" &&
+          typeof weight === "number" &&
+          KeyedGraph.has(mutable, prod1) &&
+          KeyedGraph.has(mutable, prod2)
+        ) {
+          KeyedGraph.addEdge(mutable, prod1, prod2, {
+            weight,
+            type: "complementary",
+          });
+        }
+      }
+    }
+  );
+
+/**
+ * Products joined by co-purchases, shared categories and complementary
+ * rules. Fails with `NodeNotFound` for a purchase of a product missing from
+ * `products`. New purchases can be added later with `RecommendationEngine`'s
+ * `ingest` without rebuilding the rest.
+ */
+export const buildProductNetwork = (
+  products: ReadonlyArray<Product>,
+  purchases: ReadonlyArray<Purchase>
+): Effect.Effect<ProductNetwork, KeyedGraph.NodeNotFound> =>
+  build(products, purchases, new Map());
+
+// Counts the pairs of `purchase` into `coPurchases` and brings the
+// co-purchase edges in line: new pairs get an edge, known pairs a new
+// weight. Category and complementary edges stay as they are.
+const addPurchase = (
+  network: ProductNetwork,
+  coPurchases: CoPurchaseCounts,
+  purchase: Purchase
+) => {
+  let added = 0;
+  let updated = 0;
+  return KeyedGraph.mutate(network, (mutable) => {
+    for (const [prod1, prod2, count] of countCoPurchases(
+      coPurchases,
+      purchase
+    )) {
+      const weight = coPurchaseWeight(count);
+      const source = mutable.indices.get(prod1);
+      const target = mutable.indices.get(prod2);
+      // Undirected adjacency lists hold the edges of both ends, whichever
+      // end they were added from
+      const existing = (
+        source === undefined ? [] : (mutable.graph.adjacency.get(source) ?? [])
+      ).find((index) => {
+        const edge = mutable.graph.edges.get(index);
+        return (
+          edge !== undefined &&
+          ((edge.source === source && edge.target === target) ||
+            (edge.source === target && edge.target === source)) &&
+          edge.data.type === "co_purchase"
+        );
+      });
+      if (existing === undefined) {
+        KeyedGraph.addEdge(mutable, prod1, prod2, {
+          weight,
+          type: "co_purchase",
+        });
+        added++;
+      } else if (mutable.graph.edges.get(existing)?.data.weight !== weight) {
+        Graph.updateEdge(mutable.graph, existing, (data) => ({
+          ...data,
+          weight,
+        }));
+        updated++;
+      }
+    }
+  }).pipe(Effect.map((updatedNetwork) => ({ updatedNetwork, added, updated })));
+};
+
+// ===== SERVICE =====
+
+export class RecommendationEngine extends Context.Tag("RecommendationEngine")<
+  RecommendationEngine,
+  {
+    // The product graph the engine currently scores with
+    readonly productNetwork: Effect.Effect<ProductNetwork>;
+    // Weight of each scorer by name
+    readonly weights: Scorers.Weights;
+    // Highest scoring products first, at most `maxRecommendations` (5)
+    readonly recommend: (
+      customerId: string,
+      cartProducts: ReadonlyArray<string>,
+      maxRecommendations?: number
+    ) => Effect.Effect<
+      ReadonlyArray<CartApi.Recommendation>,
+      CartApi.CustomerNotFound | CartApi.ProductNotFound | RepositoryError
+    >;
+    // Saves a new purchase and updates the co-purchase edges for it; later
+    // recommendations see the updated graph
+    readonly ingest: (
+      purchase: Purchase
+    ) => Effect.Effect<
+      CartApi.PurchaseIngested,
+      | CartApi.CustomerNotFound
+      | CartApi.ProductNotFound
+      | CartApi.DuplicatePurchase
+      | RepositoryError
+    >;
+  }
+>() {}
+
+// Rounded to cents
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Builds the product graph from the repositories and scores against it with
+ * `scorers`, weighted by `RECOMMENDATION_WEIGHTS_*` config.
+ */
+export const layerWith = (
+  scorers: ReadonlyArray<Scorers.Scorer>
+): Layer.Layer<
+  RecommendationEngine,
+  RepositoryError | KeyedGraph.NodeNotFound | ConfigError.ConfigError,
+  Repositories
+> =>
+  Layer.effect(
+    RecommendationEngine,
+    Effect.gen(function* () {
+      const productRepository = yield* ProductRepository;
+      const customerRepository = yield* CustomerRepository;
+      const purchaseRepository = yield* PurchaseRepository;
+
+      const weights = yield* Scorers.weights(scorers);
+      const indexOptions = yield* RecommendationIndex.options;
+      const purchases = yield* purchaseRepository.all;
+      // Only touched by `ingest`, one purchase at a time
+      const coPurchases: CoPurchaseCounts = new Map();
+      const purchaseIds = new Set(purchases.map((purchase) => purchase.id));
+      const indexed = (network: ProductNetwork) => ({
+        network,
+        neighbours: RecommendationIndex.make(network, indexOptions),
+      });
+      const state = yield* SynchronizedRef.make(
+        indexed(
+          yield* build(yield* productRepository.all, purchases, coPurchases)
+        )
+      );
+
+      const findCustomer = (customerId: string) =>
+        customerRepository.byId(customerId).pipe(
+          Effect.flatMap(
+            Option.match({
+              onNone: () =>
+                Effect.fail(new CartApi.CustomerNotFound({ customerId })),
+              onSome: Effect.succeed,
+            })
+          )
+        );
+
+      const recommend: RecommendationEngine["Type"]["recommend"] = (
+        customerId,
+        cartProducts,
+        maxRecommendations = 5
+      ) =>
+        Effect.gen(function* () {
+          const customer = yield* findCustomer(customerId);
+          yield* Effect.forEach(
+            cartProducts,
+            (productId) =>
+              productRepository.byId(productId).pipe(
+                Effect.flatMap(
+                  Option.match({
+                    onNone: () =>
+                      Effect.fail(new CartApi.ProductNotFound({ productId })),
+                    onSome: () => Effect.void,
+                  })
+                )
+              ),
+            { discard: true }
+          );
+
+          const { network: productNetwork, neighbours } =
+            yield* SynchronizedRef.get(state);
+          const productGraph = productNetwork.graph;
+          const productAt = (id: string) => {
+            const index = productNetwork.indices.get(id);
+            return index === undefined
+              ? undefined
+              : productGraph.nodes.get(index);
+          };
+
+          const recommendations: Array<CartApi.Recommendation> = [];
+          const recommendedProducts = new Set(cartProducts);
+
+          // Get customer's purchase history
+          const customerPurchases =
+            yield* purchaseRepository.byCustomer(customerId);
+          const purchasedProductIds = new Set(
+            customerPurchases.flatMap((p) =>
+              p.products.map((prod) => prod.productId)
+            )
+          );
+          const purchasedBrands = new Set(
+            Array.from(
+              purchasedProductIds,
+              (productId) => productAt(productId)?.brand
+            ).filter(Predicate.isNotUndefined)
+          );
+          const cart = cartProducts.flatMap((productId) => {
+            const index = productNetwork.indices.get(productId);
+            const product = productAt(productId);
+            return index === undefined || product === undefined
+              ? []
+              : [{ index, product }];
+          });
+
+          for (const [index, product] of productGraph) {
+            if (
+              recommendedProducts.has(product.id) ||
+              purchasedProductIds.has(product.id) ||
+              !product.inStock
+            ) {
+              continue;
+            }
+
+            // ===== SCORING PIPELINE =====
+            const context: Scorers.ScoringContext = {
+              customer,
+              cart,
+              purchasedBrands,
+              network: productNetwork,
+              neighbours,
+              product,
+              index,
+            };
+            let score = 0;
+            let confidence = 0.5;
+            const breakdown = scorers.map((scorer) => {
+              const weight = weights[scorer.name] ?? 1;
+              const result =
+                weight === 0
+                  ? { points: 0, reasons: [] }
+                  : scorer.score(context);
+              score += weight * result.points;
+              if (
+                result.reasons.length > 0 &&
+                result.confidence !== undefined
+              ) {
+                confidence = Math.max(confidence, result.confidence);
+              }
+              return {
+                scorer: scorer.name,
+                weight,
+                points: round(result.points),
+                contribution: round(weight * result.points),
+                reasons: result.reasons,
+              };
+            });
+
+            if (score > 0) {
+              recommendations.push({
+                productId: product.id,
+                score: round(score),
+                reason:
+                  breakdown.flatMap((entry) => entry.reasons)[0] ??
+                  "Popular product",
+                confidence,
+                breakdown,
+              });
+            }
+          }
+
+          // Sort by score and return top recommendations
+          return recommendations
+            .sort((a, b) => b.score - a.score)
+            .slice(0, maxRecommendations);
+        });
+
+      const ingest: RecommendationEngine["Type"]["ingest"] = (purchase) =>
+        SynchronizedRef.modifyEffect(state, ({ network }) =>
+          Effect.gen(function* () {
+            if (purchaseIds.has(purchase.id)) {
+              return yield* new CartApi.DuplicatePurchase({
+                purchaseId: purchase.id,
+              });
+            }
+            yield* findCustomer(purchase.customerId);
+            for (const { productId } of purchase.products) {
+              if (!network.indices.has(productId)) {
+                return yield* new CartApi.ProductNotFound({ productId });
+              }
+            }
+
+            yield* purchaseRepository.save(purchase);
+            purchaseIds.add(purchase.id);
+            const { updatedNetwork, added, updated } = yield* addPurchase(
+              network,
+              coPurchases,
+              purchase
+            ).pipe(
+              // Every product was checked to be in the graph
+              Effect.orDie
+            );
+            return [
+              {
+                purchaseId: purchase.id,
+                coPurchasesAdded: added,
+                coPurchasesUpdated: updated,
+              },
+              indexed(updatedNetwork),
+            ] as const;
+          })
+        ).pipe(
+          Effect.withSpan("RecommendationEngine.ingest", {
+            attributes: { purchaseId: purchase.id },
+          })
+        );
+
+      return {
+        productNetwork: Effect.map(
+          SynchronizedRef.get(state),
+          (current) => current.network
+        ),
+        weights,
+        recommend,
+        ingest,
+      };
+    })
+  );
+
+/** The engine with the default scorers. */
+export const layer = layerWith(Scorers.defaults);
@@ -0,0 +1,132 @@
+import { Config, type Graph, Option } from "effect";
+import * as Adjacency from "./adjacency.ts";
+import * as PriorityQueue from "./priority-queue.ts";
+import type {
+  ProductNetwork,
+  ProductRelationship,
+} from "./recommendation-engine.ts";
+
+// ============================================================================
+// RECOMMENDATION INDEX
+// ============================================================================
+//
+// The nearest products of every product in the product graph, by weighted
+// path cost, computed once per graph. Scoring a cart then looks distances
+// up instead of running a shortest-path search for every cart item and
+// candidate. Each product keeps its `k` nearest neighbours closer than
+// `maxDistance`; anything further is treated as unrelated.
+
+// ===== MODELS =====
+
+export type Options = {
+  // Neighbours kept per product
+  readonly k: number;
+  // Neighbours at this path cost or more are left out
+  readonly maxDistance: number;
+};
+
+export type NeighbourIndex = Options & {
+  // Path cost to each neighbour by product id, nearest first
+  readonly neighbours: ReadonlyMap<string, ReadonlyMap<string, number>>;
+};
+
+/**
+ * Cost of walking a relationship: strong co-purchases are cheap, category
+ * links expensive.
+ */
+export const pathCost = (relationship: ProductRelationship): number => {
+  // Lower cost for stronger co-purchase relationships
+  if (relationship.type === "co_purchase") return 11 - relationship.weight;
+  if (relationship.type === "complementary") {
+    return 6 - relationship.weight / 2;
+  }
+  return 10; // Higher cost for category relationships
+};
+
+// ===== BUILD =====
+
+// Dijkstra from `productId`, stopped after `k` neighbours or at `maxDistance`
+const nearest = (
+  network: ProductNetwork,
+  productId: string,
+  { k, maxDistance }: Options
+): Map<string, number> => {
+  const result = new Map<string, number>();
+  const source = network.indices.get(productId);
+  if (source === undefined) return result;
+
+  const distance = new Map([[source, 0]]);
+  const settled = new Set<Graph.NodeIndex>();
+  const queue = PriorityQueue.make<Graph.NodeIndex>();
+  queue.push(source, 0);
+
+  while (queue.size() > 0 && result.size < k) {
+    const current = queue.pop();
+    if (current === undefined || settled.has(current)) continue;
+    settled.add(current);
+
+    const base = distance.get(current) ?? 0;
+    if (base >= maxDistance) break;
+    const product = network.graph.nodes.get(current);
+    if (current !== source && product !== undefined) {
+      result.set(product.id, base);
+    }
+
+    for (const { node, data } of Adjacency.outgoing(network.graph, current)) {
+      const d = base + pathCost(data);
+      if (d < (distance.get(node) ?? Infinity)) {
+        distance.set(node, d);
+        queue.push(node, d);
+      }
+    }
+  }
+  return result;
+};
+
+/** Indexes the neighbours of every product in `network`. */
+export const make = (
+  network: ProductNetwork,
+  options: Options
+): NeighbourIndex => ({
+  ...options,
+  neighbours: new Map(
+    Array.from(network.indices.keys(), (productId) => [
+      productId,
+      nearest(network, productId, options),
+    ])
+  ),
+});
+
+// ===== QUERIES =====
+
+/** Path cost from one product to another, if it is among its neighbours. */
+export const distance = (
+  index: NeighbourIndex,
+  from: string,
+  to: string
+): Option.Option<number> =>
+  Option.fromNullable(index.neighbours.get(from)?.get(to));
+
+// ===== CONFIG =====
+
+/**
+ * `RECOMMENDATION_INDEX_K` (default 20) and
+ * `RECOMMENDATION_INDEX_MAX_DISTANCE` (default 5, the reach of the
+ * co-purchase scorer).
+ */
+export const options: Config.Config<Options> = Config.all({
+  k: Config.integer("K").pipe(
+    Config.validate({
+      message: "Expected at least 1 neighbour",
+      validation: (k) => k >= 1,
+    }),
+    Config.withDefault(20)
+  ),
+  maxDistance: Config.number("MAX_DISTANCE").pipe(
+    Config.validate({
+      message: "Expected a distance above 0",
+      validation: (maxDistance) => maxDistance > 0,
+    }),
+    Config.withDefault(5)
+  ),
+}).pipe(Config.nested("RECOMMENDATION_INDEX"));
@@ -0,0 +1,208 @@
+import { Config, type Graph, Option } from "effect";
+import * as Astar from "./astar.ts";
+import type * as Datasets from "./datasets.ts";
+import type { ProductNetwork } from "./recommendation-engine.ts";
+import * as RecommendationIndex from "./recommendation-index.ts";
+
+// ============================================================================
+// RECOMMENDATION SCORERS
+// ============================================================================
+//
+// The factors a recommendation score is made of. Each scorer looks at one
+// candidate product for one customer and cart, and returns points plus the
+// reasons behind them; the engine multiplies the points by the scorer's
+// weight and adds them up. Weights come from config, so merchandisers can
+// tune the mix (or switch a factor off with 0) without a code change, and
+// every recommendation lists what each scorer contributed.
+
+// ===== MODELS =====
+
+type Product = Datasets.Product;
+
+export type ScoringContext = {
+  readonly customer: Datasets.Customer;
+  // Cart products found in the product graph, with their node indices
+  readonly cart: ReadonlyArray<{
+    readonly index: Graph.NodeIndex;
+    readonly product: Product;
+  }>;
+  // Brands of everything the customer bought before
+  readonly purchasedBrands: ReadonlySet<string>;
+  readonly network: ProductNetwork;
+  // Nearest neighbours of every product in `network`
+  readonly neighbours: RecommendationIndex.NeighbourIndex;
+  // The candidate product and its node index
+  readonly product: Product;
+  readonly index: Graph.NodeIndex;
+};
+
+export type Points = {
+  readonly points: number;
+  // Why the scorer gave points, worded for the customer
+  readonly reasons: ReadonlyArray<string>;
+  // Confidence in the recommendation when this scorer has a reason for it
+  readonly confidence?: number;
+};
+
+export type Scorer = {
+  // Also the config key of its weight, upper-cased
+  readonly name: string;
+  readonly score: (context: ScoringContext) => Points;
+};
+
+export type Weights = Readonly<Record<string, number>>;
+
+const points = (value: number, ...reasons: Array<string>): Points => ({
+  points: value,
+  reasons,
+});
+
+// ===== SCORERS =====
+
+// Points for a cart product at path cost `distance`, from 10 down to none at 5
+const coPurchasePoints = (distance: number) => Math.max(0, 10 - distance * 2);
+
+/**
+ * Up to 10 points per cart product within reach in the product graph, read
+ * from the neighbour index.
+ */
+export const coPurchase: Scorer = {
+  name: "co_purchase",
+  score: ({ cart, neighbours, product }) => {
+    let total = 0;
+    const reasons: Array<string> = [];
+    for (const item of cart) {
+      const distance = RecommendationIndex.distance(
+        neighbours,
+        item.product.id,
+        product.id
+      );
+      if (Option.isSome(distance) && distance.value < 5) {
+        total += coPurchasePoints(distance.value);
+        reasons.push(`Frequently bought with ${item.product.name}`);
+      }
+    }
+    return { points: total, reasons, confidence: 0.8 };
+  },
+};
+
+/**
+ * `coPurchase` with a shortest-path search per cart product and candidate
+ * instead of the neighbour index; slower, and not limited to the `k`
+ * indexed neighbours.
+ */
+export const coPurchaseSearch: Scorer = {
+  name: "co_purchase",
+  score: ({ cart, network, index }) => {
+    let total = 0;
+    const reasons: Array<string> = [];
+    for (const item of cart) {
+      const shortestPath = Astar.search(network.graph, {
+        source: item.index,
+        target: index,
+        cost: RecommendationIndex.pathCost,
+      });
+      if (Option.isSome(shortestPath) && shortestPath.value.distance < 5) {
+        total += coPurchasePoints(shortestPath.value.distance);
+        reasons.push(`Frequently bought with ${item.product.name}`);
+      }
+    }
+    return { points: total, reasons, confidence: 0.8 };
+  },
+};
+
+/** 3 points for a category the customer prefers. */
+export const preferredCategory: Scorer = {
+  name: "preferred_category",
+  score: ({ customer, product }) =>
+    customer.preferredCategories.includes(product.category)
+      ? {
+          ...points(3, `Matches your preferred category: ${product.category}`),
+          confidence: 0.7,
+        }
+      : points(0),
+};
+
+/** Up to 5 points for a price close to the customer's average order. */
+export const priceFit: Scorer = {
+  name: "price_fit",
+  score: ({ customer, product }) => {
+    const priceDiff = Math.abs(product.price - customer.avgOrderValue);
+    return points(Math.max(0, 5 - (priceDiff / customer.avgOrderValue) * 10));
+  },
+};
+
+/** 2 points for cheap products for budget customers, and so on. */
+export const segment: Scorer = {
+  name: "segment",
+  score: ({ customer, product }) => {
+    if (customer.segment === "budget" && product.price < 100) return points(2);
+    if (customer.segment === "premium" && product.price > 500) return points(2);
+    if (customer.segment === "vip" && product.rating > 4.5) return points(2);
+    return points(0);
+  },
+};
+
+/** 1 point for seasonal products. */
+export const seasonal: Scorer = {
+  name: "seasonal",
+  score: ({ product }) => points(product.seasonal ? 1 : 0),
+};
+
+/** 2 points per rating star above 4, taken off below. */
+export const rating: Scorer = {
+  name: "rating",
+  score: ({ product }) => points((product.rating - 4.0) * 2),
+};
+
+/** A point per thousand reviews, up to 3. */
+export const popularity: Scorer = {
+  name: "popularity",
+  score: ({ product }) => points(Math.min(product.reviewCount / 1000, 3)),
+};
+
+/** 2 points for a brand the customer bought before. */
+export const brandLoyalty: Scorer = {
+  name: "brand_loyalty",
+  score: ({ purchasedBrands, product }) =>
+    purchasedBrands.has(product.brand)
+      ? points(2, `Brand you've purchased before: ${product.brand}`)
+      : points(0),
+};
+
+/** The scorers the engine runs, in the order their reasons are listed. */
+export const defaults: ReadonlyArray<Scorer> = [
+  coPurchase,
+  preferredCategory,
+  priceFit,
+  segment,
+  seasonal,
+  rating,
+  popularity,
+  brandLoyalty,
+];
+
+// ===== CONFIG =====
+
+/**
+ * A weight per scorer from `RECOMMENDATION_WEIGHTS_<NAME>`, e.g.
+ * `RECOMMENDATION_WEIGHTS_CO_PURCHASE=1.5`; 1 when unset. Weights must not
+ * be negative; 0 turns a scorer off.
+ */
+export const weights = (
+  scorers: ReadonlyArray<Scorer> = defaults
+): Config.Config<Weights> =>
+  Config.all(
+    Object.fromEntries(
+      scorers.map((scorer) => [
+        scorer.name,
+        Config.number(scorer.name.toUpperCase()).pipe(
+          Config.validate({
+            message: "Expected a weight of 0 or more",
+            validation: (weight) => weight >= 0,
+          }),
+          Config.withDefault(1)
+        ),
+      ])
+    )
+  ).pipe(Config.nested("RECOMMENDATION_WEIGHTS"));
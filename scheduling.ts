@@ -0,0 +1,247 @@
+import { Data, Effect, Graph } from "effect";
+
+// ============================================================================
+// PROJECT SCHEDULING (CRITICAL PATH METHOD)
+// ============================================================================
+//
+// Works on a dependency DAG whose edges point from a prerequisite to the
+// task that depends on it (`setup -> backend`), like `taskDependencyExample`.
+// A forward pass over `Graph.topo` gives earliest start/finish, a backward
+// pass gives latest start/finish; tasks without slack form the critical path.
+
+// ===== MODELS =====
+
+export class CyclicDependency extends Data.TaggedError("CyclicDependency")<{
+  readonly message: string;
+}> {}
+
+export type ScheduleConfig<N> = {
+  readonly duration: (node: N) => number;
+};
+
+export type TaskTiming = {
+  readonly earliestStart: number;
+  readonly earliestFinish: number;
+  readonly latestStart: number;
+  readonly latestFinish: number;
+  readonly slack: number;
+  readonly critical: boolean;
+};
+
+export type Schedule = {
+  // Topological order used for the passes
+  readonly order: ReadonlyArray<Graph.NodeIndex>;
+  readonly timings: ReadonlyMap<Graph.NodeIndex, TaskTiming>;
+  readonly projectLength: number;
+  // One chain of zero-slack tasks from project start to project end
+  readonly criticalPath: ReadonlyArray<Graph.NodeIndex>;
+};
+
+export type WorkerAssignment = {
+  readonly node: Graph.NodeIndex;
+  readonly worker: number;
+  readonly start: number;
+  readonly finish: number;
+};
+
+export type WorkerPlan = {
+  readonly workers: number;
+  // Sorted by start time, then worker
+  readonly assignments: ReadonlyArray<WorkerAssignment>;
+  readonly makespan: number;
+};
+
+// Floating point durations (0.5 days...) should not leave 1e-16 of slack
+const EPSILON = 1e-9;
+
+// ===== CRITICAL PATH =====
+
+export const schedule = <N, E>(
+  graph: Graph.Graph<N, E, "directed">,
+  config: ScheduleConfig<N>
+): Effect.Effect<Schedule, CyclicDependency> =>
+  Effect.suspend(() => {
+    if (!Graph.isAcyclic(graph)) {
+      return Effect.fail(
+        new CyclicDependency({
+          message: "Cannot schedule a dependency graph that contains a cycle",
+        })
+      );
+    }
+
+    const order = Array.from(Graph.indices(Graph.topo(graph)));
+    const durationOf = (nodeIndex: Graph.NodeIndex) => {
+      const node = graph.nodes.get(nodeIndex);
+      return node === undefined ? 0 : config.duration(node);
+    };
+
+    // Forward pass: a task starts once all of its prerequisites finish
+    const earliestStart = new Map<Graph.NodeIndex, number>();
+    const earliestFinish = new Map<Graph.NodeIndex, number>();
+    for (const nodeIndex of order) {
+      let start = 0;
+      for (const prerequisite of Graph.neighborsDirected(
+        graph,
+        nodeIndex,
+        "incoming"
+      )) {
+        start = Math.max(start, earliestFinish.get(prerequisite) ?? 0);
+      }
+      earliestStart.set(nodeIndex, start);
+      earliestFinish.set(nodeIndex, start + durationOf(nodeIndex));
+    }
+
+    let projectLength = 0;
+    for (const finish of earliestFinish.values()) {
+      projectLength = Math.max(projectLength, finish);
+    }
+
+    // Backward pass: a task must finish before any dependent has to start
+    const latestStart = new Map<Graph.NodeIndex, number>();
+    const latestFinish = new Map<Graph.NodeIndex, number>();
+    for (let i = order.length - 1; i >= 0; i--) {
+      const nodeIndex = order[i];
+      if (nodeIndex === undefined) continue;
+      let finish = projectLength;
+      for (const dependent of Graph.neighborsDirected(
+        graph,
+        nodeIndex,
+        "outgoing"
+      )) {
+        finish = Math.min(finish, latestStart.get(dependent) ?? projectLength);
+      }
+      latestFinish.set(nodeIndex, finish);
+      latestStart.set(nodeIndex, finish - durationOf(nodeIndex));
+    }
+
+    const timings = new Map<Graph.NodeIndex, TaskTiming>();
+    for (const nodeIndex of order) {
+      const es = earliestStart.get(nodeIndex) ?? 0;
+      const ls = latestStart.get(nodeIndex) ?? 0;
+      const slack = ls - es;
+      timings.set(nodeIndex, {
+        earliestStart: es,
+        earliestFinish: earliestFinish.get(nodeIndex) ?? 0,
+        latestStart: ls,
+        latestFinish: latestFinish.get(nodeIndex) ?? 0,
+        slack: Math.abs(slack) < EPSILON ? 0 : slack,
+        critical: Math.abs(slack) < EPSILON,
+      });
+    }
+
+    // Walk zero-slack tasks whose start lines up with the previous finish
+    const criticalPath: Array<Graph.NodeIndex> = [];
+    let current = order.find((nodeIndex) => {
+      const timing = timings.get(nodeIndex);
+      return timing?.critical === true && timing.earliestStart < EPSILON;
+    });
+    while (current !== undefined) {
+      criticalPath.push(current);
+      const finish = timings.get(current)?.earliestFinish ?? 0;
+      current = Graph.neighborsDirected(graph, current, "outgoing").find(
+        (dependent) => {
+          const timing = timings.get(dependent);
+          return (
+            timing?.critical === true &&
+            Math.abs(timing.earliestStart - finish) < EPSILON
+          );
+        }
+      );
+    }
+
+    return Effect.succeed({ order, timings, projectLength, criticalPath });
+  });
+
+// ===== PARALLEL EXECUTION =====
+
+/**
+ * List scheduling for a fixed number of workers. Whenever a worker is free it
+ * takes the ready task with the least slack (critical tasks first), falling
+ * back to the earliest start from the critical path analysis.
+ */
+export const planWorkers = <N, E>(
+  graph: Graph.Graph<N, E, "directed">,
+  projectSchedule: Schedule,
+  config: ScheduleConfig<N> & { readonly workers: number }
+): WorkerPlan => {
+  const workers = Math.max(1, Math.floor(config.workers));
+  const durationOf = (nodeIndex: Graph.NodeIndex) => {
+    const node = graph.nodes.get(nodeIndex);
+    return node === undefined ? 0 : config.duration(node);
+  };
+  const byPriority = (a: Graph.NodeIndex, b: Graph.NodeIndex) => {
+    const timingA = projectSchedule.timings.get(a);
+    const timingB = projectSchedule.timings.get(b);
+    return (
+      (timingA?.slack ?? 0) - (timingB?.slack ?? 0) ||
+      (timingA?.earliestStart ?? 0) - (timingB?.earliestStart ?? 0) ||
+      a - b
+    );
+  };
+
+  const remainingPrerequisites = new Map<Graph.NodeIndex, number>();
+  for (const nodeIndex of projectSchedule.order) {
+    remainingPrerequisites.set(
+      nodeIndex,
+      Graph.neighborsDirected(graph, nodeIndex, "incoming").length
+    );
+  }
+
+  const ready = projectSchedule.order.filter(
+    (nodeIndex) => remainingPrerequisites.get(nodeIndex) === 0
+  );
+  const freeAt: Array<number> = Array.from({ length: workers }, () => 0);
+  const running: Array<WorkerAssignment> = [];
+  const assignments: Array<WorkerAssignment> = [];
+  let now = 0;
+
+  while (assignments.length < projectSchedule.order.length) {
+    // Hand ready tasks to every idle worker
+    ready.sort(byPriority);
+    for (let worker = 0; worker < workers && ready.length > 0; worker++) {
+      if ((freeAt[worker] ?? 0) > now + EPSILON) continue;
+      const node = ready.shift();
+      if (node === undefined) break;
+      const assignment = {
+        node,
+        worker,
+        start: now,
+        finish: now + durationOf(node),
+      };
+      freeAt[worker] = assignment.finish;
+      running.push(assignment);
+      assignments.push(assignment);
+    }
+
+    // Advance to the next completion and release its dependents
+    if (running.length === 0) break;
+    running.sort((a, b) => a.finish - b.finish);
+    now = running[0]?.finish ?? now;
+    while (running.length > 0 && (running[0]?.finish ?? 0) <= now + EPSILON) {
+      const done = running.shift();
+      if (done === undefined) break;
+      for (const dependent of Graph.neighborsDirected(
+        graph,
+        done.node,
+        "outgoing"
+      )) {
+        const left = (remainingPrerequisites.get(dependent) ?? 1) - 1;
+        remainingPrerequisites.set(dependent, left);
+        if (left === 0) ready.push(dependent);
+      }
+    }
+  }
+
+  let makespan = 0;
+  for (const assignment of assignments) {
+    makespan = Math.max(makespan, assignment.finish);
+  }
+
+  return {
+    workers,
+    assignments: assignments.sort(
+      (a, b) => a.start - b.start || a.worker - b.worker
+    ),
+    makespan,
+  };
+};
@@ -0,0 +1,19 @@
+// ============================================================================
+// SEEDED RANDOM
+// ============================================================================
+//
+// mulberry32: a small seeded generator returning floats in [0, 1), for the
+// algorithms and generated data in this repo that must be reproducible from
+// run to run. Not suitable for anything security related.
+
+/** Generator whose sequence depends only on `seed`. */
+export const make = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
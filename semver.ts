@@ -0,0 +1,263 @@
+import { Option } from "effect";
+
+// ============================================================================
+// SEMANTIC VERSIONING
+// ============================================================================
+//
+// Just enough of the npm semver rules for the package resolver: versions with
+// prerelease tags, and ranges built from comparators, `^`, `~`, `x`
+// wildcards, hyphen ranges and `||`. A prerelease version only satisfies a
+// range that names the same major.minor.patch with a prerelease tag, so
+// `^1.0.0` never picks up `1.1.0-beta`.
+
+// ===== MODELS =====
+
+export type Version = {
+  readonly major: number;
+  readonly minor: number;
+  readonly patch: number;
+  readonly prerelease: ReadonlyArray<string | number>;
+};
+
+type Operator = "<" | "<=" | ">" | ">=" | "=";
+
+type Comparator = {
+  readonly operator: Operator;
+  readonly version: Version;
+};
+
+// Alternatives joined by `||`; each alternative requires all its comparators
+export type Range = {
+  readonly raw: string;
+  readonly alternatives: ReadonlyArray<ReadonlyArray<Comparator>>;
+};
+
+// A version with missing or wildcard parts (`1`, `1.2`, `1.x`, `*`)
+type Partial = {
+  readonly major: number | undefined;
+  readonly minor: number | undefined;
+  readonly patch: number | undefined;
+  readonly prerelease: ReadonlyArray<string | number>;
+};
+
+const PARTIAL =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+// ===== VERSIONS =====
+
+const parsePart = (part: string | undefined): number | undefined =>
+  part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part);
+
+const parsePartial = (text: string): Option.Option<Partial> => {
+  const match = PARTIAL.exec(text.trim());
+  if (match === null) return Option.none();
+  const major = parsePart(match[1]);
+  const minor = major === undefined ? undefined : parsePart(match[2]);
+  const patch = minor === undefined ? undefined : parsePart(match[3]);
+  const prerelease =
+    match[4]?.split(".").map((id) => (/^\d+$/.test(id) ? Number(id) : id)) ??
+    [];
+  return Option.some({ major, minor, patch, prerelease });
+};
+
+/** Parses a full `major.minor.patch[-prerelease]` version. */
+export const parse = (text: string): Option.Option<Version> =>
+  Option.flatMap(parsePartial(text), ({ major, minor, patch, prerelease }) =>
+    major === undefined || minor === undefined || patch === undefined
+      ? Option.none()
+      : Option.some({ major, minor, patch, prerelease })
+  );
+
+export const format = (version: Version): string => {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length === 0
+    ? core
+    : `${core}-${version.prerelease.join(".")}`;
+};
+
+const comparePrerelease = (
+  a: ReadonlyArray<string | number>,
+  b: ReadonlyArray<string | number>
+): number => {
+  // A release sorts after all of its prereleases
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    if (x === y) continue;
+    if (typeof x === "number" && typeof y === "number") return x - y;
+    // Numeric identifiers sort before alphanumeric ones
+    if (typeof x === "number") return -1;
+    if (typeof y === "number") return 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+};
+
+/** Negative when `a` is older than `b`, positive when newer. */
+export const compare = (a: Version, b: Version): number =>
+  a.major - b.major ||
+  a.minor - b.minor ||
+  a.patch - b.patch ||
+  comparePrerelease(a.prerelease, b.prerelease);
+
+// ===== RANGES =====
+
+const version = (
+  major: number,
+  minor: number,
+  patch: number,
+  prerelease: ReadonlyArray<string | number> = []
+): Version => ({ major, minor, patch, prerelease });
+
+// Lowest version a partial can stand for (`1.2` -> 1.2.0)
+const floor = (p: Partial): Version =>
+  version(p.major ?? 0, p.minor ?? 0, p.patch ?? 0, p.prerelease);
+
+// First version past everything a partial stands for (`1.2` -> 1.3.0)
+const ceiling = (p: Partial): Version | undefined => {
+  if (p.major === undefined) return undefined;
+  if (p.minor === undefined) return version(p.major + 1, 0, 0);
+  return version(p.major, p.minor + 1, 0);
+};
+
+const isPartial = (p: Partial) => p.patch === undefined;
+
+const desugar = (
+  operator: string,
+  p: Partial
+): ReadonlyArray<Comparator> | undefined => {
+  const low = floor(p);
+  const high = ceiling(p);
+
+  switch (operator) {
+    case "^": {
+      if (p.major === undefined) return [];
+      const upper =
+        p.major > 0 || p.minor === undefined
+          ? version(p.major + 1, 0, 0)
+          : p.minor > 0 || p.patch === undefined
+            ? version(0, p.minor + 1, 0)
+            : version(0, 0, (p.patch ?? 0) + 1);
+      return [
+        { operator: ">=", version: low },
+        { operator: "<", version: upper },
+      ];
+    }
+    case "~": {
+      if (p.major === undefined) return [];
+      const upper =
+        p.minor === undefined
+          ? version(p.major + 1, 0, 0)
+          : version(p.major, p.minor + 1, 0);
+      return [
+        { operator: ">=", version: low },
+        { operator: "<", version: upper },
+      ];
+    }
+    case "":
+    case "=":
+      if (!isPartial(p)) return [{ operator: "=", version: low }];
+      if (high === undefined) return [];
+      return [
+        { operator: ">=", version: low },
+        { operator: "<", version: high },
+      ];
+    case ">":
+      if (!isPartial(p)) return [{ operator: ">", version: low }];
+      // `>1.2` means "past every 1.2.x"; `>*` matches nothing
+      return high === undefined
+        ? [{ operator: "<", version: version(0, 0, 0) }]
+        : [{ operator: ">=", version: high }];
+    case ">=":
+      return p.major === undefined ? [] : [{ operator: ">=", version: low }];
+    case "<":
+      return p.major === undefined
+        ? [{ operator: "<", version: version(0, 0, 0) }]
+        : [{ operator: "<", version: low }];
+    case "<=":
+      if (!isPartial(p)) return [{ operator: "<=", version: low }];
+      return high === undefined ? [] : [{ operator: "<", version: high }];
+    default:
+      return undefined;
+  }
+};
+
+const COMPARATOR = /^(\^|~|>=|<=|>|<|=)?\s*(\S+)$/;
+
+const parseAlternative = (
+  text: string
+): ReadonlyArray<Comparator> | undefined => {
+  const trimmed = text.trim();
+  if (trimmed === "") return [];
+
+  const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(trimmed);
+  if (hyphen !== null) {
+    const from = parsePartial(hyphen[1] ?? "");
+    const to = parsePartial(hyphen[2] ?? "");
+    if (Option.isNone(from) || Option.isNone(to)) return undefined;
+    const lower = desugar(">=", from.value);
+    const upper = desugar("<=", to.value);
+    return lower === undefined || upper === undefined
+      ? undefined
+      : [...lower, ...upper];
+  }
+
+  // Allow `>= 1.2.0` as well as `>=1.2.0`
+  const tokens = trimmed.replace(/(\^|~|>=|<=|>|<|=)\s+/g, "$1").split(/\s+/);
+  const comparators: Array<Comparator> = [];
+  for (const token of tokens) {
+    const match = COMPARATOR.exec(token);
+    if (match === null) return undefined;
+    const partial = parsePartial(match[2] ?? "");
+    if (Option.isNone(partial)) return undefined;
+    const desugared = desugar(match[1] ?? "", partial.value);
+    if (desugared === undefined) return undefined;
+    comparators.push(...desugared);
+  }
+  return comparators;
+};
+
+/** Parses an npm-style range such as `^1.2.0`, `>=2 <3` or `1.x || 2.x`. */
+export const parseRange = (text: string): Option.Option<Range> => {
+  const alternatives: Array<ReadonlyArray<Comparator>> = [];
+  for (const part of text.split("||")) {
+    const alternative = parseAlternative(part);
+    if (alternative === undefined) return Option.none();
+    alternatives.push(alternative);
+  }
+  return Option.some({ raw: text.trim(), alternatives });
+};
+
+const test = (v: Version, comparator: Comparator): boolean => {
+  const order = compare(v, comparator.version);
+  switch (comparator.operator) {
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    case "=":
+      return order === 0;
+  }
+};
+
+const sameCore = (a: Version, b: Version) =>
+  a.major === b.major && a.minor === b.minor && a.patch === b.patch;
+
+export const satisfies = (v: Version, range: Range): boolean =>
+  range.alternatives.some(
+    (comparators) =>
+      comparators.every((comparator) => test(v, comparator)) &&
+      (v.prerelease.length === 0 ||
+        comparators.some(
+          (comparator) =>
+            comparator.version.prerelease.length > 0 &&
+            sameCore(v, comparator.version)
+        ))
+  );
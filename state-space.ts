@@ -0,0 +1,275 @@
+import { Data, Effect, Option } from "effect";
+import * as PriorityQueue from "./priority-queue.ts";
+
+// ============================================================================
+// STATE-SPACE SEARCH
+// ============================================================================
+//
+// Search over graphs that are never built: a problem describes its start
+// state and a transition function, and successors are generated only when a
+// state is expanded. That covers puzzles whose state is more than a position
+// (keys held, switches flipped, moves left) where the full graph would be
+// far too large to materialise.
+//
+// All searches share a move budget: a solution may use at most `maxMoves`
+// transitions. `maxExpanded` bounds the work instead, and running into it
+// fails with `SearchLimitExceeded` rather than claiming there is no solution.
+
+// ===== MODELS =====
+
+export type Transition<S> = {
+  // Label for the move, e.g. "up" or "open door"
+  readonly action: string;
+  readonly state: S;
+  // Defaults to 1
+  readonly cost?: number;
+};
+
+export type Problem<S> = {
+  readonly initial: S;
+  readonly isGoal: (state: S) => boolean;
+  // Called lazily, once per expanded state
+  readonly successors: (state: S) => Iterable<Transition<S>>;
+  // Identity for duplicate detection; leave out bookkeeping such as a move
+  // counter, or equal positions reached in different ways never merge
+  readonly key: (state: S) => string;
+  // Lower bound on the remaining cost, for A* and IDA*; defaults to 0
+  readonly heuristic?: (state: S) => number;
+};
+
+export type Limits = {
+  // Longest solution allowed, in transitions
+  readonly maxMoves?: number;
+  // States to expand before giving up with `SearchLimitExceeded`
+  readonly maxExpanded?: number;
+};
+
+export type Solution<S> = {
+  // From the initial state to the goal
+  readonly states: ReadonlyArray<S>;
+  readonly actions: ReadonlyArray<string>;
+  readonly cost: number;
+  readonly expanded: number;
+};
+
+export class SearchLimitExceeded extends Data.TaggedError(
+  "SearchLimitExceeded"
+)<{
+  readonly expanded: number;
+}> {
+  override get message() {
+    return `Search gave up after expanding ${this.expanded} states`;
+  }
+}
+
+// A state as reached by one particular sequence of moves
+type Node<S> = {
+  readonly state: S;
+  readonly action: string | undefined;
+  readonly parent: Node<S> | undefined;
+  readonly cost: number;
+  readonly moves: number;
+};
+
+// ===== HELPERS =====
+
+const root = <S>(state: S): Node<S> => ({
+  state,
+  action: undefined,
+  parent: undefined,
+  cost: 0,
+  moves: 0,
+});
+
+const child = <S>(parent: Node<S>, transition: Transition<S>): Node<S> => ({
+  state: transition.state,
+  action: transition.action,
+  parent,
+  cost: parent.cost + (transition.cost ?? 1),
+  moves: parent.moves + 1,
+});
+
+const toSolution = <S>(node: Node<S>, expanded: number): Solution<S> => {
+  const states: Array<S> = [];
+  const actions: Array<string> = [];
+  for (let n: Node<S> | undefined = node; n !== undefined; n = n.parent) {
+    states.push(n.state);
+    if (n.action !== undefined) actions.push(n.action);
+  }
+  return {
+    states: states.reverse(),
+    actions: actions.reverse(),
+    cost: node.cost,
+    expanded,
+  };
+};
+
+const canMove = <S>(node: Node<S>, limits: Limits) =>
+  node.moves < (limits.maxMoves ?? Infinity);
+
+// ===== BREADTH-FIRST =====
+
+/**
+ * Solution with the fewest moves, ignoring transition costs. States are
+ * tested as they are generated, so the search stops as soon as a goal shows
+ * up.
+ */
+export const bfs = <S>(
+  problem: Problem<S>,
+  limits: Limits = {}
+): Effect.Effect<Option.Option<Solution<S>>, SearchLimitExceeded> =>
+  Effect.suspend(() => {
+    const start = root(problem.initial);
+    if (problem.isGoal(start.state)) {
+      return Effect.succeed(Option.some(toSolution(start, 0)));
+    }
+    const seen = new Set([problem.key(start.state)]);
+    let frontier = [start];
+    let expanded = 0;
+
+    while (frontier.length > 0) {
+      const next: Array<Node<S>> = [];
+      for (const node of frontier) {
+        if (!canMove(node, limits)) continue;
+        if (expanded >= (limits.maxExpanded ?? Infinity)) {
+          return Effect.fail(new SearchLimitExceeded({ expanded }));
+        }
+        expanded++;
+        for (const transition of problem.successors(node.state)) {
+          const key = problem.key(transition.state);
+          if (seen.has(key)) continue;
+          seen.add(key);
+          const reached = child(node, transition);
+          if (problem.isGoal(reached.state)) {
+            return Effect.succeed(Option.some(toSolution(reached, expanded)));
+          }
+          next.push(reached);
+        }
+      }
+      frontier = next;
+    }
+    return Effect.succeed(Option.none());
+  });
+
+// ===== A* =====
+
+/**
+ * Cheapest solution within the move budget (A* with the problem's
+ * heuristic). Under a budget a state reached at a higher cost is still kept
+ * when it took fewer moves, since only it may have enough moves left.
+ */
+export const astar = <S>(
+  problem: Problem<S>,
+  limits: Limits = {}
+): Effect.Effect<Option.Option<Solution<S>>, SearchLimitExceeded> =>
+  Effect.suspend(() => {
+    const heuristic = problem.heuristic ?? (() => 0);
+    const budgeted = limits.maxMoves !== undefined;
+    // Best (cost, moves) pairs per state, none dominating another
+    const best = new Map<string, Array<Node<S>>>();
+    const dominated = (node: Node<S>) =>
+      (best.get(problem.key(node.state)) ?? []).some(
+        (other) =>
+          other.cost <= node.cost && (!budgeted || other.moves <= node.moves)
+      );
+    const record = (node: Node<S>) => {
+      const key = problem.key(node.state);
+      const kept = (best.get(key) ?? []).filter(
+        (other) =>
+          !(node.cost <= other.cost && (!budgeted || node.moves <= other.moves))
+      );
+      kept.push(node);
+      best.set(key, kept);
+    };
+
+    const queue = PriorityQueue.make<Node<S>>();
+    const start = root(problem.initial);
+    record(start);
+    queue.push(start, heuristic(start.state));
+    let expanded = 0;
+
+    while (queue.size() > 0) {
+      const node = queue.pop();
+      if (node === undefined) break;
+      // Superseded by a better way to reach the same state
+      if (!(best.get(problem.key(node.state)) ?? []).includes(node)) continue;
+      if (problem.isGoal(node.state)) {
+        return Effect.succeed(Option.some(toSolution(node, expanded)));
+      }
+      if (!canMove(node, limits)) continue;
+      if (expanded >= (limits.maxExpanded ?? Infinity)) {
+        return Effect.fail(new SearchLimitExceeded({ expanded }));
+      }
+      expanded++;
+
+      for (const transition of problem.successors(node.state)) {
+        const reached = child(node, transition);
+        if (dominated(reached)) continue;
+        record(reached);
+        queue.push(reached, reached.cost + heuristic(reached.state));
+      }
+    }
+    return Effect.succeed(Option.none());
+  });
+
+// ===== IDA* =====
+
+/**
+ * Cheapest solution found by iterative deepening on cost plus heuristic.
+ * Memory stays proportional to the solution length because only the current
+ * path is remembered, at the price of expanding states again on every
+ * iteration (all of them count towards `expanded`). Without a move budget or
+ * an expansion limit this may not terminate on infinite state spaces.
+ */
+export const idaStar = <S>(
+  problem: Problem<S>,
+  limits: Limits = {}
+): Effect.Effect<Option.Option<Solution<S>>, SearchLimitExceeded> =>
+  Effect.suspend(() => {
+    const heuristic = problem.heuristic ?? (() => 0);
+    const maxExpanded = limits.maxExpanded ?? Infinity;
+    const onPath = new Set<string>();
+    let expanded = 0;
+    let exceeded = false;
+
+    // The goal node, or the smallest f-value beyond `bound` seen on the way
+    const search = (node: Node<S>, bound: number): Node<S> | number => {
+      const f = node.cost + heuristic(node.state);
+      if (f > bound) return f;
+      if (problem.isGoal(node.state)) return node;
+      if (!canMove(node, limits)) return Infinity;
+      if (expanded >= maxExpanded) {
+        exceeded = true;
+        return Infinity;
+      }
+      expanded++;
+
+      const key = problem.key(node.state);
+      onPath.add(key);
+      let next = Infinity;
+      for (const transition of problem.successors(node.state)) {
+        if (onPath.has(problem.key(transition.state))) continue;
+        const result = search(child(node, transition), bound);
+        if (typeof result !== "number") {
+          onPath.delete(key);
+          return result;
+        }
+        if (exceeded) break;
+        next = Math.min(next, result);
+      }
+      onPath.delete(key);
+      return next;
+    };
+
+    const start = root(problem.initial);
+    let bound = heuristic(start.state);
+    while (true) {
+      const result = search(start, bound);
+      if (typeof result !== "number") {
+        return Effect.succeed(Option.some(toSolution(result, expanded)));
+      }
+      if (exceeded) return Effect.fail(new SearchLimitExceeded({ expanded }));
+      if (!Number.isFinite(result)) return Effect.succeed(Option.none());
+      bound = result;
+    }
+  });
@@ -0,0 +1,249 @@
+import { FileSystem, Path } from "@effect/platform";
+import type { PlatformError } from "@effect/platform/Error";
+import { Effect, type Graph } from "effect";
+import type * as Diagrams from "./diagrams.ts";
+import type * as Layout from "./layout.ts";
+
+// ============================================================================
+// SVG RENDERING
+// ============================================================================
+//
+// Draws a graph at the positions of a `Layout` as a standalone SVG document,
+// so diagrams can be produced offline and in CI. Takes the same options as
+// the Mermaid and D2 exporters, including the `nodeStyle` / `edgeStyle`
+// callbacks, so `Diagrams.highlightPath` highlights a route here as well.
+
+// ===== MODELS =====
+
+export type SvgOptions<N, E> = Omit<
+  Diagrams.DiagramOptions<N, E>,
+  "direction" | "nodeShape"
+>;
+
+type Box = {
+  readonly x: number;
+  readonly y: number;
+  readonly w: number;
+  readonly h: number;
+};
+
+const FONT_SIZE = 13;
+const NODE_HEIGHT = 30;
+const DEFAULT_NODE: Diagrams.Style = {
+  fill: "#f8fafc",
+  stroke: "#475569",
+  strokeWidth: 1.5,
+  fontColor: "#0f172a",
+};
+const DEFAULT_EDGE: Diagrams.Style = {
+  stroke: "#94a3b8",
+  strokeWidth: 1.5,
+  fontColor: "#475569",
+};
+// Sideways offset between edges joining the same two nodes
+const PARALLEL_SPACING = 18;
+
+// ===== HELPERS =====
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+// Where the ray from the centre of `box` towards `toward` leaves the box
+const boundary = (box: Box, toward: Layout.Point): Layout.Point => {
+  const dx = toward[0] - box.x;
+  const dy = toward[1] - box.y;
+  if (dx === 0 && dy === 0) return [box.x, box.y];
+  const scale = Math.min(
+    dx === 0 ? Infinity : box.w / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : box.h / 2 / Math.abs(dy)
+  );
+  return [box.x + dx * Math.min(1, scale), box.y + dy * Math.min(1, scale)];
+};
+
+const strokeAttributes = (style: Diagrams.Style) =>
+  [
+    `stroke="${escapeXml(style.stroke ?? "none")}"`,
+    `stroke-width="${style.strokeWidth ?? 1}"`,
+    style.dashed ? `stroke-dasharray="5 5"` : "",
+  ]
+    .filter((part) => part !== "")
+    .join(" ");
+
+const textAttributes = (style: Diagrams.Style) =>
+  [
+    `fill="${escapeXml(style.fontColor ?? "#000")}"`,
+    style.bold ? `font-weight="bold"` : "",
+  ]
+    .filter((part) => part !== "")
+    .join(" ");
+
+// ===== RENDERING =====
+
+/**
+ * SVG document for `graph` drawn at `layout`. Nodes are rounded boxes sized
+ * to their labels, directed edges end in arrowheads, and edges between the
+ * same two nodes curve apart instead of overlapping.
+ */
+export const render = <N, E, T extends Graph.Kind>(
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>,
+  layout: Layout.Layout,
+  options: SvgOptions<N, E> = {}
+): string => {
+  const nodeLabel = options.nodeLabel ?? String;
+  const edgeLabel = options.edgeLabel ?? String;
+  const directed = graph.type === "directed";
+
+  const boxes = new Map<Graph.NodeIndex, Box>();
+  for (const [index, data] of graph.nodes) {
+    const [x, y] = layout.nodes.get(index) ?? [0, 0];
+    const w = Math.max(
+      NODE_HEIGHT,
+      nodeLabel(data).length * FONT_SIZE * 0.6 + 20
+    );
+    boxes.set(index, { x, y, w, h: NODE_HEIGHT });
+  }
+
+  // One arrowhead per stroke colour; SVG 1.1 markers cannot borrow it
+  const markers = new Map<string, string>();
+  const markerFor = (color: string) => {
+    const existing = markers.get(color);
+    if (existing !== undefined) return existing;
+    const id = `arrow-${markers.size}`;
+    markers.set(color, id);
+    return id;
+  };
+
+  // Edges per unordered pair of nodes, to fan out parallel ones
+  const siblings = new Map<string, Array<Graph.EdgeIndex>>();
+  for (const [index, edge] of graph.edges) {
+    const pair = [edge.source, edge.target].sort((a, b) => a - b).join("-");
+    siblings.set(pair, [...(siblings.get(pair) ?? []), index]);
+  }
+
+  const edgeElements: Array<string> = [];
+  for (const [index, edge] of graph.edges) {
+    const from = boxes.get(edge.source);
+    const to = boxes.get(edge.target);
+    if (from === undefined || to === undefined) continue;
+    const style = {
+      ...DEFAULT_EDGE,
+      ...options.edgeStyle?.({
+        index,
+        source: edge.source,
+        target: edge.target,
+        data: edge.data,
+      }),
+    };
+    const marker = directed
+      ? ` marker-end="url(#${markerFor(style.stroke ?? "#000")})"`
+      : "";
+
+    let d: string;
+    let labelAt: Layout.Point;
+    if (edge.source === edge.target) {
+      // Loop over the top of the node
+      const top = from.y - from.h / 2;
+      d = `M ${round(from.x - 8)} ${round(top)} C ${round(from.x - 30)} ${round(top - 40)} ${round(from.x + 30)} ${round(top - 40)} ${round(from.x + 8)} ${round(top)}`;
+      labelAt = [from.x, top - 34];
+    } else {
+      const bends = layout.bends.get(index) ?? [];
+      const pair = [edge.source, edge.target].sort((a, b) => a - b).join("-");
+      const group = siblings.get(pair) ?? [index];
+      const rank = group.indexOf(index);
+      if (bends.length === 0 && group.length > 1) {
+        // Curve sideways, measured from a fixed direction so that edges
+        // running opposite ways still separate
+        const [low, high] = edge.source < edge.target ? [from, to] : [to, from];
+        const length = Math.hypot(high.x - low.x, high.y - low.y) || 1;
+        const bend = (rank - (group.length - 1) / 2) * PARALLEL_SPACING * 2;
+        const control: Layout.Point = [
+          (from.x + to.x) / 2 + (-(high.y - low.y) / length) * bend,
+          (from.y + to.y) / 2 + ((high.x - low.x) / length) * bend,
+        ];
+        const start = boundary(from, control);
+        const end = boundary(to, control);
+        d = `M ${round(start[0])} ${round(start[1])} Q ${round(control[0])} ${round(control[1])} ${round(end[0])} ${round(end[1])}`;
+        labelAt = [
+          (start[0] + 2 * control[0] + end[0]) / 4,
+          (start[1] + 2 * control[1] + end[1]) / 4,
+        ];
+      } else {
+        const first = bends[0] ?? [to.x, to.y];
+        const last = bends[bends.length - 1] ?? [from.x, from.y];
+        const points = [boundary(from, first), ...bends, boundary(to, last)];
+        d = points
+          .map(([x, y], i) => `${i === 0 ? "M" : "L"} ${round(x)} ${round(y)}`)
+          .join(" ");
+        // Middle of the middle segment
+        const middle = Math.floor((points.length - 1) / 2);
+        const a = points[middle] ?? [from.x, from.y];
+        const b = points[middle + 1] ?? [to.x, to.y];
+        labelAt = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+      }
+    }
+
+    edgeElements.push(
+      `  <path d="${d}" fill="none" ${strokeAttributes(style)}${marker}/>`
+    );
+    const label = edgeLabel(edge.data);
+    if (label !== "") {
+      edgeElements.push(
+        `  <text x="${round(labelAt[0])}" y="${round(labelAt[1])}" font-size="${FONT_SIZE - 2}" text-anchor="middle" dominant-baseline="middle" stroke="#fff" stroke-width="3" paint-order="stroke" ${textAttributes(style)}>${escapeXml(label)}</text>`
+      );
+    }
+  }
+
+  const nodeElements: Array<string> = [];
+  for (const [index, data] of graph.nodes) {
+    const box = boxes.get(index);
+    if (box === undefined) continue;
+    const style = { ...DEFAULT_NODE, ...options.nodeStyle?.(data, index) };
+    nodeElements.push(
+      `  <rect x="${round(box.x - box.w / 2)}" y="${round(box.y - box.h / 2)}" width="${round(box.w)}" height="${box.h}" rx="8" fill="${escapeXml(style.fill ?? "none")}" ${strokeAttributes(style)}/>`,
+      `  <text x="${round(box.x)}" y="${round(box.y)}" font-size="${FONT_SIZE}" text-anchor="middle" dominant-baseline="central" ${textAttributes(style)}>${escapeXml(nodeLabel(data))}</text>`
+    );
+  }
+
+  const defs = [...markers].map(
+    ([color, id]) =>
+      `    <marker id="${id}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="${escapeXml(color)}"/></marker>`
+  );
+  const title =
+    options.graphName === undefined
+      ? []
+      : [
+          `  <title>${escapeXml(options.graphName)}</title>`,
+          `  <text x="${layout.width / 2}" y="24" font-size="${FONT_SIZE + 5}" font-weight="bold" text-anchor="middle" fill="#0f172a">${escapeXml(options.graphName)}</text>`,
+        ];
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}" font-family="system-ui, sans-serif">`,
+    ...title,
+    ...(defs.length === 0 ? [] : ["  <defs>", ...defs, "  </defs>"]),
+    `  <rect width="100%" height="100%" fill="#fff"/>`,
+    ...edgeElements,
+    ...nodeElements,
+    "</svg>",
+  ].join("\n");
+};
+
+/** Renders the graph and writes it to `file`, creating parent directories. */
+export const write = <N, E, T extends Graph.Kind>(
+  file: string,
+  graph: Graph.Graph<N, E, T> | Graph.MutableGraph<N, E, T>,
+  layout: Layout.Layout,
+  options: SvgOptions<N, E> = {}
+): Effect.Effect<void, PlatformError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem;
+    const path = yield* Path.Path;
+    yield* fs.makeDirectory(path.dirname(file), { recursive: true });
+    yield* fs.writeFileString(file, render(graph, layout, options));
+  });